@@ -0,0 +1,545 @@
+import {
+  deserializeMoney,
+  MajikMoney,
+  serializeMoney,
+} from "@thezelijah/majik-money";
+import type { MajikService } from "./majik-service";
+import {
+  BundleCapacityImplication,
+  BundleComponentBreakdown,
+  ISODateString,
+  MajikServiceBundleJSON,
+  ObjectType,
+  ServiceBundleComponent,
+  ServiceBundlePricing,
+  ServiceID,
+  YYYYMM,
+} from "./types";
+import { RevenueModel } from "./enums";
+import {
+  autogenerateID,
+  dateToYYYYMM,
+  DEFAULT_CURRENCY_CODE,
+  isValidYYYYMM,
+  priceUnits,
+} from "./utils";
+
+/**
+ * A package of several services sold together, e.g. "Setup + 3 months support + training".
+ * Priced at a fixed bundle price or at a discount off the components' list price.
+ * All components must share a currency.
+ */
+export class MajikServiceBundle {
+  readonly __type = "MajikServiceBundle";
+  readonly __object: ObjectType = "class";
+
+  /** Unique bundle ID */
+  id: string;
+
+  /** Name of the bundle */
+  name: string;
+
+  /** Optional description */
+  description?: string;
+
+  /** ISO timestamp of creation */
+  timestamp: ISODateString;
+
+  /** ISO timestamp of last update */
+  last_update: ISODateString;
+
+  /** Components in insertion order */
+  private items: ServiceBundleComponent[] = [];
+
+  private pricing: ServiceBundlePricing = {};
+
+  /**
+   * Creates a new `MajikServiceBundle` instance.
+   * @param id - Optional bundle ID. Auto-generated if undefined.
+   * @param name - Bundle name.
+   * @param components - Initial components.
+   * @param pricing - Optional bundle price or discount. Defaults to the list price.
+   * @param description - Optional description.
+   * @param timestamp - Optional creation timestamp. Defaults to current time.
+   * @param last_update - Optional last update timestamp. Defaults to current time.
+   */
+  constructor(
+    id: string | undefined,
+    name: string,
+    components: ServiceBundleComponent[] = [],
+    pricing: ServiceBundlePricing = {},
+    description?: string,
+    timestamp: ISODateString = new Date().toISOString(),
+    last_update: ISODateString = new Date().toISOString()
+  ) {
+    this.id = id || autogenerateID("mjksb");
+    this.name = name;
+    this.description = description;
+    this.timestamp = timestamp;
+    this.last_update = last_update;
+    components.forEach((c) => {
+      this.assertComponent(c);
+      this.items.push({ ...c });
+    });
+    if (pricing.price && pricing.discount !== undefined) {
+      throw new Error("A bundle has either a price or a discount, not both");
+    }
+    if (pricing.price) this.setPrice(pricing.price);
+    if (pricing.discount !== undefined) this.setDiscount(pricing.discount);
+  }
+
+  /**
+   * Initializes and creates a new empty `MajikServiceBundle`.
+   * @param name - Bundle name.
+   * @param description - Optional description.
+   * @returns A new `MajikServiceBundle` instance.
+   */
+  static initialize(name: string, description?: string): MajikServiceBundle {
+    if (!name || typeof name !== "string" || name.trim() === "") {
+      throw new Error("Name must be a valid non-empty string.");
+    }
+    return new MajikServiceBundle(undefined, name, [], {}, description);
+  }
+
+  /* ------------------ COMPONENTS ------------------ */
+
+  /** Returns all components */
+  get components(): readonly ServiceBundleComponent[] {
+    return this.items;
+  }
+
+  /** Returns the shared currency of the components, or of the bundle price if empty */
+  get currencyCode(): string {
+    return (
+      this.items[0]?.service.currencyCode ??
+      this.pricing.price?.currency.code ??
+      DEFAULT_CURRENCY_CODE
+    );
+  }
+
+  /**
+   * Adds a service to the bundle.
+   * @param service - Component service. Must share the bundle's currency.
+   * @param quantity - Units for PER_UNIT services, projects for FIXED_PROJECT, months for FIXED_RECURRING.
+   * @param units - Optional capacity units one bundle consumes. Derived from the revenue model if omitted.
+   * @throws Will throw an error if the service is already included or uses another currency.
+   */
+  add(service: MajikService, quantity: number, units?: number): this {
+    const component = { service, quantity, units };
+    this.assertComponent(component);
+    this.items.push(component);
+    this.updateTimestamp();
+    return this;
+  }
+
+  /**
+   * Updates the quantity and capacity units of a component.
+   * @param id - Service ID.
+   * @param quantity - New quantity.
+   * @param units - Optional capacity units per bundle. Pass `undefined` to derive them.
+   */
+  setQuantity(id: ServiceID, quantity: number, units?: number): this {
+    const component = this.findComponent(id);
+    this.assertQuantity(quantity, units);
+    component.quantity = quantity;
+    component.units = units;
+    this.updateTimestamp();
+    return this;
+  }
+
+  /**
+   * Removes a component by service ID.
+   * @param id - Service ID.
+   */
+  remove(id: ServiceID): this {
+    this.findComponent(id);
+    this.items = this.items.filter((c) => c.service.id !== id);
+    this.updateTimestamp();
+    return this;
+  }
+
+  /* ------------------ PRICING ------------------ */
+
+  /** Returns the fixed bundle price, if set */
+  get price(): MajikMoney | undefined {
+    return this.pricing.price;
+  }
+
+  /** Returns the discount off the list price, if set */
+  get discount(): number | undefined {
+    return this.pricing.discount;
+  }
+
+  /**
+   * Sets a fixed bundle price, replacing any discount.
+   * @param price - Bundle price in the components' currency.
+   */
+  setPrice(price: MajikMoney): this {
+    if (this.items.length > 0 && price.currency.code !== this.currencyCode) {
+      throw new Error("Currency mismatch with bundle components");
+    }
+    if (price.toMajor() < 0) throw new Error("Price cannot be negative");
+    this.pricing = { price };
+    this.updateTimestamp();
+    return this;
+  }
+
+  /**
+   * Sets a discount off the list price, replacing any fixed price.
+   * @param discount - Share of the list price, in [0, 1) (e.g. 0.15 = 15% off).
+   */
+  setDiscount(discount: number): this {
+    if (!Number.isFinite(discount) || discount < 0 || discount >= 1) {
+      throw new Error("Discount must be a number in [0, 1)");
+    }
+    this.pricing = { discount };
+    this.updateTimestamp();
+    return this;
+  }
+
+  /**
+   * Removes the bundle price or discount, so the bundle sells at list price.
+   */
+  clearPricing(): this {
+    this.pricing = {};
+    this.updateTimestamp();
+    return this;
+  }
+
+  /* ------------------ FINANCE ------------------ */
+
+  /** Sum of the components' prices at their current rates */
+  get listPrice(): MajikMoney {
+    return this.sum(this.items.map((c) => this.componentListPrice(c)));
+  }
+
+  /** Bundle price: the fixed price, or the list price less the discount */
+  get revenue(): MajikMoney {
+    this.assertCurrency();
+    if (this.pricing.price) return this.pricing.price;
+    return this.listPrice.multiply(1 - (this.pricing.discount ?? 0));
+  }
+
+  /** List price less revenue. Negative if the bundle price exceeds the list price. */
+  get discountAmount(): MajikMoney {
+    return this.listPrice.subtract(this.revenue);
+  }
+
+  /**
+   * Variable COS of all components: each service's unit cost in the current month × the units it consumes.
+   * Fixed-monthly and one-time COS are overheads of running a service, not costs of one sale,
+   * so they are not included.
+   */
+  get cos(): MajikMoney {
+    return this.sum(this.items.map((c) => this.componentCOS(c)));
+  }
+
+  get profit(): MajikMoney {
+    return this.revenue.subtract(this.cos);
+  }
+
+  get margin(): number {
+    const revenue = this.revenue;
+    return revenue.isZero() ? 0 : this.profit.ratio(revenue);
+  }
+
+  /**
+   * Returns each component's list price, allocated revenue, COS and margin.
+   * Revenue is allocated in proportion to list price.
+   */
+  getBreakdown(): BundleComponentBreakdown[] {
+    const listPrice = this.listPrice;
+    const revenue = this.revenue;
+
+    return this.items.map((c) => {
+      const componentList = this.componentListPrice(c);
+      const componentRevenue = listPrice.isZero()
+        ? revenue.divide(this.items.length)
+        : revenue.multiply(componentList.ratio(listPrice));
+      const units = this.unitsOf(c);
+      const cos = this.componentCOS(c);
+      const profit = componentRevenue.subtract(cos);
+
+      return {
+        serviceId: c.service.id,
+        serviceName: c.service.name,
+        quantity: c.quantity,
+        units,
+        listPrice: componentList,
+        revenue: componentRevenue,
+        cos,
+        profit,
+        margin: componentRevenue.isZero() ? 0 : profit.ratio(componentRevenue),
+      };
+    });
+  }
+
+  /* ------------------ CAPACITY ------------------ */
+
+  /**
+   * Returns the capacity units one bundle consumes from each component service.
+   */
+  get capacityRequirements(): { serviceId: ServiceID; units: number }[] {
+    return this.items.map((c) => ({
+      serviceId: c.service.id,
+      units: this.unitsOf(c),
+    }));
+  }
+
+  /**
+   * Returns what selling bundles in a month requires from each component service,
+   * against the service's remaining (unbooked) capacity.
+   * @param month - YYYYMM month the bundles are delivered in.
+   * @param bundles - Number of bundles. Defaults to 1.
+   */
+  getCapacityImplications(
+    month: YYYYMM,
+    bundles: number = 1
+  ): BundleCapacityImplication[] {
+    if (!isValidYYYYMM(month)) throw new Error("Invalid month");
+    if (!Number.isFinite(bundles) || bundles < 0) {
+      throw new Error("Bundles must be a non-negative number");
+    }
+
+    return this.items.map((c) => {
+      const required = this.unitsOf(c) * bundles;
+      const remaining = c.service.getRemainingCapacity(month);
+      return {
+        serviceId: c.service.id,
+        serviceName: c.service.name,
+        month,
+        required,
+        remaining,
+        shortfall: Math.max(0, required - remaining),
+      };
+    });
+  }
+
+  /**
+   * Returns how many whole bundles the components' remaining capacity supports in a month.
+   * @param month - YYYYMM month.
+   */
+  maxBundles(month: YYYYMM): number {
+    if (!isValidYYYYMM(month)) throw new Error("Invalid month");
+
+    const limits = this.items
+      .map((c) => ({ units: this.unitsOf(c), service: c.service }))
+      .filter(({ units }) => units > 0)
+      .map(({ units, service }) =>
+        Math.floor(service.getRemainingCapacity(month) / units)
+      );
+
+    return limits.length === 0 ? 0 : Math.min(...limits);
+  }
+
+  /* ------------------ UTIL ------------------ */
+
+  /**
+   * Converts the bundle to a plain JSON object, including its totals.
+   * Components are stored as service IDs.
+   * @returns {MajikServiceBundleJSON} - The plain object representation of the bundle.
+   * @throws Will throw an error if the components no longer share a currency.
+   */
+  toJSON(): MajikServiceBundleJSON {
+    this.assertCurrency();
+
+    const preJSON: MajikServiceBundleJSON = {
+      __type: "MajikServiceBundle",
+      __object: "json",
+      id: this.id,
+      name: this.name,
+      description: this.description,
+      currencyCode: this.currencyCode,
+      components: this.items.map((c) => ({
+        serviceId: c.service.id,
+        quantity: c.quantity,
+        units: c.units,
+      })),
+      price: this.pricing.price,
+      discount: this.pricing.discount,
+      timestamp: this.timestamp,
+      last_update: this.last_update,
+      listPrice: this.listPrice,
+      revenue: this.revenue,
+      cos: this.cos,
+      profit: this.profit,
+      margin: this.margin,
+    };
+
+    return serializeMoney(preJSON);
+  }
+
+  /**
+   * Static method to parse a JSON string or object into a `MajikServiceBundle` instance.
+   * Stored totals are ignored and recomputed.
+   *
+   * @param json - A JSON string or plain object to be parsed.
+   * @param services - Services to resolve component IDs against, e.g. `catalog.services`.
+   * @returns {MajikServiceBundle} - A new bundle based on the parsed JSON.
+   * @throws Will throw an error if required properties are missing, a component service
+   * cannot be found, or the components do not share the stored currency.
+   */
+  static parseFromJSON(
+    json: string | MajikServiceBundleJSON,
+    services: readonly MajikService[]
+  ): MajikServiceBundle {
+    const rawParse: MajikServiceBundleJSON =
+      typeof json === "string"
+        ? JSON.parse(json)
+        : structuredClone
+        ? structuredClone(json)
+        : JSON.parse(JSON.stringify(json));
+
+    const parsedData: MajikServiceBundleJSON = deserializeMoney(rawParse);
+
+    if (!parsedData.id) {
+      throw new Error("Missing required property: 'id'");
+    }
+
+    if (!Array.isArray(parsedData.components)) {
+      throw new Error("Missing required property: 'components'");
+    }
+
+    const components = parsedData.components.map((c) => {
+      const service = services.find((s) => s.id === c.serviceId);
+      if (!service) {
+        throw new Error(`Bundle component service ${c.serviceId} not found`);
+      }
+      if (
+        parsedData.currencyCode &&
+        service.currencyCode !== parsedData.currencyCode
+      ) {
+        throw new Error(
+          `Service ${service.id} is priced in ${service.currencyCode}, but the bundle is in ${parsedData.currencyCode}`
+        );
+      }
+      return { service, quantity: c.quantity, units: c.units };
+    });
+
+    return new MajikServiceBundle(
+      parsedData.id,
+      parsedData.name,
+      components,
+      { price: parsedData.price, discount: parsedData.discount },
+      parsedData.description,
+      parsedData.timestamp,
+      parsedData.last_update
+    );
+  }
+
+  /**
+   * Price of a component at the service's current rate:
+   * tiered unit pricing for PER_UNIT services, the fee × quantity otherwise.
+   */
+  private componentListPrice(component: ServiceBundleComponent): MajikMoney {
+    const { service, quantity } = component;
+    return service.revenueModel === RevenueModel.PER_UNIT
+      ? priceUnits(service.rate, quantity)
+      : service.rate.amount.multiply(quantity);
+  }
+
+  /**
+   * Variable COS of a component, converted at the current month's exchange rates,
+   * so monthly-only rate providers work.
+   */
+  private componentCOS(component: ServiceBundleComponent): MajikMoney {
+    return component.service
+      .getUnitCost(dateToYYYYMM(new Date()))
+      .multiply(this.unitsOf(component));
+  }
+
+  /**
+   * Capacity units one bundle consumes from a component: the quantity for PER_UNIT services,
+   * a project's total capacity for FIXED_PROJECT, and an average month for FIXED_RECURRING.
+   */
+  private unitsOf(component: ServiceBundleComponent): number {
+    const { service, quantity, units } = component;
+    if (units !== undefined) return units;
+
+    switch (service.revenueModel) {
+      case RevenueModel.FIXED_PROJECT:
+        return quantity * service.totalCapacity;
+      case RevenueModel.FIXED_RECURRING:
+        return quantity * service.averageMonthlyCapacity;
+      default:
+        return quantity;
+    }
+  }
+
+  private sum(amounts: MajikMoney[]): MajikMoney {
+    this.assertCurrency();
+    return amounts.reduce(
+      (acc, amount) => acc.add(amount),
+      MajikMoney.zero(this.currencyCode)
+    );
+  }
+
+  private findComponent(id: ServiceID): ServiceBundleComponent {
+    const component = this.items.find((c) => c.service.id === id);
+    if (!component) throw new Error(`Service ${id} is not in the bundle`);
+    return component;
+  }
+
+  private assertComponent(component: ServiceBundleComponent): void {
+    const { service, quantity, units } = component;
+    if (this.items.some((c) => c.service.id === service.id)) {
+      throw new Error(`Service ${service.id} is already in the bundle`);
+    }
+    if (this.items.length > 0 && service.currencyCode !== this.currencyCode) {
+      throw new Error(
+        `Service ${service.id} is priced in ${service.currencyCode}, but the bundle is in ${this.currencyCode}`
+      );
+    }
+    if (
+      this.items.length === 0 &&
+      this.pricing.price &&
+      service.currencyCode !== this.pricing.price.currency.code
+    ) {
+      throw new Error("Currency mismatch with bundle price");
+    }
+    this.assertQuantity(quantity, units);
+  }
+
+  private assertQuantity(quantity: number, units?: number): void {
+    if (!Number.isFinite(quantity) || quantity <= 0) {
+      throw new Error("Quantity must be greater than zero");
+    }
+    if (units !== undefined && (!Number.isFinite(units) || units < 0)) {
+      throw new Error("Units must be a non-negative number");
+    }
+  }
+
+  /** Components can change currency after they are added, e.g. through `setRate()` */
+  private assertCurrency(): void {
+    const codes = new Set([
+      ...this.items.map((c) => c.service.currencyCode),
+      ...(this.pricing.price ? [this.pricing.price.currency.code] : []),
+    ]);
+    if (codes.size > 1) {
+      throw new Error(
+        `Bundle components must share a currency, found: ${[...codes].join(
+          ", "
+        )}`
+      );
+    }
+  }
+
+  /**
+   * Updates the `last_update` timestamp to the current time.
+   */
+  private updateTimestamp(): void {
+    this.last_update = new Date().toISOString();
+  }
+}
+
+export function isMajikServiceBundleClass(
+  item: MajikServiceBundle | MajikServiceBundleJSON
+): boolean {
+  return item.__object === "class";
+}
+
+export function isMajikServiceBundleJSON(
+  item: MajikServiceBundle | MajikServiceBundleJSON
+): boolean {
+  return item.__object === "json";
+}
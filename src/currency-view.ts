@@ -0,0 +1,169 @@
+import { MajikMoney } from "@thezelijah/majik-money";
+import type { MajikService } from "./majik-service";
+import { ServiceMonthlySnapshot, TaxBreakdown, TaxLine, YYYYMM } from "./types";
+
+/**
+ * Read-only view of a `MajikService` that reports finance figures in another currency.
+ * Monthly figures are converted at the month's rate; aggregates are the sum of converted months.
+ * Unit figures have no month and are converted like `convertMoney()` without a month.
+ */
+export class MajikServiceCurrencyView {
+  /**
+   * Creates a new currency view. Prefer `MajikService.toCurrency(code)`.
+   * @param service - The service to report on.
+   * @param currencyCode - Target currency code.
+   * @param financeMonths - Returns the months with finance activity that aggregates are summed over.
+   */
+  constructor(
+    readonly service: MajikService,
+    readonly currencyCode: string,
+    private readonly financeMonths: () => YYYYMM[]
+  ) {}
+
+  /* ------------------ AGGREGATE FINANCE GETTERS ------------------ */
+
+  /** Returns total gross revenue */
+  get grossRevenue(): MajikMoney {
+    return this.sumMonths((month) => this.getRevenue(month));
+  }
+
+  /** Returns total gross COS */
+  get grossCost(): MajikMoney {
+    return this.sumMonths((month) => this.getCOS(month));
+  }
+
+  /** Returns total gross profit */
+  get grossProfit(): MajikMoney {
+    return this.sumMonths((month) => this.getProfit(month));
+  }
+
+  /** Returns net revenue */
+  get netRevenue(): MajikMoney {
+    return this.sumMonths((month) => this.getNetRevenue(month));
+  }
+
+  /** Returns net profit */
+  get netProfit(): MajikMoney {
+    return this.sumMonths((month) => this.getNetProfit(month));
+  }
+
+  get averageMonthlyRevenue(): MajikMoney {
+    const months = this.service.capacity.length;
+    if (months === 0) return this.zero();
+    return this.grossRevenue.divide(months);
+  }
+
+  get averageMonthlyProfit(): MajikMoney {
+    const months = this.service.capacity.length;
+    if (months === 0) return this.zero();
+    return this.grossProfit.divide(months);
+  }
+
+  get unitCost(): MajikMoney {
+    return this.convert(this.service.unitCost);
+  }
+
+  get unitRate(): MajikMoney {
+    return this.convert(this.service.unitRate);
+  }
+
+  get unitProfit(): MajikMoney {
+    return this.convert(this.service.unitProfit);
+  }
+
+  get unitMargin(): number {
+    return this.service.unitMargin;
+  }
+
+  get price(): MajikMoney {
+    return this.convert(this.service.price);
+  }
+
+  /* ------------------ MONTHLY FINANCE ------------------ */
+
+  getRevenue(month: YYYYMM): MajikMoney {
+    return this.convert(this.service.getRevenue(month), month);
+  }
+
+  getCOS(month: YYYYMM): MajikMoney {
+    return this.convert(this.service.getCOS(month), month);
+  }
+
+  getProfit(month: YYYYMM): MajikMoney {
+    return this.convert(this.service.getProfit(month), month);
+  }
+
+  getMargin(month: YYYYMM): number {
+    return this.service.getMargin(month);
+  }
+
+  getNetRevenue(month: YYYYMM): MajikMoney {
+    return this.convert(this.service.getNetRevenue(month), month);
+  }
+
+  getNetProfit(month: YYYYMM): MajikMoney {
+    return this.convert(this.service.getNetProfit(month), month);
+  }
+
+  /**
+   * Alias for getNetProfit, same as Net Income
+   */
+  getNetIncome(month: YYYYMM): MajikMoney {
+    return this.getNetProfit(month);
+  }
+
+  getTaxBreakdown(month: YYYYMM): TaxBreakdown {
+    return this.convertTax(this.service.getTaxBreakdown(month));
+  }
+
+  getMonthlySnapshot(month: YYYYMM): ServiceMonthlySnapshot {
+    const snapshot = this.service.getMonthlySnapshot(month);
+
+    return {
+      ...snapshot,
+      unitRate: this.convert(snapshot.unitRate, month),
+      revenue: this.convert(snapshot.revenue, month),
+      cogs: this.convert(snapshot.cogs, month),
+      profit: this.convert(snapshot.profit, month),
+      netRevenue: this.convert(snapshot.netRevenue, month),
+      netIncome: this.convert(snapshot.netIncome, month),
+      tax: this.convertTax(snapshot.tax),
+    };
+  }
+
+  /* ------------------ UTIL ------------------ */
+
+  private convert(money: MajikMoney, month?: YYYYMM): MajikMoney {
+    return this.service.convertMoney(money, this.currencyCode, month);
+  }
+
+  private convertTax(tax: TaxBreakdown): TaxBreakdown {
+    const month = tax.month;
+    const lines: TaxLine[] = tax.lines.map((line) => ({
+      ...line,
+      base: this.convert(line.base, month),
+      amount: this.convert(line.amount, month),
+    }));
+
+    return {
+      ...tax,
+      lines,
+      revenueTax: this.convert(tax.revenueTax, month),
+      incomeTax: this.convert(tax.incomeTax, month),
+      collected: this.convert(tax.collected, month),
+      adjustments: this.convert(tax.adjustments, month),
+      total: this.convert(tax.total, month),
+    };
+  }
+
+  private sumMonths(value: (month: YYYYMM) => MajikMoney): MajikMoney {
+    return this.financeMonths().reduce(
+      (acc, month) => acc.add(value(month)),
+      this.zero()
+    );
+  }
+
+  private zero(): MajikMoney {
+    return MajikMoney.zero(this.currencyCode);
+  }
+}
@@ -46,6 +46,83 @@ export const RateUnit = {
 
 export type RateUnit = (typeof RateUnit)[keyof typeof RateUnit];
 
+/**
+ * How a COS item is incurred.
+ */
+
+export const COSBehavior = {
+  VARIABLE: "Variable", // per capacity unit
+  FIXED_MONTHLY: "Fixed Monthly", // once per planned month
+  ONE_TIME: "One-Time", // once, in its effective month
+} as const;
+
+export type COSBehavior = (typeof COSBehavior)[keyof typeof COSBehavior];
+
+/**
+ * How rate tiers price a month's units.
+ * `GRADUATED` prices each unit at the tier it falls in; `VOLUME` prices all units at the tier reached.
+ */
+
+export const TierMode = {
+  GRADUATED: "Graduated",
+  VOLUME: "Volume",
+} as const;
+
+export type TierMode = (typeof TierMode)[keyof typeof TierMode];
+
+/**
+ * How revenue is recognized for a service.
+ * Resolved from `ServiceType` and `RateUnit` unless overridden on the metadata.
+ */
+
+export const RevenueModel = {
+  PER_UNIT: "Per Unit", // rate × billable units (hours, days, sessions, metered units)
+  FIXED_PROJECT: "Fixed Project", // one fee spread across milestones or planned units
+  FIXED_RECURRING: "Fixed Recurring", // one fee per planned month (retainer)
+} as const;
+
+export type RevenueModel = (typeof RevenueModel)[keyof typeof RevenueModel];
+
+/**
+ * Kinds of stored finance adjustments.
+ * Discounts, returns and allowances reduce net revenue; operating expenses and taxes reduce net profit.
+ */
+
+export const AdjustmentKind = {
+  DISCOUNT: "Discount",
+  RETURN: "Return",
+  ALLOWANCE: "Allowance",
+  OPERATING_EXPENSE: "Operating Expense",
+  TAX: "Tax",
+} as const;
+
+export type AdjustmentKind =
+  (typeof AdjustmentKind)[keyof typeof AdjustmentKind];
+
+/**
+ * Kinds of tax rules.
+ * Exclusive `VAT` is collected on top of the rate and passed through; other exclusive revenue taxes are a cost.
+ */
+
+export const TaxKind = {
+  VAT: "VAT",
+  WITHHOLDING: "Withholding",
+  OTHER: "Other",
+} as const;
+
+export type TaxKind = (typeof TaxKind)[keyof typeof TaxKind];
+
+/**
+ * The base a tax rule is computed on.
+ */
+
+export const TaxBase = {
+  REVENUE: "Revenue",
+  INCOME: "Income",
+} as const;
+
+export type TaxBase = (typeof TaxBase)[keyof typeof TaxBase];
+
 export const CapacityPeriodResizeMode = {
   DEFAULT: "default",
   DISTRIBUTE: "distribute",
@@ -53,3 +130,129 @@ export const CapacityPeriodResizeMode = {
 
 export type CapacityPeriodResizeMode =
   (typeof CapacityPeriodResizeMode)[keyof typeof CapacityPeriodResizeMode];
+
+export const ForecastStrategy = {
+  COMPOUND: "compound",
+  SEASONAL: "seasonal",
+  LINEAR: "linear",
+  STEP: "step",
+  MOVING_AVERAGE: "moving-average",
+  EXPONENTIAL_SMOOTHING: "exponential-smoothing",
+} as const;
+
+export type ForecastStrategy =
+  (typeof ForecastStrategy)[keyof typeof ForecastStrategy];
+
+/**
+ * Which units an invoice bills for.
+ * `DELIVERED` uses recorded actuals; months without actuals are not billed and are reported as invoice warnings.
+ */
+
+export const InvoiceUnitBasis = {
+  DELIVERED: "Delivered",
+  PLANNED: "Planned",
+} as const;
+
+export type InvoiceUnitBasis =
+  (typeof InvoiceUnitBasis)[keyof typeof InvoiceUnitBasis];
+
+/**
+ * How a tax line affects the amount an invoice asks for.
+ */
+
+export const InvoiceTaxTreatment = {
+  ADDED: "Added", // exclusive VAT, charged on top of the subtotal
+  WITHHELD: "Withheld", // exclusive withholding, deducted by the client from the amount due
+  INCLUDED: "Included", // inclusive tax, already part of the line amounts
+} as const;
+
+export type InvoiceTaxTreatment =
+  (typeof InvoiceTaxTreatment)[keyof typeof InvoiceTaxTreatment];
+
+/**
+ * Lifecycle of a quote: DRAFT → SENT → ACCEPTED. DRAFT and SENT quotes can expire.
+ */
+
+export const QuoteStatus = {
+  DRAFT: "Draft",
+  SENT: "Sent",
+  ACCEPTED: "Accepted",
+  EXPIRED: "Expired",
+} as const;
+
+export type QuoteStatus = (typeof QuoteStatus)[keyof typeof QuoteStatus];
+
+/**
+ * Severity of a validation issue. Errors make finance figures unreliable; warnings are suspicious but usable.
+ */
+
+export const ValidationSeverity = {
+  ERROR: "Error",
+  WARNING: "Warning",
+} as const;
+
+export type ValidationSeverity =
+  (typeof ValidationSeverity)[keyof typeof ValidationSeverity];
+
+/**
+ * Machine-readable codes of validation issues.
+ */
+
+export const ValidationIssueCode = {
+  MISSING_FIELD: "MISSING_FIELD",
+  NON_POSITIVE_RATE: "NON_POSITIVE_RATE",
+  RATE_BELOW_COST: "RATE_BELOW_COST",
+  INVALID_MONTH: "INVALID_MONTH",
+  DUPLICATE_CAPACITY_MONTH: "DUPLICATE_CAPACITY_MONTH",
+  NEGATIVE_CAPACITY: "NEGATIVE_CAPACITY",
+  NEGATIVE_UNITS: "NEGATIVE_UNITS",
+  COS_INVALID_QUANTITY: "COS_INVALID_QUANTITY",
+  COS_CURRENCY_MISMATCH: "COS_CURRENCY_MISMATCH",
+  COS_SUBTOTAL_MISMATCH: "COS_SUBTOTAL_MISMATCH",
+  CONVERSION_FAILED: "CONVERSION_FAILED",
+  CATEGORY_DRIFT: "CATEGORY_DRIFT",
+  TYPE_DRIFT: "TYPE_DRIFT",
+  RATE_DRIFT: "RATE_DRIFT",
+  STATUS_DRIFT: "STATUS_DRIFT",
+} as const;
+
+export type ValidationIssueCode =
+  (typeof ValidationIssueCode)[keyof typeof ValidationIssueCode];
+
+/**
+ * Variants replace the standard offering for a share of units; add-ons are sold on top of it.
+ */
+
+export const VariantKind = {
+  VARIANT: "Variant",
+  ADD_ON: "Add-On",
+} as const;
+
+export type VariantKind = (typeof VariantKind)[keyof typeof VariantKind];
+
+/**
+ * What a service resource is.
+ */
+
+export const ResourceKind = {
+  PERSON: "Person",
+  EQUIPMENT: "Equipment",
+} as const;
+
+export type ResourceKind = (typeof ResourceKind)[keyof typeof ResourceKind];
+
+/**
+ * Days of the week, numbered like `Date.getUTCDay()`.
+ */
+
+export const Weekday = {
+  SUNDAY: 0,
+  MONDAY: 1,
+  TUESDAY: 2,
+  WEDNESDAY: 3,
+  THURSDAY: 4,
+  FRIDAY: 5,
+  SATURDAY: 6,
+} as const;
+
+export type Weekday = (typeof Weekday)[keyof typeof Weekday];
@@ -0,0 +1,133 @@
+import {
+  ExchangeRateEntry,
+  ExchangeRateProvider,
+  ExchangeRateTableJSON,
+  YYYYMM,
+} from "./types";
+import { isValidYYYYMM } from "./utils";
+
+/**
+ * In-memory exchange rate table.
+ * Looks up a per-month rate first, then the fixed rate, then the inverse of either.
+ */
+export class InMemoryExchangeRateProvider implements ExchangeRateProvider {
+  private fixed = new Map<string, number>();
+  private monthly = new Map<string, number>();
+
+  /**
+   * Creates a new exchange rate table.
+   * @param entries - Optional initial rates.
+   */
+  constructor(entries: ExchangeRateEntry[] = []) {
+    entries.forEach((e) => this.setRate(e.from, e.to, e.rate, e.month));
+  }
+
+  /**
+   * Sets the rate from one currency to another.
+   * @param from - Source currency code (e.g. "USD").
+   * @param to - Target currency code (e.g. "PHP").
+   * @param rate - Units of `to` per unit of `from` (must be positive).
+   * @param month - Optional YYYYMM month. Fixed rate if omitted.
+   */
+  setRate(from: string, to: string, rate: number, month?: YYYYMM): this {
+    if (!from?.trim() || !to?.trim()) {
+      throw new Error("Currency codes cannot be empty");
+    }
+    if (!Number.isFinite(rate) || rate <= 0) {
+      throw new Error("Exchange rate must be a positive number");
+    }
+    if (month && !isValidYYYYMM(month)) throw new Error("Invalid month");
+
+    if (month) {
+      this.monthly.set(this.key(from, to, month), rate);
+    } else {
+      this.fixed.set(this.key(from, to), rate);
+    }
+    return this;
+  }
+
+  /**
+   * Removes a rate.
+   * @param from - Source currency code.
+   * @param to - Target currency code.
+   * @param month - Optional YYYYMM month. Removes the fixed rate if omitted.
+   */
+  removeRate(from: string, to: string, month?: YYYYMM): this {
+    if (month) {
+      this.monthly.delete(this.key(from, to, month));
+    } else {
+      this.fixed.delete(this.key(from, to));
+    }
+    return this;
+  }
+
+  /** Returns units of `to` per unit of `from`, or undefined if no rate is known. */
+  getRate(from: string, to: string, month?: YYYYMM): number | undefined {
+    if (from === to) return 1;
+
+    const direct = this.lookup(from, to, month);
+    if (direct !== undefined) return direct;
+
+    const inverse = this.lookup(to, from, month);
+    return inverse !== undefined ? 1 / inverse : undefined;
+  }
+
+  /** Returns all rates as entries. */
+  get entries(): ExchangeRateEntry[] {
+    const fixed = [...this.fixed.entries()].map(([key, rate]) => {
+      const [from, to] = key.split(":");
+      return { from, to, rate };
+    });
+
+    const monthly = [...this.monthly.entries()].map(([key, rate]) => {
+      const [from, to, month] = key.split(":");
+      return { from, to, rate, month: month as YYYYMM };
+    });
+
+    return [...fixed, ...monthly];
+  }
+
+  /**
+   * Converts the table to a plain JSON object.
+   * @returns {ExchangeRateTableJSON} - The plain object representation of the table.
+   */
+  toJSON(): ExchangeRateTableJSON {
+    return {
+      __type: "InMemoryExchangeRateProvider",
+      rates: this.entries,
+    };
+  }
+
+  /**
+   * Static method to parse a JSON string or object into an `InMemoryExchangeRateProvider`.
+   *
+   * @param json - A JSON string or plain object to be parsed.
+   * @returns {InMemoryExchangeRateProvider} - A new table with the parsed rates.
+   * @throws Will throw an error if the rates are missing or invalid.
+   */
+  static parseFromJSON(
+    json: string | ExchangeRateTableJSON
+  ): InMemoryExchangeRateProvider {
+    const parsed: ExchangeRateTableJSON =
+      typeof json === "string" ? JSON.parse(json) : json;
+
+    if (!Array.isArray(parsed?.rates)) {
+      throw new Error("Missing required property: 'rates'");
+    }
+
+    return new InMemoryExchangeRateProvider(parsed.rates);
+  }
+
+  private lookup(from: string, to: string, month?: YYYYMM): number | undefined {
+    if (month) {
+      const monthly = this.monthly.get(this.key(from, to, month));
+      if (monthly !== undefined) return monthly;
+    }
+    return this.fixed.get(this.key(from, to));
+  }
+
+  private key(from: string, to: string, month?: YYYYMM): string {
+    const pair = `${from.toUpperCase()}:${to.toUpperCase()}`;
+    return month ? `${pair}:${month}` : pair;
+  }
+}
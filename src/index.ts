@@ -1,4 +1,14 @@
 export * from "./majik-service";
+export * from "./majik-service-catalog";
+export * from "./bundle";
+export * from "./currency-view";
+export * from "./exchange-rates";
+export * from "./invoice";
+export * from "./invoice-builder";
+export * from "./quote";
+export * from "./resource-pool";
+export * from "./schema";
+export * from "./working-calendar";
 export * from "./utils";
 export * from "./enums";
 export * from "./types";
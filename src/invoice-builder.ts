@@ -0,0 +1,336 @@
+import { MajikMoney } from "@thezelijah/majik-money";
+import type { MajikService } from "./majik-service";
+import { MajikServiceInvoice } from "./invoice";
+import {
+  InvoiceDiscount,
+  InvoiceLineItem,
+  InvoiceNumberSequence,
+  InvoiceOptions,
+  InvoicePeriod,
+  InvoiceTaxLine,
+  MajikServiceInvoiceBuilderJSON,
+  YYYYMM,
+} from "./types";
+import {
+  AdjustmentKind,
+  InvoiceTaxTreatment,
+  InvoiceUnitBasis,
+  RateUnit,
+  RevenueModel,
+  TaxBase,
+  TaxKind,
+} from "./enums";
+import { isValidYYYYMM, monthsInPeriod, offsetMonthsToYYYYMM } from "./utils";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Builds invoices from a service's billable months and owns the invoice number sequence.
+ * Each successful `build()` consumes one number.
+ */
+export class MajikServiceInvoiceBuilder {
+  private sequence: InvoiceNumberSequence;
+
+  /** Default payment terms in days */
+  private paymentTerms: number;
+
+  /**
+   * Creates a new invoice builder.
+   * @param sequence - Optional number sequence. Defaults to prefix "INV-", starting at 1, padded to 5 digits.
+   * @param terms - Default payment terms in days. Defaults to 30.
+   */
+  constructor(
+    sequence: Partial<InvoiceNumberSequence> = {},
+    terms: number = 30
+  ) {
+    const next = sequence.next ?? 1;
+    const padding = sequence.padding ?? 5;
+    if (!Number.isInteger(next) || next < 1) {
+      throw new Error("Sequence start must be a positive integer");
+    }
+    if (!Number.isInteger(padding) || padding < 0) {
+      throw new Error("Sequence padding must be a non-negative integer");
+    }
+    this.assertTerms(terms);
+
+    this.sequence = { prefix: sequence.prefix ?? "INV-", next, padding };
+    this.paymentTerms = terms;
+  }
+
+  /** Returns the number the next invoice will get */
+  get nextNumber(): string {
+    const { prefix, next, padding } = this.sequence;
+    return `${prefix}${String(next).padStart(padding, "0")}`;
+  }
+
+  /** Returns the default payment terms in days */
+  get terms(): number {
+    return this.paymentTerms;
+  }
+
+  /**
+   * Sets the default payment terms.
+   * @param days - Days between issue and due date.
+   */
+  setTerms(days: number): this {
+    this.assertTerms(days);
+    this.paymentTerms = days;
+    return this;
+  }
+
+  /**
+   * Builds an invoice for a month or an inclusive range of months.
+   * Line items come from the service's rate and delivered or planned units;
+   * stored discounts, returns and allowances of the billed months and revenue-based tax rules are applied.
+   * With the `DELIVERED` basis, months without actuals are left off and listed in `warnings`,
+   * along with any stored adjustments of months that were not billed.
+   * @param service - The service to bill.
+   * @param period - YYYYMM month or `{ start, end }` range.
+   * @param options - Client, unit basis, issue date, terms, extra discounts and notes.
+   * @returns A new `MajikServiceInvoice`.
+   */
+  build(
+    service: MajikService,
+    period: InvoicePeriod,
+    options: InvoiceOptions = {}
+  ): MajikServiceInvoice {
+    const { start, end } =
+      typeof period === "string" ? { start: period, end: period } : period;
+    if (!isValidYYYYMM(start) || !isValidYYYYMM(end)) {
+      throw new Error("Invalid month");
+    }
+    if (start > end)
+      throw new Error("Invoice period start must not be after end");
+
+    const basis = options.basis ?? InvoiceUnitBasis.DELIVERED;
+    if (!Object.values(InvoiceUnitBasis).includes(basis)) {
+      throw new Error("Invalid invoice unit basis");
+    }
+
+    const terms = options.terms ?? this.paymentTerms;
+    this.assertTerms(terms);
+
+    const issued =
+      options.issueDate === undefined
+        ? new Date()
+        : new Date(options.issueDate);
+    if (isNaN(issued.getTime())) throw new Error("Invalid issue date");
+
+    const months = Array.from({ length: monthsInPeriod(start, end) }, (_, i) =>
+      offsetMonthsToYYYYMM(start, i)
+    );
+
+    const warnings: string[] = [];
+    const lineItems = months.flatMap((month) => {
+      if (basis === InvoiceUnitBasis.DELIVERED && !service.hasActual(month)) {
+        if (
+          service.getCapacityUnits(month) > 0 ||
+          !service.getRevenue(month).isZero()
+        ) {
+          warnings.push(`${month}: no delivered units recorded, not billed`);
+        }
+        return [];
+      }
+      return this.lineItem(service, month, basis);
+    });
+
+    // Stored adjustments follow their month onto the invoice only if the month is billed
+    const billed = new Set(lineItems.map((l) => l.month));
+    months.forEach((month) => {
+      if (!billed.has(month) && this.storedDiscounts(service, month).length) {
+        warnings.push(`${month}: stored adjustments not applied, not billed`);
+      }
+    });
+
+    const discounts = [
+      ...months
+        .filter((month) => billed.has(month))
+        .flatMap((month) => this.storedDiscounts(service, month)),
+      ...(options.discounts ?? []).map((d) => {
+        if (d.amount.currency.code !== service.currencyCode) {
+          throw new Error("Currency mismatch with service currency");
+        }
+        if (d.amount.toMajor() < 0) {
+          throw new Error("Discount amount cannot be negative");
+        }
+        return {
+          label: d.label,
+          kind: AdjustmentKind.DISCOUNT,
+          amount: d.amount,
+        };
+      }),
+    ];
+
+    const zero = MajikMoney.zero(service.currencyCode);
+    const taxable = lineItems
+      .reduce((acc, l) => acc.add(l.amount), zero)
+      .subtract(discounts.reduce((acc, d) => acc.add(d.amount), zero));
+
+    const invoice = new MajikServiceInvoice({
+      number: this.nextNumber,
+      serviceId: service.id,
+      serviceName: service.name,
+      client: options.client,
+      currencyCode: service.currencyCode,
+      start,
+      end,
+      basis,
+      issueDate: issued.toISOString(),
+      dueDate: new Date(issued.getTime() + terms * DAY_MS).toISOString(),
+      terms,
+      lineItems,
+      discounts,
+      taxes: this.taxLines(service, taxable),
+      notes: options.notes,
+      warnings,
+    });
+
+    this.sequence.next++;
+    return invoice;
+  }
+
+  /* ------------------ UTIL ------------------ */
+
+  /**
+   * Converts the builder state to a plain JSON object.
+   * @returns {MajikServiceInvoiceBuilderJSON} - The sequence and default terms.
+   */
+  toJSON(): MajikServiceInvoiceBuilderJSON {
+    return {
+      __type: "MajikServiceInvoiceBuilder",
+      sequence: { ...this.sequence },
+      terms: this.paymentTerms,
+    };
+  }
+
+  /**
+   * Static method to parse a JSON string or object into a `MajikServiceInvoiceBuilder`.
+   *
+   * @param json - A JSON string or plain object to be parsed.
+   * @returns {MajikServiceInvoiceBuilder} - A builder that continues the stored sequence.
+   * @throws Will throw an error if the sequence is missing or invalid.
+   */
+  static parseFromJSON(
+    json: string | MajikServiceInvoiceBuilderJSON
+  ): MajikServiceInvoiceBuilder {
+    const parsed: MajikServiceInvoiceBuilderJSON =
+      typeof json === "string" ? JSON.parse(json) : json;
+
+    if (!parsed?.sequence) {
+      throw new Error("Missing required property: 'sequence'");
+    }
+
+    return new MajikServiceInvoiceBuilder(parsed.sequence, parsed.terms);
+  }
+
+  private lineItem(
+    service: MajikService,
+    month: YYYYMM,
+    basis: InvoiceUnitBasis
+  ): InvoiceLineItem[] {
+    const delivered = basis === InvoiceUnitBasis.DELIVERED;
+    const units = delivered
+      ? service.getActualUnits(month)
+      : service.getCapacityUnits(month);
+    const amount = delivered
+      ? service.getActualRevenue(month)
+      : service.getRevenue(month);
+
+    if (amount.isZero() && units <= 0) return [];
+
+    const description = `${service.name} (${month})`;
+
+    if (service.getRevenueModel(month) !== RevenueModel.PER_UNIT) {
+      return [
+        {
+          month,
+          description,
+          quantity: 1,
+          unit: RateUnit.FIXED,
+          unitPrice: amount,
+          amount,
+        },
+      ];
+    }
+
+    return [
+      {
+        month,
+        description,
+        quantity: units,
+        unit: service.getRateForMonth(month).unit,
+        unitPrice: units > 0 ? amount.divide(units) : amount,
+        amount,
+      },
+    ];
+  }
+
+  private storedDiscounts(
+    service: MajikService,
+    month: YYYYMM
+  ): InvoiceDiscount[] {
+    return [
+      AdjustmentKind.DISCOUNT,
+      AdjustmentKind.RETURN,
+      AdjustmentKind.ALLOWANCE,
+    ].flatMap((kind) =>
+      service
+        .getAdjustments(month, kind)
+        .map((a) => ({ label: a.label, kind, month, amount: a.amount }))
+    );
+  }
+
+  /**
+   * Revenue-based tax rules only: income taxes and exclusive non-VAT, non-withholding
+   * taxes are the seller's cost and do not appear on the invoice.
+   */
+  private taxLines(
+    service: MajikService,
+    taxable: MajikMoney
+  ): InvoiceTaxLine[] {
+    const base =
+      taxable.toMajor() > 0 ? taxable : MajikMoney.zero(service.currencyCode);
+    const rules = service.taxRules.filter(
+      (t) => t.appliesTo === TaxBase.REVENUE
+    );
+    const inclusiveRate = rules
+      .filter((t) => t.inclusive)
+      .reduce((sum, t) => sum + t.rate, 0);
+
+    return rules.flatMap((rule): InvoiceTaxLine[] => {
+      const line = {
+        ruleId: rule.id,
+        name: rule.name,
+        kind: rule.kind,
+        rate: rule.rate,
+        base,
+      };
+
+      if (rule.inclusive) {
+        return [
+          {
+            ...line,
+            treatment: InvoiceTaxTreatment.INCLUDED,
+            amount: base.multiply(rule.rate / (1 + inclusiveRate)),
+          },
+        ];
+      }
+
+      const treatment =
+        rule.kind === TaxKind.VAT
+          ? InvoiceTaxTreatment.ADDED
+          : rule.kind === TaxKind.WITHHOLDING
+          ? InvoiceTaxTreatment.WITHHELD
+          : undefined;
+      if (!treatment) return [];
+
+      return [{ ...line, treatment, amount: base.multiply(rule.rate) }];
+    });
+  }
+
+  private assertTerms(days: number): void {
+    if (!Number.isInteger(days) || days < 0) {
+      throw new Error("Payment terms must be a non-negative number of days");
+    }
+  }
+}
@@ -0,0 +1,326 @@
+import {
+  deserializeMoney,
+  MajikMoney,
+  serializeMoney,
+} from "@thezelijah/majik-money";
+import {
+  InvoiceDiscount,
+  InvoiceLineItem,
+  InvoiceTaxLine,
+  ISODateString,
+  MajikServiceInvoiceJSON,
+  ObjectType,
+  ServiceID,
+  ServiceInvoiceData,
+  YYYYMM,
+} from "./types";
+import { InvoiceTaxTreatment, InvoiceUnitBasis } from "./enums";
+
+/**
+ * An immutable invoice for a service's billable months.
+ * Build one with `MajikServiceInvoiceBuilder`.
+ */
+export class MajikServiceInvoice {
+  readonly __type = "MajikServiceInvoice";
+  readonly __object: ObjectType = "class";
+
+  readonly number: string;
+  readonly serviceId: ServiceID;
+  readonly serviceName: string;
+  readonly client?: string;
+  readonly currencyCode: string;
+  readonly start: YYYYMM;
+  readonly end: YYYYMM;
+  readonly basis: InvoiceUnitBasis;
+  readonly issueDate: ISODateString;
+  readonly dueDate: ISODateString;
+  /** Payment terms in days */
+  readonly terms: number;
+  readonly lineItems: readonly InvoiceLineItem[];
+  readonly discounts: readonly InvoiceDiscount[];
+  readonly taxes: readonly InvoiceTaxLine[];
+  readonly notes?: string;
+  /** Months or amounts the builder left off, for review before sending */
+  readonly warnings: readonly string[];
+
+  /**
+   * Creates a new `MajikServiceInvoice` instance.
+   * @param data - Invoice fields. Totals are derived from the line items, discounts and taxes.
+   */
+  constructor(data: ServiceInvoiceData) {
+    this.number = data.number;
+    this.serviceId = data.serviceId;
+    this.serviceName = data.serviceName;
+    this.client = data.client;
+    this.currencyCode = data.currencyCode;
+    this.start = data.start;
+    this.end = data.end;
+    this.basis = data.basis;
+    this.issueDate = data.issueDate;
+    this.dueDate = data.dueDate;
+    this.terms = data.terms;
+    this.lineItems = Object.freeze([...data.lineItems]);
+    this.discounts = Object.freeze([...data.discounts]);
+    this.taxes = Object.freeze([...data.taxes]);
+    this.notes = data.notes;
+    this.warnings = Object.freeze([...(data.warnings ?? [])]);
+    Object.freeze(this);
+  }
+
+  /* ------------------ TOTALS ------------------ */
+
+  /** Sum of all line items */
+  get subtotal(): MajikMoney {
+    return this.sum(this.lineItems.map((l) => l.amount));
+  }
+
+  /** Sum of all discounts, returns and allowances */
+  get discountTotal(): MajikMoney {
+    return this.sum(this.discounts.map((d) => d.amount));
+  }
+
+  /** Subtotal less discounts; the base for invoice taxes */
+  get taxableAmount(): MajikMoney {
+    return this.subtotal.subtract(this.discountTotal);
+  }
+
+  /** Taxes charged on top of the taxable amount */
+  get taxTotal(): MajikMoney {
+    return this.sumTaxes(InvoiceTaxTreatment.ADDED);
+  }
+
+  /** Taxes already included in the line amounts */
+  get includedTaxTotal(): MajikMoney {
+    return this.sumTaxes(InvoiceTaxTreatment.INCLUDED);
+  }
+
+  /** Taxes the client withholds from the payment */
+  get withholdingTotal(): MajikMoney {
+    return this.sumTaxes(InvoiceTaxTreatment.WITHHELD);
+  }
+
+  /** Taxable amount plus taxes charged on top */
+  get total(): MajikMoney {
+    return this.taxableAmount.add(this.taxTotal);
+  }
+
+  /** Total less withholding taxes */
+  get amountDue(): MajikMoney {
+    return this.total.subtract(this.withholdingTotal);
+  }
+
+  /* ------------------ RENDERING ------------------ */
+
+  /**
+   * Renders the invoice as plain text.
+   */
+  toText(): string {
+    const rows: string[] = [
+      `INVOICE ${this.number}`,
+      `Service: ${this.serviceName}`,
+      ...(this.client ? [`Client: ${this.client}`] : []),
+      `Period: ${this.periodLabel}`,
+      `Issued: ${this.issueDate.slice(0, 10)}`,
+      `Due: ${this.dueDate.slice(0, 10)} (Net ${this.terms})`,
+      "",
+      ...this.lineItems.map(
+        (l) =>
+          `${l.description}  ${l.quantity} ${l.unit} × ${this.format(
+            l.unitPrice
+          )}  ${this.format(l.amount)}`
+      ),
+      "",
+      `Subtotal: ${this.format(this.subtotal)}`,
+      ...this.discounts.map(
+        (d) => `${d.label} (${d.kind}): -${this.format(d.amount)}`
+      ),
+      ...this.taxes.map(
+        (t) =>
+          `${t.name} ${this.percent(t.rate)} (${t.treatment}): ${this.format(
+            t.amount
+          )}`
+      ),
+      `Total: ${this.format(this.total)}`,
+      ...(this.withholdingTotal.isZero()
+        ? []
+        : [`Amount Due: ${this.format(this.amountDue)}`]),
+      ...(this.notes ? ["", this.notes] : []),
+    ];
+
+    return rows.join("\n");
+  }
+
+  /**
+   * Renders the invoice as an HTML fragment. All text is escaped.
+   */
+  toHTML(): string {
+    const e = escapeHTML;
+    const row = (label: string, value: string) =>
+      `<tr><th colspan="3">${e(label)}</th><td>${e(value)}</td></tr>`;
+
+    const items = this.lineItems
+      .map(
+        (l) =>
+          `<tr><td>${e(l.description)}</td><td>${l.quantity} ${e(
+            l.unit
+          )}</td><td>${e(this.format(l.unitPrice))}</td><td>${e(
+            this.format(l.amount)
+          )}</td></tr>`
+      )
+      .join("");
+
+    const summary = [
+      row("Subtotal", this.format(this.subtotal)),
+      ...this.discounts.map((d) =>
+        row(`${d.label} (${d.kind})`, `-${this.format(d.amount)}`)
+      ),
+      ...this.taxes.map((t) =>
+        row(
+          `${t.name} ${this.percent(t.rate)} (${t.treatment})`,
+          this.format(t.amount)
+        )
+      ),
+      row("Total", this.format(this.total)),
+      ...(this.withholdingTotal.isZero()
+        ? []
+        : [row("Amount Due", this.format(this.amountDue))]),
+    ].join("");
+
+    return [
+      `<div class="majik-invoice">`,
+      `<h1>Invoice ${e(this.number)}</h1>`,
+      `<p>Service: ${e(this.serviceName)}</p>`,
+      this.client ? `<p>Client: ${e(this.client)}</p>` : "",
+      `<p>Period: ${e(this.periodLabel)}</p>`,
+      `<p>Issued: ${e(this.issueDate.slice(0, 10))}</p>`,
+      `<p>Due: ${e(this.dueDate.slice(0, 10))} (Net ${this.terms})</p>`,
+      `<table><thead><tr><th>Description</th><th>Quantity</th><th>Unit Price</th><th>Amount</th></tr></thead>`,
+      `<tbody>${items}</tbody><tfoot>${summary}</tfoot></table>`,
+      this.notes ? `<p>${e(this.notes)}</p>` : "",
+      `</div>`,
+    ].join("");
+  }
+
+  /* ------------------ UTIL ------------------ */
+
+  /**
+   * Converts the invoice to a plain JSON object, including its totals.
+   * @returns {MajikServiceInvoiceJSON} - The plain object representation of the invoice.
+   */
+  toJSON(): MajikServiceInvoiceJSON {
+    const preJSON: MajikServiceInvoiceJSON = {
+      __type: "MajikServiceInvoice",
+      __object: "json",
+      number: this.number,
+      serviceId: this.serviceId,
+      serviceName: this.serviceName,
+      client: this.client,
+      currencyCode: this.currencyCode,
+      start: this.start,
+      end: this.end,
+      basis: this.basis,
+      issueDate: this.issueDate,
+      dueDate: this.dueDate,
+      terms: this.terms,
+      lineItems: [...this.lineItems],
+      discounts: [...this.discounts],
+      taxes: [...this.taxes],
+      notes: this.notes,
+      warnings: [...this.warnings],
+      subtotal: this.subtotal,
+      discountTotal: this.discountTotal,
+      taxTotal: this.taxTotal,
+      withholdingTotal: this.withholdingTotal,
+      total: this.total,
+      amountDue: this.amountDue,
+    };
+
+    return serializeMoney(preJSON);
+  }
+
+  /**
+   * Static method to parse a JSON string or object into a `MajikServiceInvoice` instance.
+   * Stored totals are ignored and recomputed.
+   *
+   * @param json - A JSON string or plain object to be parsed.
+   * @returns {MajikServiceInvoice} - A new invoice based on the parsed JSON.
+   * @throws Will throw an error if required properties are missing.
+   */
+  static parseFromJSON(
+    json: string | MajikServiceInvoiceJSON
+  ): MajikServiceInvoice {
+    const rawParse: MajikServiceInvoiceJSON =
+      typeof json === "string"
+        ? JSON.parse(json)
+        : structuredClone
+        ? structuredClone(json)
+        : JSON.parse(JSON.stringify(json));
+
+    const parsedData: MajikServiceInvoiceJSON = deserializeMoney(rawParse);
+
+    if (!parsedData.number) {
+      throw new Error("Missing required property: 'number'");
+    }
+
+    if (!Array.isArray(parsedData.lineItems)) {
+      throw new Error("Missing required property: 'lineItems'");
+    }
+
+    return new MajikServiceInvoice({
+      ...parsedData,
+      discounts: parsedData.discounts ?? [],
+      taxes: parsedData.taxes ?? [],
+    });
+  }
+
+  private get periodLabel(): string {
+    return this.start === this.end
+      ? this.start
+      : `${this.start} to ${this.end}`;
+  }
+
+  private sumTaxes(treatment: InvoiceTaxTreatment): MajikMoney {
+    return this.sum(
+      this.taxes.filter((t) => t.treatment === treatment).map((t) => t.amount)
+    );
+  }
+
+  private sum(amounts: MajikMoney[]): MajikMoney {
+    return amounts.reduce(
+      (acc, amount) => acc.add(amount),
+      MajikMoney.zero(this.currencyCode)
+    );
+  }
+
+  private format(money: MajikMoney): string {
+    return `${this.currencyCode} ${money.toMajor().toLocaleString("en-US", {
+      minimumFractionDigits: 2,
+      maximumFractionDigits: 2,
+    })}`;
+  }
+
+  private percent(rate: number): string {
+    return `${+(rate * 100).toFixed(2)}%`;
+  }
+}
+
+function escapeHTML(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+export function isMajikServiceInvoiceClass(
+  item: MajikServiceInvoice | MajikServiceInvoiceJSON
+): boolean {
+  return item.__object === "class";
+}
+
+export function isMajikServiceInvoiceJSON(
+  item: MajikServiceInvoice | MajikServiceInvoiceJSON
+): boolean {
+  return item.__object === "json";
+}
@@ -0,0 +1,366 @@
+import { MajikMoney } from "@thezelijah/majik-money";
+import {
+  CatalogMonthlySnapshot,
+  ISODateString,
+  MajikServiceCatalogJSON,
+  MajikServiceJSON,
+  ObjectType,
+  ServiceCatalogFilter,
+  ServiceID,
+  ServiceMonthlySnapshot,
+  ServiceSKU,
+  YYYYMM,
+} from "./types";
+import { MajikService } from "./majik-service";
+import { MajikServiceCurrencyView } from "./currency-view";
+import { autogenerateID, DEFAULT_CURRENCY_CODE, isValidYYYYMM } from "./utils";
+
+/**
+ * Represents a catalog (portfolio) of services in the Majik system.
+ * Handles lookup, filtering and aggregate finance across many `MajikService` instances.
+ */
+export class MajikServiceCatalog {
+  readonly __type = "MajikServiceCatalog";
+
+  readonly __object: ObjectType = "class";
+  /** Unique catalog ID */
+  id: string;
+
+  /** Name of the catalog */
+  name: string;
+
+  /** Optional reporting currency. Defaults to the first service's currency. */
+  currencyCode?: string;
+
+  /** ISO timestamp of creation */
+  timestamp: ISODateString;
+
+  /** ISO timestamp of last update */
+  last_update: ISODateString;
+
+  /** Services in insertion order */
+  private items: MajikService[] = [];
+
+  /**
+   * Creates a new `MajikServiceCatalog` instance.
+   * @param id - Optional catalog ID. Auto-generated if undefined.
+   * @param name - Catalog name.
+   * @param services - Initial services.
+   * @param currencyCode - Optional reporting currency.
+   * @param timestamp - Optional creation timestamp. Defaults to current time.
+   * @param last_update - Optional last update timestamp. Defaults to current time.
+   */
+  constructor(
+    id: string | undefined,
+    name: string,
+    services: MajikService[] = [],
+    currencyCode?: string,
+    timestamp: ISODateString = new Date().toISOString(),
+    last_update: ISODateString = new Date().toISOString()
+  ) {
+    this.id = id || autogenerateID("mjksc");
+    this.name = name;
+    this.currencyCode = currencyCode;
+    this.timestamp = timestamp;
+    this.last_update = last_update;
+    services.forEach((s) => {
+      this.assertUnique(s);
+      this.items.push(s);
+    });
+  }
+
+  /**
+   * Initializes and creates a new empty `MajikServiceCatalog`.
+   * @param name - Catalog name.
+   * @param currencyCode - Optional reporting currency.
+   * @returns A new `MajikServiceCatalog` instance.
+   */
+  static initialize(name: string, currencyCode?: string): MajikServiceCatalog {
+    if (!name || typeof name !== "string" || name.trim() === "") {
+      throw new Error("Name must be a valid non-empty string.");
+    }
+    return new MajikServiceCatalog(undefined, name, [], currencyCode);
+  }
+
+  /* ------------------ SERVICE MANAGEMENT ------------------ */
+
+  /** Returns all services in the catalog */
+  get services(): readonly MajikService[] {
+    return this.items;
+  }
+
+  /** Returns the number of services in the catalog */
+  get size(): number {
+    return this.items.length;
+  }
+
+  /**
+   * Returns the reporting currency: the configured one, else the first service's currency.
+   */
+  get reportingCurrency(): string {
+    return (
+      this.currencyCode || this.items[0]?.currencyCode || DEFAULT_CURRENCY_CODE
+    );
+  }
+
+  /**
+   * Adds a service to the catalog.
+   * @param service - Service to add.
+   * @throws Will throw an error if a service with the same ID already exists.
+   */
+  add(service: MajikService): this {
+    this.assertUnique(service);
+    this.items.push(service);
+    this.updateTimestamp();
+    return this;
+  }
+
+  /**
+   * Removes a service by ID.
+   * @param id - Service ID.
+   */
+  remove(id: ServiceID): this {
+    const index = this.items.findIndex((s) => s.id === id);
+    if (index === -1) throw new Error(`Service ${id} not found`);
+    this.items.splice(index, 1);
+    this.updateTimestamp();
+    return this;
+  }
+
+  /** Removes all services */
+  clear(): this {
+    this.items = [];
+    this.updateTimestamp();
+    return this;
+  }
+
+  /** Returns true if a service with the given ID is in the catalog */
+  has(id: ServiceID): boolean {
+    return this.items.some((s) => s.id === id);
+  }
+
+  getById(id: ServiceID): MajikService | undefined {
+    return this.items.find((s) => s.id === id);
+  }
+
+  getBySlug(slug: string): MajikService | undefined {
+    return this.items.find((s) => s.slug === slug);
+  }
+
+  getBySKU(sku: ServiceSKU): MajikService | undefined {
+    return this.items.find((s) => s.metadata.sku === sku);
+  }
+
+  /**
+   * Returns a new catalog with the services matching all given criteria.
+   * Services are shared, not copied.
+   * @param criteria - Category, type, status and/or visibility to match.
+   */
+  filter(criteria: ServiceCatalogFilter): MajikServiceCatalog {
+    const matches = this.items.filter(
+      (s) =>
+        (!criteria.category || s.category === criteria.category) &&
+        (!criteria.type || s.type === criteria.type) &&
+        (!criteria.status || s.status === criteria.status) &&
+        (!criteria.visibility || s.settings.visibility === criteria.visibility)
+    );
+
+    return new MajikServiceCatalog(
+      undefined,
+      this.name,
+      matches,
+      this.currencyCode
+    );
+  }
+
+  /** Returns the distinct categories of all services */
+  get categories(): string[] {
+    return [...new Set(this.items.map((s) => s.category))];
+  }
+
+  /* ------------------ AGGREGATE FINANCE GETTERS ------------------ */
+
+  /** Returns total gross revenue across all services */
+  get grossRevenue(): MajikMoney {
+    return this.sum((s) => s.grossRevenue);
+  }
+
+  /** Returns total gross COS across all services */
+  get grossCost(): MajikMoney {
+    return this.sum((s) => s.grossCost);
+  }
+
+  /** Returns total gross profit across all services */
+  get grossProfit(): MajikMoney {
+    return this.sum((s) => s.grossProfit);
+  }
+
+  /** Returns total net revenue across all services */
+  get netRevenue(): MajikMoney {
+    return this.sum((s) => s.netRevenue);
+  }
+
+  /** Returns total net profit across all services */
+  get netProfit(): MajikMoney {
+    return this.sum((s) => s.netProfit);
+  }
+
+  /** Returns the gross profit margin across all services */
+  get grossMargin(): number {
+    const revenue = this.grossRevenue;
+    return revenue.isZero() ? 0 : this.grossProfit.ratio(revenue);
+  }
+
+  /* ------------------ MONTHLY FINANCE ------------------ */
+
+  getRevenue(month: YYYYMM): MajikMoney {
+    if (!isValidYYYYMM(month)) throw new Error("Invalid month");
+    return this.sum((s) => s.getRevenue(month));
+  }
+
+  getCOS(month: YYYYMM): MajikMoney {
+    if (!isValidYYYYMM(month)) throw new Error("Invalid month");
+    return this.sum((s) => s.getCOS(month));
+  }
+
+  getProfit(month: YYYYMM): MajikMoney {
+    if (!isValidYYYYMM(month)) throw new Error("Invalid month");
+    return this.sum((s) => s.getProfit(month));
+  }
+
+  getMargin(month: YYYYMM): number {
+    const revenue = this.getRevenue(month);
+    return revenue.isZero() ? 0 : this.getProfit(month).ratio(revenue);
+  }
+
+  /**
+   * Returns the combined finance snapshot of a month, with each service's own snapshot.
+   * @param month - YYYYMM month.
+   */
+  getMonthlySnapshot(month: YYYYMM): CatalogMonthlySnapshot {
+    if (!isValidYYYYMM(month)) throw new Error("Invalid month");
+
+    const services = this.items.map((s) => ({
+      id: s.id,
+      name: s.name,
+      snapshot: this.inReportingCurrency(s).getMonthlySnapshot(month),
+    }));
+    const total = (pick: (snapshot: ServiceMonthlySnapshot) => MajikMoney) =>
+      services.reduce((acc, s) => acc.add(pick(s.snapshot)), this.zero());
+
+    const revenue = total((s) => s.revenue);
+    const profit = total((s) => s.profit);
+
+    return {
+      month,
+      revenue,
+      cogs: total((s) => s.cogs),
+      profit,
+      margin: revenue.isZero() ? 0 : profit.ratio(revenue),
+      netRevenue: total((s) => s.netRevenue),
+      netIncome: total((s) => s.netIncome),
+      services,
+    };
+  }
+
+  /* ------------------ UTIL ------------------ */
+
+  /**
+   * Converts the catalog to a plain JSON object, including every service.
+   * @returns {MajikServiceCatalogJSON} - The plain object representation of the catalog.
+   */
+  toJSON(): MajikServiceCatalogJSON {
+    return {
+      __type: "MajikServiceCatalog",
+      __object: "json",
+      id: this.id,
+      name: this.name,
+      currencyCode: this.currencyCode,
+      timestamp: this.timestamp,
+      last_update: this.last_update,
+      services: this.items.map((s) => s.toJSON()),
+    };
+  }
+
+  /**
+   * Static method to parse a JSON string or object into a `MajikServiceCatalog` instance.
+   *
+   * @param json - A JSON string or plain object to be parsed.
+   * @returns {MajikServiceCatalog} - A new catalog based on the parsed JSON.
+   * @throws Will throw an error if required properties are missing.
+   */
+  static parseFromJSON(
+    json: string | MajikServiceCatalogJSON
+  ): MajikServiceCatalog {
+    const parsedData: MajikServiceCatalogJSON =
+      typeof json === "string" ? JSON.parse(json) : json;
+
+    if (!parsedData.id) {
+      throw new Error("Missing required property: 'id'");
+    }
+
+    if (!Array.isArray(parsedData.services)) {
+      throw new Error("Missing required property: 'services'");
+    }
+
+    return new MajikServiceCatalog(
+      parsedData.id,
+      parsedData.name,
+      parsedData.services.map((s: MajikServiceJSON) =>
+        MajikService.parseFromJSON(s)
+      ),
+      parsedData?.currencyCode,
+      parsedData?.timestamp,
+      parsedData?.last_update
+    );
+  }
+
+  /**
+   * Returns the service itself, or a currency view if it reports in another currency.
+   */
+  private inReportingCurrency(
+    service: MajikService
+  ): MajikService | MajikServiceCurrencyView {
+    return service.currencyCode === this.reportingCurrency
+      ? service
+      : service.toCurrency(this.reportingCurrency);
+  }
+
+  private sum(
+    value: (service: MajikService | MajikServiceCurrencyView) => MajikMoney
+  ): MajikMoney {
+    return this.items.reduce(
+      (acc, s) => acc.add(value(this.inReportingCurrency(s))),
+      this.zero()
+    );
+  }
+
+  private zero(): MajikMoney {
+    return MajikMoney.zero(this.reportingCurrency);
+  }
+
+  private assertUnique(service: MajikService): void {
+    if (this.has(service.id)) {
+      throw new Error(`Service ${service.id} already exists in the catalog`);
+    }
+  }
+
+  /**
+   * Updates the `last_update` timestamp to the current time.
+   */
+  private updateTimestamp(): void {
+    this.last_update = new Date().toISOString();
+  }
+}
+
+export function isMajikServiceCatalogClass(
+  item: MajikServiceCatalog | MajikServiceCatalogJSON
+): boolean {
+  return item.__object === "class";
+}
+
+export function isMajikServiceCatalogJSON(
+  item: MajikServiceCatalog | MajikServiceCatalogJSON
+): boolean {
+  return item.__object === "json";
+}
@@ -4,35 +4,113 @@ import {
   serializeMoney,
 } from "@thezelijah/majik-money";
 import {
+  CapacityForecast,
   COSItem,
+  COSSchedule,
+  CSVImportOptions,
+  CSVImportResult,
+  CSVRecord,
+  CSVRowError,
+  ExchangeRateProvider,
+  FinanceAdjustment,
   ISODateString,
   MajikServiceJSON,
   MonthlyCapacity,
   ObjectType,
+  ProjectMilestone,
+  QuoteLine,
+  QuoteOptions,
+  QuoteScope,
+  ScenarioTotals,
+  RateScheduleEntry,
+  RateTier,
+  ResourceAvailability,
+  ServiceBooking,
+  ServiceChangeEvent,
+  ServiceDetails,
+  ServiceEventListener,
+  ServiceEventListeners,
+  ServiceEvents,
+  ServiceEventName,
   ServiceID,
   ServiceMetadata,
+  ServiceMonthlySnapshot,
   ServiceRate,
+  ServiceResource,
+  ServiceScenario,
+  ServiceScenarioResult,
   ServiceSettings,
+  ServiceStatusTransition,
+  ServiceValidationIssue,
+  ServiceVariant,
+  ServiceVariantOptions,
+  ServiceVariance,
+  ServiceVarianceReport,
   StartDateInput,
+  TaxBreakdown,
+  TaxLine,
+  TaxRule,
+  TimesheetEntry,
+  TimesheetOverage,
+  VariantCapacity,
+  VariantEconomics,
+  VarianceFigures,
   YYYYMM,
 } from "./types";
 import {
+  AdjustmentKind,
   CapacityPeriodResizeMode,
+  COSBehavior,
+  ForecastStrategy,
+  QuoteStatus,
   RateUnit,
+  ResourceKind,
+  RevenueModel,
   ServiceStatus,
   ServiceType,
   ServiceVisibility,
+  TaxBase,
+  TaxKind,
+  TierMode,
+  ValidationIssueCode,
+  ValidationSeverity,
+  VariantKind,
 } from "./enums";
 
 import {
+  adjustmentAppliesTo,
+  assertValidRateTiers,
   autogenerateID,
+  canTransitionStatus,
+  coalesceServiceEvents,
   createEmptyServiceFinance,
+  DEFAULT_CURRENCY_CODE,
+  DEFAULT_HOURS_PER_DAY,
+  dateToYYYYMM,
+  forecastCapacity,
   generateSlug,
+  isCOSItemEffective,
+  isCOSSubtotalConsistent,
+  isoToYYYYMM,
   isValidYYYYMM,
+  isVariableCOS,
   monthsInPeriod,
   offsetMonthsToYYYYMM,
-  normalizeStartDate,
+  parseCSVRecords,
+  priceUnits,
+  resolveRevenueModel,
+  timeEntriesToUnits,
+  toCSV,
 } from "./utils";
+import { MajikServiceCurrencyView } from "./currency-view";
+import { InMemoryExchangeRateProvider } from "./exchange-rates";
+import { MajikServiceQuote } from "./quote";
+import type { MajikWorkingCalendar } from "./working-calendar";
+import {
+  migrateServiceJSON,
+  SERVICE_SCHEMA_VERSION,
+  validateServiceJSON,
+} from "./schema";
 /**
  * Represents a service in the Majik system.
  * Handles metadata, capacity, COS, and finance calculations (revenue, COS, profit, margins).
@@ -53,7 +131,10 @@ export class MajikService {
   /** Category of the service */
   category: string;
 
-  /** Service rate configuration (amount + unit) */
+  /**
+   * Base rate configuration (amount + unit): the rate in force before the first scheduled change.
+   * Use `getRateForMonth()` or `currentRate` for the rate that prices a given month.
+   */
   rate: ServiceRate;
 
   /** Status of the service */
@@ -77,6 +158,21 @@ export class MajikService {
   /** Internal flag for lazy finance recalculation */
   private financeDirty = true;
 
+  /** Runtime exchange rate source for foreign-currency rates and COS items (not serialized) */
+  private exchangeRates?: ExchangeRateProvider;
+
+  /** Change event listeners (not serialized) */
+  private listeners: ServiceEventListeners = {};
+
+  /** Nesting depth of `batch()` calls */
+  private batchDepth = 0;
+
+  /** Change events waiting to be delivered at the end of a batch */
+  private pendingEvents: ServiceChangeEvent[] = [];
+
+  /** Capacity plan as of the last `capacity:updated` event */
+  private capacityBaseline: MonthlyCapacity[] = [];
+
   /**
    * Creates a new `MajikService` instance.
    * @param id - Optional service ID. Auto-generated if undefined.
@@ -113,6 +209,7 @@ export class MajikService {
 
     this.timestamp = timestamp;
     this.last_update = last_update;
+    this.capacityBaseline = this.snapshotCapacity();
   }
 
   /** Marks finance calculations as dirty for lazy recomputation */
@@ -122,10 +219,13 @@ export class MajikService {
 
   /**
    * Returns a zero-value MajikMoney object in the service currency.
-   * @param currencyCode - Optional currency code. Defaults to service rate currency or PHP.
+   * @param currencyCode - Optional currency code. Defaults to service rate currency or `DEFAULT_CURRENCY_CODE`.
    */
   private DEFAULT_ZERO(currencyCode?: string): MajikMoney {
-    const code = currencyCode || this.rate?.amount?.currency?.code || "PHP";
+    const code =
+      currencyCode ||
+      this.rate?.amount?.currency?.code ||
+      DEFAULT_CURRENCY_CODE;
     return MajikMoney.zero(code);
   }
 
@@ -189,52 +289,213 @@ export class MajikService {
    * @param name - New service name.
    */
   setName(name: string): this {
+    const before = this.snapshotDetails();
     this.name = name;
     this.slug = generateSlug(name);
     this.updateTimestamp();
+    this.emitDetailsChanged(before);
     return this;
   }
 
   /**
    * Updates the service rate.
+   * Without a month, the base rate is replaced, which is allowed only while the service has no
+   * planned months and no scheduled changes. Once it does, pass `effectiveFrom` so past months keep their price.
    * @param rate - New service rate object.
+   * @param effectiveFrom - Optional YYYYMM month. If given, the rate is scheduled from that month instead of replacing the base rate.
+   * @throws Will throw an error if no month is given and the service has rate history.
    */
-  setRate(rate: ServiceRate): this {
-    this.rate = rate;
-    this.metadata.rate = rate;
-    this.updateTimestamp();
-    this.markFinanceDirty();
-    return this;
+  setRate(rate: ServiceRate, effectiveFrom?: YYYYMM): this {
+    return this.applyRate(rate, effectiveFrom);
   }
 
   /**
    * Updates the rate unit (per hour, per day, etc.).
    * @param unit - New rate unit.
+   * @param effectiveFrom - Optional YYYYMM month. Follows `setRate()`.
    */
-  setRateUnit(unit: RateUnit): this {
-    this.rate.unit = unit;
-    this.metadata.rate.unit = unit;
-    this.updateTimestamp();
-    this.markFinanceDirty();
-    return this;
+  setRateUnit(unit: RateUnit, effectiveFrom?: YYYYMM): this {
+    return this.applyRate(
+      { ...this.rateToChange(effectiveFrom), unit },
+      effectiveFrom
+    );
   }
 
   /**
    * Updates the numeric rate amount.
    * @param amount - New rate amount (must be positive).
+   * @param effectiveFrom - Optional YYYYMM month. Follows `setRate()`.
    */
-  setRateAmount(amount: number): this {
+  setRateAmount(amount: number, effectiveFrom?: YYYYMM): this {
     if (amount <= 0) throw new Error("Rate Amount must be positive");
-    this.rate.amount = MajikMoney.fromMajor(
-      amount,
-      this.rate.amount.currency.code
+    const current = this.rateToChange(effectiveFrom);
+    return this.applyRate(
+      {
+        ...current,
+        amount: MajikMoney.fromMajor(amount, current.amount.currency.code),
+      },
+      effectiveFrom
     );
-    this.metadata.rate.amount = MajikMoney.fromMajor(
-      amount,
-      this.metadata.rate.amount.currency.code
+  }
+
+  /**
+   * Returns true if the base rate prices units through a tier table.
+   */
+  hasRateTiers(): boolean {
+    return Array.isArray(this.rate.tiers) && this.rate.tiers.length > 0;
+  }
+
+  /**
+   * Sets the tier table used to price each month's units.
+   * @param tiers - Tiers ordered by ascending `upTo`. Only the last may have `upTo: null`.
+   * @param mode - `GRADUATED` (default) or `VOLUME`. Use Enum `TierMode`.
+   * @param effectiveFrom - Optional YYYYMM month. Follows `setRate()`.
+   * @throws Will throw an error if the tiers are unordered or use another currency.
+   */
+  setRateTiers(
+    tiers: RateTier[],
+    mode: TierMode = TierMode.GRADUATED,
+    effectiveFrom?: YYYYMM
+  ): this {
+    if (!Object.values(TierMode).includes(mode)) {
+      throw new Error("Invalid Tier mode.");
+    }
+    return this.applyRate(
+      {
+        ...this.rateToChange(effectiveFrom),
+        tiers: [...tiers],
+        tierMode: mode,
+      },
+      effectiveFrom
+    );
+  }
+
+  /**
+   * Removes the tier table so units are priced at the flat rate amount.
+   * @param effectiveFrom - Optional YYYYMM month. Follows `setRate()`.
+   */
+  clearRateTiers(effectiveFrom?: YYYYMM): this {
+    return this.applyRate(
+      {
+        ...this.rateToChange(effectiveFrom),
+        tiers: undefined,
+        tierMode: undefined,
+      },
+      effectiveFrom
+    );
+  }
+
+  /** The rate a setter starts from: the rate in force in `effectiveFrom`, else the base rate */
+  private rateToChange(effectiveFrom?: YYYYMM): ServiceRate {
+    return effectiveFrom ? this.getRateForMonth(effectiveFrom) : this.rate;
+  }
+
+  /**
+   * Schedules a rate from `effectiveFrom`, or replaces the base rate while the service has no rate history.
+   * @throws Will throw an error if no month is given and a month is planned or a change is scheduled.
+   */
+  private applyRate(rate: ServiceRate, effectiveFrom?: YYYYMM): this {
+    if (effectiveFrom) return this.scheduleRate(rate, effectiveFrom);
+    if (this.rateSchedule.length > 0 || this.getFinanceMonths().length > 0) {
+      throw new Error(
+        "The service has rate history. Pass effectiveFrom to schedule the change"
+      );
+    }
+    if (!rate?.amount || !rate.unit) {
+      throw new Error("Rate must have an amount and unit");
+    }
+    if (rate.tiers) assertValidRateTiers(rate.tiers, rate.amount.currency.code);
+
+    const before = this.snapshotRate(this.rate);
+    this.rate = rate;
+    this.metadata.rate = rate;
+    this.updateTimestamp();
+    this.markFinanceDirty();
+    this.emitRateChanged(before);
+    return this;
+  }
+
+  /**
+   * Returns the effective-dated rate changes, sorted by `effectiveFrom`.
+   */
+  get rateSchedule(): readonly RateScheduleEntry[] {
+    return this.metadata.rateSchedule ?? [];
+  }
+
+  /**
+   * Returns the rate in force for a month.
+   * Falls back to the base `rate` for months before the first scheduled change.
+   * @param month - YYYYMM month.
+   */
+  getRateForMonth(month: YYYYMM): ServiceRate {
+    if (!isValidYYYYMM(month)) throw new Error("Invalid month");
+    let rate = this.rate;
+    for (const entry of this.rateSchedule) {
+      if (entry.effectiveFrom > month) break;
+      rate = entry.rate;
+    }
+    return rate;
+  }
+
+  /**
+   * Returns the rate in force for the current month.
+   */
+  get currentRate(): ServiceRate {
+    return this.getRateForMonth(dateToYYYYMM(new Date()));
+  }
+
+  /**
+   * Schedules a rate that applies from a month onwards.
+   * Replaces any rate already scheduled for the same month.
+   * @param rate - Rate object to apply.
+   * @param effectiveFrom - YYYYMM month the rate takes effect.
+   */
+  scheduleRate(rate: ServiceRate, effectiveFrom: YYYYMM): this {
+    if (!isValidYYYYMM(effectiveFrom)) throw new Error("Invalid month");
+    if (!rate?.amount || !rate.unit) {
+      throw new Error("Rate must have an amount and unit");
+    }
+    this.assertConvertible(rate.amount);
+    if (rate.tiers) assertValidRateTiers(rate.tiers, rate.amount.currency.code);
+
+    const before = this.snapshotRate(this.getRateForMonth(effectiveFrom));
+    const schedule = this.rateSchedule.filter(
+      (e) => e.effectiveFrom !== effectiveFrom
+    );
+    schedule.push({ effectiveFrom, rate });
+    schedule.sort((a, b) => a.effectiveFrom.localeCompare(b.effectiveFrom));
+
+    this.metadata.rateSchedule = schedule;
+    this.updateTimestamp();
+    this.markFinanceDirty();
+    this.emitRateChanged(before, effectiveFrom);
+    return this;
+  }
+
+  /** Removes the rate scheduled for a month */
+  removeScheduledRate(effectiveFrom: YYYYMM): this {
+    const index = this.rateSchedule.findIndex(
+      (e) => e.effectiveFrom === effectiveFrom
     );
+    if (index === -1) throw new Error(`No rate scheduled for ${effectiveFrom}`);
+    const [removed] = this.metadata.rateSchedule!.splice(index, 1);
+    this.updateTimestamp();
+    this.markFinanceDirty();
+    this.emitRateChanged(this.snapshotRate(removed.rate), effectiveFrom);
+    return this;
+  }
+
+  /** Clears all scheduled rate changes */
+  clearRateSchedule(): this {
+    const removed = this.rateSchedule;
+    this.metadata.rateSchedule = [];
     this.updateTimestamp();
     this.markFinanceDirty();
+    this.batch(() =>
+      removed.forEach((e) =>
+        this.emitRateChanged(this.snapshotRate(e.rate), e.effectiveFrom)
+      )
+    );
     return this;
   }
 
@@ -243,9 +504,11 @@ export class MajikService {
    * @param category - New category name.
    */
   setCategory(category: string): this {
+    const before = this.snapshotDetails();
     this.category = category;
     this.metadata.category = category;
     this.updateTimestamp();
+    this.emitDetailsChanged(before);
     return this;
   }
 
@@ -327,9 +590,46 @@ export class MajikService {
       throw new Error("Invalid Service type.");
     }
 
+    const before = this.snapshotDetails();
     this.metadata.type = type;
     this.type = type;
     this.updateTimestamp();
+    this.markFinanceDirty();
+    this.emitDetailsChanged(before);
+    return this;
+  }
+
+  /**
+   * Returns the revenue model used for finance computations.
+   * Uses the metadata override if set, otherwise resolves it from the type and rate unit.
+   */
+  get revenueModel(): RevenueModel {
+    return this.revenueModelFor(this.rate);
+  }
+
+  /**
+   * Returns the revenue model of the rate in force for a month.
+   * @param month - YYYYMM month.
+   */
+  getRevenueModel(month: YYYYMM): RevenueModel {
+    return this.revenueModelFor(this.getRateForMonth(month));
+  }
+
+  /**
+   * Overrides the revenue model of the Service.
+   * @param model - The revenue model to use. Use Enum `RevenueModel`. Pass `undefined` to resolve it from the type and rate unit.
+   * @throws Will throw an error if the `model` is not a valid `RevenueModel`.
+   */
+  setRevenueModel(model?: RevenueModel): this {
+    if (model !== undefined && !Object.values(RevenueModel).includes(model)) {
+      throw new Error("Invalid Revenue model.");
+    }
+
+    const before = this.snapshotDetails();
+    this.metadata.revenueModel = model;
+    this.updateTimestamp();
+    this.markFinanceDirty();
+    this.emitDetailsChanged(before);
     return this;
   }
 
@@ -342,6 +642,103 @@ export class MajikService {
     return this.metadata.description.text;
   }
 
+  /* ------------------ STATUS LIFECYCLE ------------------ */
+
+  /**
+   * Returns the chronological log of status transitions.
+   */
+  get statusHistory(): readonly ServiceStatusTransition[] {
+    return this.settings.statusHistory ?? [];
+  }
+
+  /**
+   * Returns true if the service can move from its current status to the given status.
+   * @param status - Target status. Use Enum `ServiceStatus`.
+   */
+  canTransitionTo(status: ServiceStatus): boolean {
+    return canTransitionStatus(this.status, status);
+  }
+
+  /**
+   * Moves the service to a new status and records the transition.
+   * Setting the current status again is a no-op.
+   * @param status - Target status. Use Enum `ServiceStatus`.
+   * @param reason - Optional note stored with the transition.
+   * @throws Will throw an error if the status is invalid or the transition is not allowed.
+   */
+  setStatus(status: ServiceStatus, reason?: string): this {
+    return this.transitionStatus(status, reason, false);
+  }
+
+  private transitionStatus(
+    status: ServiceStatus,
+    reason: string | undefined,
+    automatic: boolean
+  ): this {
+    if (!Object.values(ServiceStatus).includes(status)) {
+      throw new Error("Invalid Service status.");
+    }
+
+    if (status === this.status) return this;
+
+    if (!this.canTransitionTo(status)) {
+      throw new Error(`Invalid status transition: ${this.status} -> ${status}`);
+    }
+
+    const transition: ServiceStatusTransition = {
+      from: this.status,
+      to: status,
+      timestamp: new Date().toISOString(),
+      reason: reason?.trim() || undefined,
+      automatic: automatic || undefined,
+    };
+
+    this.settings.statusHistory ??= [];
+    this.settings.statusHistory.push(transition);
+    this.settings.status = status;
+    this.status = status;
+    this.updateTimestamp();
+    this.emit({
+      type: "status:changed",
+      before: transition.from,
+      after: status,
+      reason: transition.reason,
+    });
+    return this;
+  }
+
+  /**
+   * Marks the service as `ACTIVE`.
+   * @param reason - Optional note stored with the transition.
+   */
+  activate(reason?: string): this {
+    return this.setStatus(ServiceStatus.ACTIVE, reason);
+  }
+
+  /**
+   * Marks the service as `FULLY_BOOKED`.
+   * @param reason - Optional note stored with the transition.
+   */
+  markFullyBooked(reason?: string): this {
+    return this.setStatus(ServiceStatus.FULLY_BOOKED, reason);
+  }
+
+  /**
+   * Marks the service as `DISCONTINUED`.
+   * @param reason - Optional note stored with the transition.
+   */
+  discontinue(reason?: string): this {
+    return this.setStatus(ServiceStatus.DISCONTINUED, reason);
+  }
+
+  /**
+   * Moves an `ACTIVE` service back to `DRAFT`.
+   * @param reason - Optional note stored with the transition.
+   */
+  revertToDraft(reason?: string): this {
+    return this.setStatus(ServiceStatus.DRAFT, reason);
+  }
+
   /* ------------------ COS MANAGEMENT ------------------ */
 
   /**
@@ -357,17 +754,20 @@ export class MajikService {
    * @param unitCost - Cost per unit.
    * @param quantity - Number of units (default 1).
    * @param unit - Optional unit name (e.g., "hour").
+   * @param schedule - Optional behavior (defaults to `VARIABLE`) and effective date range.
    */
   addCOS(
     name: string,
     unitCost: MajikMoney,
     quantity: number = 1,
-    unit?: string
+    unit?: string,
+    schedule?: COSSchedule
   ): this {
     if (!name.trim()) throw new Error("COS name cannot be empty");
     if (quantity <= 0)
       throw new Error("COS quantity must be greater than zero");
-    this.assertCurrency(unitCost);
+    this.assertConvertible(unitCost);
+    if (schedule) this.assertCOSSchedule(schedule);
 
     const newItem: COSItem = {
       id: autogenerateID("mjkscost"),
@@ -376,11 +776,13 @@ export class MajikService {
       unitCost,
       unit,
       subtotal: unitCost.multiply(quantity),
+      ...schedule,
     };
 
     this.metadata.cos.push(newItem);
     this.updateTimestamp();
     this.markFinanceDirty();
+    this.emit({ type: "cos:added", before: undefined, after: { ...newItem } });
     return this;
   }
 
@@ -394,12 +796,14 @@ export class MajikService {
     if (item.quantity <= 0)
       throw new Error("COS quantity must be greater than zero");
 
-    this.assertCurrency(item.unitCost);
+    this.assertConvertible(item.unitCost);
+    this.assertCOSSchedule(item);
     item.subtotal = item.unitCost.multiply(item.quantity);
 
     this.metadata.cos.push(item);
     this.updateTimestamp();
     this.markFinanceDirty();
+    this.emit({ type: "cos:added", before: undefined, after: { ...item } });
     return this;
   }
 
@@ -410,10 +814,19 @@ export class MajikService {
    */
   updateCOS(
     id: string,
-    updates: Partial<Pick<COSItem, "quantity" | "unitCost" | "unit" | "item">>
+    updates: Partial<Pick<COSItem, "quantity" | "unitCost" | "unit" | "item">> &
+      COSSchedule
   ): this {
     const item = this.metadata.cos.find((c) => c.id === id);
     if (!item) throw new Error(`COS item ${id} not found`);
+    const before = { ...item };
+
+    const schedule: COSSchedule = {
+      behavior: updates.behavior ?? item.behavior,
+      effectiveFrom: updates.effectiveFrom ?? item.effectiveFrom,
+      effectiveUntil: updates.effectiveUntil ?? item.effectiveUntil,
+    };
+    this.assertCOSSchedule(schedule);
 
     if (updates.quantity !== undefined) {
       if (updates.quantity <= 0) throw new Error("Quantity must be positive");
@@ -421,7 +834,7 @@ export class MajikService {
     }
 
     if (updates.unitCost) {
-      this.assertCurrency(updates.unitCost);
+      this.assertConvertible(updates.unitCost);
       item.unitCost = updates.unitCost;
     }
 
@@ -430,10 +843,14 @@ export class MajikService {
     }
 
     item.unit = updates.unit ?? item.unit;
+    item.behavior = schedule.behavior;
+    item.effectiveFrom = schedule.effectiveFrom;
+    item.effectiveUntil = schedule.effectiveUntil;
     item.subtotal = item.unitCost.multiply(item.quantity);
 
     this.updateTimestamp();
     this.markFinanceDirty();
+    this.emit({ type: "cos:updated", before, after: { ...item } });
     return this;
   }
 
@@ -442,23 +859,19 @@ export class MajikService {
    * @param items - Array of COSItem.
    */
   setCOS(items: COSItem[]): this {
-    items.forEach((item) => {
-      if (
-        !item.id ||
-        !item.item ||
-        !item.unitCost ||
-        item.quantity == null ||
-        !item.subtotal
-      ) {
-        throw new Error(
-          "Each COSItem must have id, item, unitCost, quantity, and subtotal"
-        );
-      }
-      this.assertCurrency(item.unitCost);
-    });
+    items.forEach((item) => this.assertCOSItem(item));
+    const removed = this.metadata.cos;
     this.metadata.cos = [...items];
     this.updateTimestamp();
     this.markFinanceDirty();
+    this.batch(() => {
+      removed.forEach((c) =>
+        this.emit({ type: "cos:removed", before: { ...c }, after: undefined })
+      );
+      items.forEach((c) =>
+        this.emit({ type: "cos:added", before: undefined, after: { ...c } })
+      );
+    });
     return this;
   }
 
@@ -466,17 +879,27 @@ export class MajikService {
   removeCOS(id: string): this {
     const index = this.metadata.cos.findIndex((c) => c.id === id);
     if (index === -1) throw new Error(`COS item with id ${id} not found`);
-    this.metadata.cos.splice(index, 1);
+    const [removed] = this.metadata.cos.splice(index, 1);
     this.updateTimestamp();
     this.markFinanceDirty();
+    this.emit({
+      type: "cos:removed",
+      before: { ...removed },
+      after: undefined,
+    });
     return this;
   }
 
   /** Clears all COS items */
   clearCostBreakdown(): this {
-    this.metadata.cos.length = 0;
+    const removed = this.metadata.cos.splice(0);
     this.updateTimestamp();
     this.markFinanceDirty();
+    this.batch(() =>
+      removed.forEach((c) =>
+        this.emit({ type: "cos:removed", before: { ...c }, after: undefined })
+      )
+    );
     return this;
   }
 
@@ -592,41 +1015,76 @@ export class MajikService {
     growthRate: number = 0,
     startDate?: StartDateInput
   ): this {
-    if (!Number.isInteger(months) || months <= 0) {
-      throw new Error("Months must be a positive integer");
-    }
-
-    if (!Number.isFinite(amount) || amount < 0) {
-      throw new Error("Amount must be a non-negative number");
-    }
-
-    if (growthRate < 0) {
-      throw new Error("Growth rate cannot be negative");
-    }
-
-    const start = normalizeStartDate(startDate);
-    const supplyPlan: MonthlyCapacity[] = [];
-
-    let currentUnits = amount;
-
-    for (let i = 0; i < months; i++) {
-      const date = new Date(start.getFullYear(), start.getMonth() + i, 1);
+    return this.setCapacity(
+      forecastCapacity(
+        months,
+        { strategy: ForecastStrategy.COMPOUND, amount, growthRate },
+        startDate
+      )
+    );
+  }
 
-      const yyyy = date.getFullYear();
-      const mm = String(date.getMonth() + 1).padStart(2, "0");
-      const month = `${yyyy}-${mm}` as YYYYMM;
+  /**
+   * Generates and replaces the capacity plan from a forecast strategy.
+   *
+   * @param months - Number of months to generate from the start date.
+   * @param forecast - Strategy and parameters: compound, seasonal, linear, step, moving-average or exponential-smoothing.
+   * @param startDate - Date | ISO date | YYYYMM. Defaults to current month.
+   * @returns {this} Updated service instance.
+   */
+  forecastCapacityPlan(
+    months: number,
+    forecast: CapacityForecast,
+    startDate?: StartDateInput
+  ): this {
+    return this.setCapacity(forecastCapacity(months, forecast, startDate));
+  }
 
-      supplyPlan.push({
-        month,
-        capacity: Math.round(currentUnits),
-      });
+  /**
+   * Generates and replaces the capacity plan from a working calendar:
+   * working hours for PER_HOUR rates, working days for PER_DAY rates.
+   *
+   * @param calendar - Working calendar to derive capacity from.
+   * @param months - Number of months to generate from the start date.
+   * @param startDate - Date | ISO date | YYYYMM. Defaults to current month.
+   * @returns {this} Updated service instance.
+   */
+  generateCapacityFromCalendar(
+    calendar: MajikWorkingCalendar,
+    months: number,
+    startDate?: StartDateInput
+  ): this {
+    return this.setCapacity(
+      calendar.generateCapacity(months, this.rate.unit, startDate)
+    );
+  }
 
-      if (growthRate > 0) {
-        currentUnits *= 1 + growthRate;
-      }
+  /**
+   * Re-derives the capacity of every planned month from a working calendar,
+   * e.g. after holidays change. Adjustments and actual units are kept.
+   *
+   * @param calendar - Working calendar to derive capacity from.
+   * @returns {this} Updated service instance.
+   */
+  applyCalendar(calendar: MajikWorkingCalendar): this {
+    if (!this.hasCapacity()) {
+      throw new Error("No existing capacity plan to recompute");
     }
 
-    return this.setCapacity(supplyPlan);
+    const units = this.capacity.map((c) =>
+      calendar.getCapacityUnits(c.month, this.rate.unit)
+    );
+    this.assertBookingsFit(
+      this.capacity.map((c, i) => ({ ...c, capacity: units[i] }))
+    );
+    this.capacity.forEach((c, i) => {
+      c.capacity = units[i];
+    });
+
+    this.updateTimestamp();
+    this.markFinanceDirty();
+    this.onCapacityChanged();
+    return this;
   }
 
   /**
@@ -654,12 +1112,14 @@ export class MajikService {
       return this;
     }
 
+    this.assertBookingsFit(supply.map((s) => ({ ...s, capacity: amount })));
     supply.forEach((s) => {
       s.capacity = amount;
     });
 
     this.updateTimestamp();
     this.markFinanceDirty();
+    this.onCapacityChanged();
 
     return this;
   }
@@ -715,9 +1175,20 @@ export class MajikService {
       }
     }
 
+    // Actuals stay with the month they were recorded for
+    newPlan.forEach((entry) => {
+      const previous = oldPlan.find((s) => s.month === entry.month);
+      if (previous?.actualUnits !== undefined) {
+        entry.actualUnits = previous.actualUnits;
+      }
+      if (previous?.actualCOS) entry.actualCOS = previous.actualCOS;
+    });
+
+    this.assertBookingsFit(newPlan);
     this.metadata.capacityPlan = newPlan;
     this.updateTimestamp();
     this.markFinanceDirty();
+    this.onCapacityChanged();
 
     return this;
   }
@@ -727,14 +1198,12 @@ export class MajikService {
    * @param capacityPlan - Array of MonthlyCapacity.
    */
   setCapacity(capacityPlan: MonthlyCapacity[]): this {
-    capacityPlan.forEach((s) => {
-      if (!isValidYYYYMM(s.month)) throw new Error(`Invalid month: ${s.month}`);
-      if (typeof s.capacity !== "number")
-        throw new Error("Capacity must be a number");
-    });
+    capacityPlan.forEach((s) => this.assertCapacityEntry(s));
+    this.assertBookingsFit(capacityPlan);
     this.metadata.capacityPlan = [...capacityPlan];
     this.updateTimestamp();
     this.markFinanceDirty();
+    this.onCapacityChanged();
     return this;
   }
 
@@ -755,6 +1224,7 @@ export class MajikService {
     this.metadata.capacityPlan.push({ month, capacity: hours, adjustment });
     this.updateTimestamp();
     this.markFinanceDirty();
+    this.onCapacityChanged();
     return this;
   }
 
@@ -767,9 +1237,13 @@ export class MajikService {
     if (!isValidYYYYMM(month)) throw new Error("Invalid month");
     const plan = this.metadata.capacityPlan?.find((s) => s.month === month);
     if (!plan) throw new Error(`Month ${month} not found`);
+    this.assertBookingsFit(
+      this.capacity.map((s) => (s === plan ? { ...s, capacity: hours } : s))
+    );
     plan.capacity = hours;
     this.updateTimestamp();
     this.markFinanceDirty();
+    this.onCapacityChanged();
     return this;
   }
 
@@ -782,9 +1256,13 @@ export class MajikService {
     if (!isValidYYYYMM(month)) throw new Error("Invalid month");
     const plan = this.metadata.capacityPlan?.find((s) => s.month === month);
     if (!plan) throw new Error(`Month ${month} not found`);
+    this.assertBookingsFit(
+      this.capacity.map((s) => (s === plan ? { ...s, adjustment } : s))
+    );
     plan.adjustment = adjustment;
     this.updateTimestamp();
     this.markFinanceDirty();
+    this.onCapacityChanged();
     return this;
   }
 
@@ -796,81 +1274,2576 @@ export class MajikService {
     );
     if (index === undefined || index === -1)
       throw new Error(`Month ${month} not found`);
+    this.assertBookingsFit(this.capacity.filter((s) => s.month !== month));
     this.metadata.capacityPlan!.splice(index, 1);
     this.updateTimestamp();
     this.markFinanceDirty();
+    this.onCapacityChanged();
     return this;
   }
 
   /** Clears the entire capacity plan */
   clearCapacity(): this {
+    this.assertBookingsFit([]);
     this.metadata.capacityPlan = [];
     this.updateTimestamp();
     this.markFinanceDirty();
+    this.onCapacityChanged();
     return this;
   }
 
-  /* ------------------ FINANCE HELPERS ------------------ */
+  /* ------------------ CSV ------------------ */
 
-  /** Computes gross revenue across all months */
-  private computeGrossRevenue(): MajikMoney {
-    const plan = this.metadata.capacityPlan ?? [];
-    return plan.reduce(
-      (acc, s) =>
-        acc.add(this.rate.amount.multiply(s.capacity + (s.adjustment ?? 0))),
-      this.DEFAULT_ZERO()
-    );
+  /**
+   * Exports the capacity plan as CSV with the month's finance figures.
+   * Columns: month, capacity, adjustment, revenue, cos, profit, margin. Amounts are in major units of the service currency.
+   */
+  exportCapacityCSV(): string {
+    return toCSV([
+      ["month", "capacity", "adjustment", "revenue", "cos", "profit", "margin"],
+      ...this.capacity.map((s) => [
+        s.month,
+        s.capacity,
+        s.adjustment,
+        this.getRevenue(s.month).toMajor(),
+        this.getCOS(s.month).toMajor(),
+        this.getProfit(s.month).toMajor(),
+        this.getMargin(s.month),
+      ]),
+    ]);
   }
 
-  /** Computes gross COS across all months */
-  private computeGrossCOS(): MajikMoney {
-    const plan = this.metadata.capacityPlan ?? [];
-    const unitCOS = this.metadata.cos.reduce(
-      (acc, c) => acc.add(c.subtotal),
-      this.DEFAULT_ZERO()
-    );
+  /**
+   * Exports the COS items as CSV.
+   * Columns: id, item, unitCost, currency, quantity, unit, subtotal, behavior, effectiveFrom, effectiveUntil.
+   */
+  exportCOSCSV(): string {
+    return toCSV([
+      [
+        "id",
+        "item",
+        "unitCost",
+        "currency",
+        "quantity",
+        "unit",
+        "subtotal",
+        "behavior",
+        "effectiveFrom",
+        "effectiveUntil",
+      ],
+      ...this.metadata.cos.map((c) => [
+        c.id,
+        c.item,
+        c.unitCost.toMajor(),
+        c.unitCost.currency.code,
+        c.quantity,
+        c.unit,
+        c.subtotal.toMajor(),
+        c.behavior,
+        c.effectiveFrom,
+        c.effectiveUntil,
+      ]),
+    ]);
+  }
 
-    return plan.reduce(
-      (acc, s) => acc.add(unitCOS.multiply(s.capacity + (s.adjustment ?? 0))),
-      this.DEFAULT_ZERO()
+  /**
+   * Replaces the capacity plan from CSV. Requires `month` and `capacity` columns; `adjustment` is optional
+   * and derived columns (revenue, cos, ...) are ignored. Actuals of months that remain are kept.
+   * Every row is validated with the rules of `setCapacity()`.
+   * @param csv - CSV text with a header row.
+   * @param options - `partial: true` applies the valid rows even if some rows fail.
+   * @returns Row counts and the errors of every failed row.
+   */
+  importCapacityCSV(
+    csv: string,
+    options: CSVImportOptions = {}
+  ): CSVImportResult {
+    const seen = new Set<YYYYMM>();
+
+    return this.importCSV(
+      csv,
+      ["month", "capacity"],
+      options,
+      (get) => {
+        const month = get("month") as YYYYMM;
+        const entry: MonthlyCapacity = {
+          month,
+          capacity: this.parseCSVNumber(get("capacity"), "capacity"),
+          adjustment: get("adjustment")
+            ? this.parseCSVNumber(get("adjustment"), "adjustment")
+            : undefined,
+        };
+        this.assertCapacityEntry(entry);
+        if (seen.has(month)) throw new Error(`Duplicate month: ${month}`);
+        seen.add(month);
+
+        const existing = this.capacity.find((s) => s.month === month);
+        return {
+          ...entry,
+          actualUnits: existing?.actualUnits,
+          actualCOS: existing?.actualCOS,
+        };
+      },
+      (plan) => this.setCapacity(plan)
     );
   }
 
-  /** Computes gross profit (revenue - COS) */
-  private computeGrossProfit(): MajikMoney {
-    return this.computeGrossRevenue().subtract(this.computeGrossCOS());
+  /**
+   * Replaces the COS items from CSV. Requires `item`, `unitCost` and `quantity` columns;
+   * `id`, `currency` (defaults to the service currency), `unit`, `behavior`, `effectiveFrom` and
+   * `effectiveUntil` are optional. Every row is validated with the rules of `setCOS()`.
+   * @param csv - CSV text with a header row.
+   * @param options - `partial: true` applies the valid rows even if some rows fail.
+   * @returns Row counts and the errors of every failed row.
+   */
+  importCOSCSV(csv: string, options: CSVImportOptions = {}): CSVImportResult {
+    const seen = new Set<string>();
+
+    return this.importCSV(
+      csv,
+      ["item", "unitCost", "quantity"],
+      options,
+      (get) => {
+        const quantity = this.parseCSVNumber(get("quantity"), "quantity");
+        if (quantity <= 0)
+          throw new Error("COS quantity must be greater than zero");
+
+        const unitCost = MajikMoney.fromMajor(
+          this.parseCSVNumber(get("unitCost"), "unitCost"),
+          get("currency") || this.currencyCode
+        );
+        const item: COSItem = {
+          id: get("id") || autogenerateID("mjkscost"),
+          item: get("item"),
+          unitCost,
+          quantity,
+          unit: get("unit") || undefined,
+          subtotal: unitCost.multiply(quantity),
+          behavior: (get("behavior") || undefined) as COSBehavior | undefined,
+          effectiveFrom: (get("effectiveFrom") || undefined) as
+            | YYYYMM
+            | undefined,
+          effectiveUntil: (get("effectiveUntil") || undefined) as
+            | YYYYMM
+            | undefined,
+        };
+        this.assertCOSItem(item);
+        if (seen.has(item.id)) throw new Error(`Duplicate id: ${item.id}`);
+        seen.add(item.id);
+        return item;
+      },
+      (items) => this.setCOS(items)
+    );
   }
 
-  /** Recomputes and stores aggregate finance info */
-  private recomputeFinance(): void {
-    if (!this.financeDirty) return;
+  /**
+   * Parses and validates CSV rows, collecting an error per failed row.
+   * Applies the parsed rows when there are no errors, or when `partial` is set.
+   */
+  private importCSV<T>(
+    csv: string,
+    required: string[],
+    options: CSVImportOptions,
+    parseRow: (get: (column: string) => string) => T,
+    apply: (rows: T[]) => void
+  ): CSVImportResult {
+    const errors: CSVRowError[] = [];
+    const fail = (row: number, error: unknown) =>
+      errors.push({
+        row,
+        message: error instanceof Error ? error.message : String(error),
+      });
 
-    const grossRevenue = this.computeGrossRevenue();
-    const grossCOS = this.computeGrossCOS();
-    const grossProfit = this.computeGrossProfit();
-    const grossIncome = grossProfit;
+    let records: CSVRecord[];
+    try {
+      records = parseCSVRecords(csv);
+    } catch (error) {
+      fail(1, error);
+      return { rows: 0, imported: 0, applied: false, errors };
+    }
 
-    const revenueMargin = grossRevenue.isZero()
+    const header = (records[0]?.fields ?? []).map((h) =>
+      h.trim().toLowerCase()
+    );
+    const missing = required.filter((c) => !header.includes(c.toLowerCase()));
+    if (missing.length > 0) {
+      fail(1, `Missing required column(s): ${missing.join(", ")}`);
+      return { rows: 0, imported: 0, applied: false, errors };
+    }
+
+    const parsed: T[] = [];
+    let rows = 0;
+
+    records.slice(1).forEach(({ line, fields }) => {
+      if (fields.every((f) => f.trim() === "")) return;
+      rows++;
+      const get = (column: string) =>
+        (fields[header.indexOf(column.toLowerCase())] ?? "").trim();
+      try {
+        parsed.push(parseRow(get));
+      } catch (error) {
+        fail(line, error);
+      }
+    });
+
+    // A partial import with no valid rows would replace everything with nothing
+    if (errors.length > 0 && (!options.partial || parsed.length === 0)) {
+      return { rows, imported: 0, applied: false, errors };
+    }
+
+    apply(parsed);
+    return { rows, imported: parsed.length, applied: true, errors };
+  }
+
+  private parseCSVNumber(value: string, column: string): number {
+    const number = Number(value);
+    if (value === "" || !Number.isFinite(number)) {
+      throw new Error(`Invalid ${column}: "${value}"`);
+    }
+    return number;
+  }
+
+  /* ------------------ ACTUALS ------------------ */
+
+  /**
+   * Records the units actually delivered in a planned month, and optionally the actual COS incurred.
+   * Recorded units take precedence over time rolled up from the timesheet.
+   * @param month - YYYYMM string.
+   * @param units - Units delivered (non-negative).
+   * @param cos - Optional actual COS. If omitted, COS is derived from the delivered units.
+   */
+  recordActual(month: YYYYMM, units: number, cos?: MajikMoney): this {
+    if (!isValidYYYYMM(month)) throw new Error("Invalid month");
+    if (!Number.isFinite(units) || units < 0) {
+      throw new Error("Actual units must be a non-negative number");
+    }
+    const plan = this.metadata.capacityPlan?.find((s) => s.month === month);
+    if (!plan) throw new Error(`Month ${month} not found`);
+    if (cos) this.assertConvertible(cos);
+
+    plan.actualUnits = units;
+    plan.actualCOS = cos;
+    this.updateTimestamp();
+    this.onCapacityChanged();
+    return this;
+  }
+
+  /** Removes the actuals recorded for a month. Time rolled up from the timesheet is kept. */
+  clearActual(month: YYYYMM): this {
+    if (!isValidYYYYMM(month)) throw new Error("Invalid month");
+    const plan = this.metadata.capacityPlan?.find((s) => s.month === month);
+    if (!plan) throw new Error(`Month ${month} not found`);
+    plan.actualUnits = undefined;
+    plan.actualCOS = undefined;
+    this.updateTimestamp();
+    this.onCapacityChanged();
+    return this;
+  }
+
+  /** Returns true if actuals have been recorded or rolled up from the timesheet for a month */
+  hasActual(month: YYYYMM): boolean {
+    const plan = this.metadata.capacityPlan?.find((s) => s.month === month);
+    return plan?.actualUnits !== undefined || plan?.loggedUnits !== undefined;
+  }
+
+  /**
+   * Returns the units actually delivered in a month: the recorded units, else the units
+   * rolled up from the timesheet, else 0.
+   * @param month - YYYYMM string.
+   */
+  getActualUnits(month: YYYYMM): number {
+    if (!isValidYYYYMM(month)) throw new Error("Invalid month");
+    const plan = this.metadata.capacityPlan?.find((s) => s.month === month);
+    return plan?.actualUnits ?? plan?.loggedUnits ?? 0;
+  }
+
+  /**
+   * Returns revenue for the units actually delivered in a month.
+   * @param month - YYYYMM month.
+   */
+  getActualRevenue(month: YYYYMM): MajikMoney {
+    if (!isValidYYYYMM(month)) throw new Error("Invalid month");
+    return this.computeRevenue(month, this.getActualUnits(month));
+  }
+
+  /**
+   * Returns the actual COS of a month: the recorded amount, else variable COS of the delivered units plus fixed costs.
+   * @param month - YYYYMM month.
+   */
+  getActualCOS(month: YYYYMM): MajikMoney {
+    if (!isValidYYYYMM(month)) throw new Error("Invalid month");
+    const plan = this.metadata.capacityPlan?.find((s) => s.month === month);
+    if (plan?.actualCOS) {
+      return this.convertMoney(plan.actualCOS, undefined, month);
+    }
+    return this.getFixedCost(month).add(
+      this.getUnitCost(month).multiply(this.getActualUnits(month))
+    );
+  }
+
+  getActualProfit(month: YYYYMM): MajikMoney {
+    return this.getActualRevenue(month).subtract(this.getActualCOS(month));
+  }
+
+  getActualMargin(month: YYYYMM): number {
+    const revenue = this.getActualRevenue(month);
+    return revenue.isZero() ? 0 : this.getActualProfit(month).ratio(revenue);
+  }
+
+  /**
+   * Compares planned and actual figures for a month.
+   * Variance is `actual - planned`.
+   * @param month - YYYYMM month.
+   */
+  getVariance(month: YYYYMM): ServiceVariance {
+    if (!isValidYYYYMM(month)) throw new Error("Invalid month");
+
+    const planned: VarianceFigures = {
+      units: this.getCapacityUnits(month),
+      revenue: this.getRevenue(month),
+      cos: this.getCOS(month),
+      profit: this.getProfit(month),
+      margin: this.getMargin(month),
+    };
+
+    const actual: VarianceFigures = {
+      units: this.getActualUnits(month),
+      revenue: this.getActualRevenue(month),
+      cos: this.getActualCOS(month),
+      profit: this.getActualProfit(month),
+      margin: this.getActualMargin(month),
+    };
+
+    return {
+      month,
+      hasActual: this.hasActual(month),
+      planned,
+      actual,
+      variance: this.diffFigures(actual, planned),
+    };
+  }
+
+  /**
+   * Compares planned and actual figures across all months with recorded actuals.
+   * @param start - Optional first YYYYMM month of the period.
+   * @param end - Optional last YYYYMM month of the period.
+   */
+  getVarianceReport(start?: YYYYMM, end?: YYYYMM): ServiceVarianceReport {
+    if (start && !isValidYYYYMM(start)) throw new Error("Invalid start month");
+    if (end && !isValidYYYYMM(end)) throw new Error("Invalid end month");
+
+    const months = this.capacity
+      .map((s) => s.month)
+      .filter(
+        (m) => this.hasActual(m) && (!start || m >= start) && (!end || m <= end)
+      )
+      .sort()
+      .map((m) => this.getVariance(m));
+
+    const total = (pick: (v: ServiceVariance) => VarianceFigures) => {
+      const figures = months.map(pick);
+      const revenue = figures.reduce(
+        (acc, f) => acc.add(f.revenue),
+        this.DEFAULT_ZERO()
+      );
+      const profit = figures.reduce(
+        (acc, f) => acc.add(f.profit),
+        this.DEFAULT_ZERO()
+      );
+      return {
+        units: figures.reduce((sum, f) => sum + f.units, 0),
+        revenue,
+        cos: figures.reduce((acc, f) => acc.add(f.cos), this.DEFAULT_ZERO()),
+        profit,
+        margin: revenue.isZero() ? 0 : profit.ratio(revenue),
+      };
+    };
+
+    const planned = total((v) => v.planned);
+    const actual = total((v) => v.actual);
+
+    return {
+      start: start ?? months[0]?.month ?? null,
+      end: end ?? months[months.length - 1]?.month ?? null,
+      months,
+      totals: { planned, actual, variance: this.diffFigures(actual, planned) },
+    };
+  }
+
+  private diffFigures(
+    actual: VarianceFigures,
+    planned: VarianceFigures
+  ): VarianceFigures {
+    return {
+      units: actual.units - planned.units,
+      revenue: actual.revenue.subtract(planned.revenue),
+      cos: actual.cos.subtract(planned.cos),
+      profit: actual.profit.subtract(planned.profit),
+      margin: actual.margin - planned.margin,
+    };
+  }
+
+  /* ------------------ TIMESHEET ------------------ */
+
+  /**
+   * Returns all logged time entries.
+   */
+  get timesheet(): readonly TimesheetEntry[] {
+    return this.metadata.timesheet ?? [];
+  }
+
+  /**
+   * Returns the hours in a working day used to convert time to PER_DAY units.
+   */
+  get hoursPerDay(): number {
+    return this.metadata.hoursPerDay ?? DEFAULT_HOURS_PER_DAY;
+  }
+
+  /**
+   * Sets the hours in a working day and re-rolls the timesheet into the planned months.
+   * @param hours - Hours per day (must be positive, at most 24).
+   */
+  setHoursPerDay(hours: number): this {
+    if (!Number.isFinite(hours) || hours <= 0 || hours > 24) {
+      throw new Error("Hours per day must be between 0 and 24");
+    }
+    this.metadata.hoursPerDay = hours;
+    this.updateTimestamp();
+    this.onCapacityChanged();
+    return this;
+  }
+
+  /**
+   * Logs time against the service.
+   * Billable time is rolled up into the month's `loggedUnits` when the month is planned.
+   * @param date - Day the work was performed (Date or ISO date).
+   * @param hours - Hours worked (must be positive).
+   * @param resource - Person or equipment that performed the work.
+   * @param billable - Whether the time is billable. Defaults to true.
+   * @param note - Optional note.
+   * @param sessions - Sessions covered, for PER_SESSION rates. Defaults to 1.
+   */
+  logTime(
+    date: Date | ISODateString,
+    hours: number,
+    resource: string,
+    billable: boolean = true,
+    note?: string,
+    sessions?: number
+  ): this {
+    const day = typeof date === "string" ? new Date(date) : date;
+    if (isNaN(day.getTime())) throw new Error("Invalid date");
+    if (!Number.isFinite(hours) || hours <= 0) {
+      throw new Error("Hours must be greater than zero");
+    }
+    if (!resource?.trim()) throw new Error("Resource cannot be empty");
+    if (
+      sessions !== undefined &&
+      (!Number.isFinite(sessions) || sessions < 0)
+    ) {
+      throw new Error("Sessions must be a non-negative number");
+    }
+
+    const iso = day.toISOString();
+    const month = isoToYYYYMM(iso);
+
+    const entry: TimesheetEntry = {
+      id: autogenerateID("mjkstime"),
+      date: iso,
+      month,
+      hours,
+      resource,
+      billable,
+      sessions,
+      note,
+    };
+    this.metadata.timesheet ??= [];
+    this.metadata.timesheet.push(entry);
+
+    this.updateTimestamp();
+    this.batch(() => {
+      this.emit({
+        type: "timesheet:added",
+        before: undefined,
+        after: { ...entry },
+      });
+      this.onCapacityChanged();
+    });
+    return this;
+  }
+
+  /** Removes a time entry by ID */
+  removeTimeEntry(id: string): this {
+    const index = this.timesheet.findIndex((e) => e.id === id);
+    if (index === -1) throw new Error(`Time entry ${id} not found`);
+    const [removed] = this.metadata.timesheet!.splice(index, 1);
+    this.updateTimestamp();
+    this.batch(() => {
+      this.emit({
+        type: "timesheet:removed",
+        before: removed,
+        after: undefined,
+      });
+      this.onCapacityChanged();
+    });
+    return this;
+  }
+
+  /** Clears all time entries and the units rolled up from them. Recorded actuals are kept. */
+  clearTimesheet(): this {
+    const removed = this.timesheet;
+    this.metadata.timesheet = [];
+    this.updateTimestamp();
+    this.batch(() => {
+      removed.forEach((e) =>
+        this.emit({ type: "timesheet:removed", before: e, after: undefined })
+      );
+      this.onCapacityChanged();
+    });
+    return this;
+  }
+
+  /**
+   * Returns the time entries of a month.
+   * @param month - YYYYMM string.
+   * @param billableOnly - Only return billable entries. Defaults to false.
+   */
+  getTimeEntries(
+    month: YYYYMM,
+    billableOnly: boolean = false
+  ): TimesheetEntry[] {
+    if (!isValidYYYYMM(month)) throw new Error("Invalid month");
+    return this.timesheet.filter(
+      (e) => e.month === month && (!billableOnly || e.billable)
+    );
+  }
+
+  /**
+   * Returns the hours logged in a month.
+   * @param month - YYYYMM string.
+   * @param billableOnly - Only count billable time. Defaults to false.
+   */
+  getLoggedHours(month: YYYYMM, billableOnly: boolean = false): number {
+    return this.getTimeEntries(month, billableOnly).reduce(
+      (sum, e) => sum + e.hours,
+      0
+    );
+  }
+
+  /**
+   * Returns the billable time of a month in the service's rate unit
+   * (hours for PER_HOUR, days for PER_DAY, sessions for PER_SESSION).
+   * @param month - YYYYMM string.
+   */
+  getDeliveredUnits(month: YYYYMM): number {
+    return timeEntriesToUnits(
+      this.getTimeEntries(month, true),
+      this.getRateForMonth(month).unit,
+      this.hoursPerDay
+    );
+  }
+
+  /**
+   * Returns the months where all logged time, in rate units, exceeds the planned units.
+   * Months with logged time but no capacity plan entry are always flagged.
+   */
+  getTimesheetOverages(): TimesheetOverage[] {
+    const months = [...new Set(this.timesheet.map((e) => e.month))].sort();
+
+    return months.flatMap((month) => {
+      const capacity = this.getCapacityUnits(month);
+      const logged = timeEntriesToUnits(
+        this.getTimeEntries(month),
+        this.getRateForMonth(month).unit,
+        this.hoursPerDay
+      );
+      return logged > capacity
+        ? [{ month, capacity, logged, excess: logged - capacity }]
+        : [];
+    });
+  }
+
+  /**
+   * Writes the delivered units of every planned month into its `loggedUnits`.
+   * Runs whenever the timesheet or the capacity plan changes, so months planned later pick up their time.
+   */
+  private rollUpTimesheet(): void {
+    this.metadata.capacityPlan?.forEach((plan) => {
+      plan.loggedUnits =
+        this.getTimeEntries(plan.month).length > 0
+          ? this.getDeliveredUnits(plan.month)
+          : undefined;
+    });
+  }
+
+  /* ------------------ RESOURCES ------------------ */
+
+  /**
+   * Returns the people and equipment delivering the service.
+   */
+  get resources(): readonly ServiceResource[] {
+    return this.metadata.resources ?? [];
+  }
+
+  /**
+   * Adds a resource and plans the months it is available in.
+   * @param name - Person or equipment name.
+   * @param kind - PERSON or EQUIPMENT.
+   * @param allocation - Share of the resource's availability allocated to this service, in (0, 1] (e.g. 0.5 = 50%).
+   * @param availability - Units available per month, in the rate unit (hours or days).
+   * @param costRate - Optional cost per unit of allocated time, used for labor COS.
+   * @param poolResourceId - Optional resource in a shared `MajikResourcePool`. Prefer `pool.assign()`.
+   */
+  addResource(
+    name: string,
+    kind: ResourceKind,
+    allocation: number,
+    availability: ResourceAvailability[] = [],
+    costRate?: MajikMoney,
+    poolResourceId?: string
+  ): this {
+    if (!name?.trim()) throw new Error("Resource name cannot be empty");
+    if (!Object.values(ResourceKind).includes(kind)) {
+      throw new Error("Invalid resource kind");
+    }
+    this.assertAllocation(allocation);
+    this.assertAvailability(availability);
+    if (costRate) this.assertConvertible(costRate);
+
+    const resource: ServiceResource = {
+      id: autogenerateID("mjksres"),
+      name,
+      kind,
+      allocation,
+      availability: [...availability].sort((a, b) =>
+        a.month.localeCompare(b.month)
+      ),
+      costRate,
+      poolResourceId,
+    };
+
+    this.commitResources([...this.resources, resource], undefined, resource);
+    return this;
+  }
+
+  /**
+   * Updates a resource and re-plans the months it is available in.
+   * @param id - Resource ID.
+   * @param updates - Name, kind, allocation or cost rate. Pass `costRate: undefined` to remove it.
+   */
+  updateResource(
+    id: string,
+    updates: Partial<
+      Pick<ServiceResource, "name" | "kind" | "allocation" | "costRate">
+    >
+  ): this {
+    const resource = this.findResource(id);
+
+    if (updates.name !== undefined && !updates.name.trim()) {
+      throw new Error("Resource name cannot be empty");
+    }
+    if (
+      updates.kind !== undefined &&
+      !Object.values(ResourceKind).includes(updates.kind)
+    ) {
+      throw new Error("Invalid resource kind");
+    }
+    if (updates.allocation !== undefined) {
+      this.assertAllocation(updates.allocation);
+    }
+    if (updates.costRate) this.assertConvertible(updates.costRate);
+
+    const updated: ServiceResource = {
+      ...resource,
+      name: updates.name ?? resource.name,
+      kind: updates.kind ?? resource.kind,
+      allocation: updates.allocation ?? resource.allocation,
+    };
+    if ("costRate" in updates) updated.costRate = updates.costRate;
+
+    this.replaceResource(resource, updated);
+    return this;
+  }
+
+  /**
+   * Sets the share of a resource allocated to this service.
+   * @param id - Resource ID.
+   * @param allocation - Share of availability, in (0, 1].
+   */
+  setResourceAllocation(id: string, allocation: number): this {
+    return this.updateResource(id, { allocation });
+  }
+
+  /**
+   * Sets a resource's availability for a month.
+   * @param id - Resource ID.
+   * @param month - YYYYMM month.
+   * @param units - Units available, in the rate unit (0 keeps the month planned with no capacity).
+   */
+  setResourceAvailability(id: string, month: YYYYMM, units: number): this {
+    const resource = this.findResource(id);
+    this.assertAvailability([{ month, units }]);
+
+    this.replaceResource(resource, {
+      ...resource,
+      availability: [
+        ...resource.availability.filter((a) => a.month !== month),
+        { month, units },
+      ].sort((a, b) => a.month.localeCompare(b.month)),
+    });
+    return this;
+  }
+
+  /**
+   * Replaces a resource's availability with the working time of a calendar.
+   * @param id - Resource ID.
+   * @param calendar - Working calendar of the resource.
+   * @param months - Number of months to generate from the start date.
+   * @param startDate - Date | ISO date | YYYYMM. Defaults to current month.
+   */
+  setResourceAvailabilityFromCalendar(
+    id: string,
+    calendar: MajikWorkingCalendar,
+    months: number,
+    startDate?: StartDateInput
+  ): this {
+    const resource = this.findResource(id);
+
+    this.replaceResource(resource, {
+      ...resource,
+      availability: calendar
+        .generateCapacity(months, this.rate.unit, startDate)
+        .map((c) => ({ month: c.month, units: c.capacity })),
+    });
+    return this;
+  }
+
+  /**
+   * Removes a resource and its labor COS, and re-plans the months it was available in.
+   * Removing the last resource leaves the capacity plan as it is.
+   * @param id - Resource ID.
+   */
+  removeResource(id: string): this {
+    const resource = this.findResource(id);
+    this.commitResources(
+      this.resources.filter((r) => r.id !== id),
+      resource,
+      undefined
+    );
+    return this;
+  }
+
+  /**
+   * Returns the units allocated to this service in a month.
+   * @param month - YYYYMM month.
+   * @param resourceId - Optional resource ID. Sums all resources if omitted.
+   */
+  getAllocatedUnits(month: YYYYMM, resourceId?: string): number {
+    if (!isValidYYYYMM(month)) throw new Error("Invalid month");
+    return this.allocatedUnits(
+      this.resources.filter((r) => !resourceId || r.id === resourceId),
+      month
+    );
+  }
+
+  private allocatedUnits(
+    resources: readonly ServiceResource[],
+    month: YYYYMM
+  ): number {
+    return resources.reduce((sum, r) => {
+      const available =
+        r.availability.find((a) => a.month === month)?.units ?? 0;
+      return sum + available * r.allocation;
+    }, 0);
+  }
+
+  private replaceResource(
+    resource: ServiceResource,
+    updated: ServiceResource
+  ): void {
+    this.commitResources(
+      this.resources.map((r) => (r.id === resource.id ? updated : r)),
+      resource,
+      updated
+    );
+  }
+
+  /**
+   * Replaces the resources after an add, update or removal, then re-plans the affected months,
+   * updates the changed resource's labor COS and emits the `resource:*` event as one change batch.
+   * @param resources - The resources after the change.
+   * @param before - The changed resource before the change (undefined when added).
+   * @param after - The changed resource after the change (undefined when removed).
+   * @throws If a booked month would drop below its booked units; nothing is changed.
+   */
+  private commitResources(
+    resources: ServiceResource[],
+    before: ServiceResource | undefined,
+    after: ServiceResource | undefined
+  ): void {
+    const plan = this.planFromResources(resources, before);
+    if (plan) this.assertBookingsFit(plan);
+
+    this.metadata.resources = resources;
+    this.updateTimestamp();
+
+    this.batch(() => {
+      if (!before && after) {
+        this.emit({
+          type: "resource:added",
+          before: undefined,
+          after: this.snapshotResource(after),
+        });
+      } else if (before && !after) {
+        this.emit({
+          type: "resource:removed",
+          before: this.snapshotResource(before),
+          after: undefined,
+        });
+      } else if (before && after) {
+        this.emit({
+          type: "resource:updated",
+          before: this.snapshotResource(before),
+          after: this.snapshotResource(after),
+        });
+      }
+
+      if (plan) this.metadata.capacityPlan = plan;
+      const id = after?.id ?? before?.id;
+      if (id) this.syncLaborCOS(id, after, before);
+      this.markFinanceDirty();
+      this.onCapacityChanged();
+    });
+  }
+
+  /**
+   * Returns the capacity plan with every month the resources are available in set to their allocated units.
+   * Other months are kept as they are, except months only the changed resource contributed to, which are
+   * dropped unless they hold an adjustment or actuals. Returns null if there are no resources, so a
+   * hand-managed plan is never replaced.
+   * @param resources - The resources after the change.
+   * @param before - The changed resource before the change.
+   */
+  private planFromResources(
+    resources: readonly ServiceResource[],
+    before?: ServiceResource
+  ): MonthlyCapacity[] | null {
+    if (resources.length === 0) return null;
+
+    const available = new Set(
+      resources.flatMap((r) => r.availability.map((a) => a.month))
+    );
+    const touched = new Set([
+      ...available,
+      ...(before?.availability.map((a) => a.month) ?? []),
+    ]);
+
+    const plan = this.capacity
+      .filter((c) => !touched.has(c.month))
+      .map((c) => ({ ...c }));
+
+    touched.forEach((month) => {
+      const existing = this.capacity.find((c) => c.month === month);
+      if (available.has(month)) {
+        plan.push({
+          ...existing,
+          month,
+          capacity: this.allocatedUnits(resources, month),
+        });
+      } else if (
+        existing &&
+        (existing.adjustment !== undefined ||
+          existing.actualUnits !== undefined ||
+          existing.loggedUnits !== undefined ||
+          existing.actualCOS !== undefined)
+      ) {
+        plan.push({ ...existing, capacity: 0 });
+      }
+    });
+
+    return plan.sort((a, b) => a.month.localeCompare(b.month));
+  }
+
+  /**
+   * Updates a resource's labor COS in place: one fixed-monthly item per run of consecutive months
+   * with the same allocated units. Runs are matched to the resource's items in date order, so the
+   * first run keeps its ID. Edits made with `updateCOS()` are kept unless the resource's name or
+   * cost rate changed, and unchanged items emit no event.
+   * @param id - Resource ID.
+   * @param resource - The resource after the change (undefined when removed).
+   * @param before - The resource before the change (undefined when added).
+   */
+  private syncLaborCOS(
+    id: string,
+    resource: ServiceResource | undefined,
+    before: ServiceResource | undefined
+  ): void {
+    const items = this.metadata.cos
+      .filter((c) => c.resourceId === id)
+      .sort((a, b) =>
+        (a.effectiveFrom ?? "").localeCompare(b.effectiveFrom ?? "")
+      );
+    const costRate = resource?.costRate;
+    const runs = resource && costRate ? this.laborRuns(resource) : [];
+
+    runs.forEach((run, i) => {
+      if (!resource || !costRate) return;
+      const item = items[i];
+      if (!item) {
+        const added: COSItem = {
+          id: autogenerateID("mjkscost"),
+          item: `${resource.name} (labor)`,
+          unitCost: costRate,
+          quantity: run.units,
+          subtotal: costRate.multiply(run.units),
+          unit: this.rate.unit,
+          behavior: COSBehavior.FIXED_MONTHLY,
+          effectiveFrom: run.from,
+          effectiveUntil: run.until,
+          resourceId: id,
+        };
+        this.metadata.cos.push(added);
+        this.emit({
+          type: "cos:added",
+          before: undefined,
+          after: { ...added },
+        });
+        return;
+      }
+
+      const prev = { ...item };
+      if (before && before.name !== resource.name) {
+        item.item = `${resource.name} (labor)`;
+      }
+      if (before && before.costRate !== costRate) item.unitCost = costRate;
+      item.quantity = run.units;
+      item.effectiveFrom = run.from;
+      item.effectiveUntil = run.until;
+      item.subtotal = item.unitCost.multiply(item.quantity);
+
+      if (
+        prev.item !== item.item ||
+        prev.unitCost !== item.unitCost ||
+        prev.quantity !== item.quantity ||
+        prev.effectiveFrom !== item.effectiveFrom ||
+        prev.effectiveUntil !== item.effectiveUntil
+      ) {
+        this.emit({ type: "cos:updated", before: prev, after: { ...item } });
+      }
+    });
+
+    const stale = new Set(items.slice(runs.length));
+    this.metadata.cos = this.metadata.cos.filter((c) => !stale.has(c));
+    stale.forEach((c) =>
+      this.emit({ type: "cos:removed", before: { ...c }, after: undefined })
+    );
+  }
+
+  /** Returns the runs of consecutive months with the same allocated units of a resource */
+  private laborRuns(
+    resource: ServiceResource
+  ): { from: YYYYMM; until: YYYYMM; units: number }[] {
+    const runs: { from: YYYYMM; until: YYYYMM; units: number }[] = [];
+    resource.availability.forEach(({ month, units }) => {
+      const allocated = units * resource.allocation;
+      if (allocated <= 0) return;
+
+      const last = runs[runs.length - 1];
+      if (
+        last &&
+        last.units === allocated &&
+        offsetMonthsToYYYYMM(last.until, 1) === month
+      ) {
+        last.until = month;
+      } else {
+        runs.push({ from: month, until: month, units: allocated });
+      }
+    });
+    return runs;
+  }
+
+  private findResource(id: string): ServiceResource {
+    const resource = this.metadata.resources?.find((r) => r.id === id);
+    if (!resource) throw new Error(`Resource ${id} not found`);
+    return resource;
+  }
+
+  private assertAllocation(allocation: number): void {
+    if (!Number.isFinite(allocation) || allocation <= 0 || allocation > 1) {
+      throw new Error("Allocation must be greater than 0 and at most 1");
+    }
+  }
+
+  private assertAvailability(availability: ResourceAvailability[]): void {
+    const months = new Set<string>();
+    availability.forEach(({ month, units }) => {
+      if (!isValidYYYYMM(month)) throw new Error("Invalid month");
+      if (months.has(month)) {
+        throw new Error(`Duplicate availability for ${month}`);
+      }
+      if (!Number.isFinite(units) || units < 0) {
+        throw new Error("Availability units must be a non-negative number");
+      }
+      months.add(month);
+    });
+  }
+
+  /* ------------------ VARIANTS & ADD-ONS ------------------ */
+
+  /**
+   * Returns the variants and add-ons of the service.
+   */
+  get variants(): readonly ServiceVariant[] {
+    return this.metadata.variants ?? [];
+  }
+
+  /**
+   * Adds a variant or add-on.
+   * @param name - Name, e.g. "Rush" or "Extra revision".
+   * @param kind - VARIANT (sold instead of the standard offering) or ADD_ON (sold on top of it).
+   * @param options - Share of units, and a rate delta or (variants only) a rate override.
+   */
+  addVariant(
+    name: string,
+    kind: VariantKind,
+    options: ServiceVariantOptions = {}
+  ): this {
+    if (!name?.trim()) throw new Error("Variant name cannot be empty");
+    if (!Object.values(VariantKind).includes(kind)) {
+      throw new Error("Invalid variant kind");
+    }
+
+    const variant: ServiceVariant = {
+      id: autogenerateID("mjksvar"),
+      name,
+      kind,
+      share: options.share ?? 0,
+      rateDelta: options.rateDelta,
+      rateOverride: options.rateOverride,
+      cos: [],
+    };
+    this.assertVariant(variant);
+
+    this.metadata.variants ??= [];
+    this.metadata.variants.push(variant);
+    this.updateTimestamp();
+    this.markFinanceDirty();
+    this.emit({
+      type: "variant:added",
+      before: undefined,
+      after: this.snapshotVariant(variant),
+    });
+    return this;
+  }
+
+  /**
+   * Updates a variant or add-on.
+   * @param id - Variant ID.
+   * @param updates - Name, share, rate delta or rate override. Setting one rate field clears the other.
+   */
+  updateVariant(
+    id: string,
+    updates: Partial<
+      Pick<ServiceVariant, "name" | "share" | "rateDelta" | "rateOverride">
+    >
+  ): this {
+    const variant = this.findVariant(id);
+    if (updates.name !== undefined && !updates.name.trim()) {
+      throw new Error("Variant name cannot be empty");
+    }
+
+    const updated: ServiceVariant = {
+      ...variant,
+      name: updates.name ?? variant.name,
+      share: updates.share ?? variant.share,
+    };
+    if ("rateDelta" in updates || "rateOverride" in updates) {
+      updated.rateDelta = updates.rateDelta;
+      updated.rateOverride = updates.rateOverride;
+    }
+    this.assertVariant(updated);
+
+    const before = this.snapshotVariant(variant);
+    Object.assign(variant, updated);
+    this.updateTimestamp();
+    this.markFinanceDirty();
+    this.emitVariantUpdated(before, variant);
+    return this;
+  }
+
+  /**
+   * Sets the share of units sold as a variant, or the attach rate of an add-on.
+   * @param id - Variant ID.
+   * @param share - Share of each month's units, in [0, 1].
+   */
+  setVariantShare(id: string, share: number): this {
+    return this.updateVariant(id, { share });
+  }
+
+  /**
+   * Removes a variant or add-on.
+   * @param id - Variant ID.
+   */
+  removeVariant(id: string): this {
+    const variant = this.findVariant(id);
+    this.metadata.variants = this.variants.filter((v) => v.id !== id);
+    this.updateTimestamp();
+    this.markFinanceDirty();
+    this.emit({ type: "variant:removed", before: variant, after: undefined });
+    return this;
+  }
+
+  /**
+   * Adds an extra variable cost per unit to a variant or add-on.
+   * @param id - Variant ID.
+   * @param name - Name of the COS item.
+   * @param unitCost - Cost per unit of the resource used.
+   * @param quantity - Resource used per unit of the service (default 1).
+   * @param unit - Optional unit name (e.g., "hour").
+   */
+  addVariantCOS(
+    id: string,
+    name: string,
+    unitCost: MajikMoney,
+    quantity: number = 1,
+    unit?: string
+  ): this {
+    const variant = this.findVariant(id);
+    if (!name.trim()) throw new Error("COS name cannot be empty");
+    if (quantity <= 0)
+      throw new Error("COS quantity must be greater than zero");
+    this.assertConvertible(unitCost);
+
+    const before = this.snapshotVariant(variant);
+    variant.cos.push({
+      id: autogenerateID("mjkscost"),
+      item: name,
+      quantity,
+      unitCost,
+      unit,
+      subtotal: unitCost.multiply(quantity),
+    });
+    this.updateTimestamp();
+    this.markFinanceDirty();
+    this.emitVariantUpdated(before, variant);
+    return this;
+  }
+
+  /**
+   * Removes an extra cost from a variant or add-on.
+   * @param id - Variant ID.
+   * @param cosId - COS item ID.
+   */
+  removeVariantCOS(id: string, cosId: string): this {
+    const variant = this.findVariant(id);
+    const index = variant.cos.findIndex((c) => c.id === cosId);
+    if (index === -1) throw new Error(`COS item with id ${cosId} not found`);
+    const before = this.snapshotVariant(variant);
+    variant.cos.splice(index, 1);
+    this.updateTimestamp();
+    this.markFinanceDirty();
+    this.emitVariantUpdated(before, variant);
+    return this;
+  }
+
+  /**
+   * Returns a month's units split between the standard offering, each variant and each add-on.
+   * Standard and variant units add up to the month's capacity; add-on units are on top.
+   * @param month - YYYYMM month.
+   */
+  getCapacitySplit(month: YYYYMM): VariantCapacity[] {
+    const units = this.getCapacityUnits(month);
+    return [
+      {
+        id: null,
+        name: this.name,
+        kind: null,
+        units: units * this.standardShare,
+      },
+      ...this.variants.map((v) => ({
+        id: v.id,
+        name: v.name,
+        kind: v.kind,
+        units: units * v.share,
+      })),
+    ];
+  }
+
+  /**
+   * Returns the units of a month sold as a variant, or carrying an add-on.
+   * @param id - Variant ID.
+   * @param month - YYYYMM month.
+   */
+  getVariantUnits(id: string, month: YYYYMM): number {
+    return this.getCapacityUnits(month) * this.findVariant(id).share;
+  }
+
+  /**
+   * Returns the unit rate, cost, profit and margin of the standard offering and of every variant and add-on.
+   * Variants are priced as the standard unit plus their delta; add-ons as their delta alone.
+   * Under fixed-fee models, the delta is the variant's change to the fee spread over the standard unit rate.
+   */
+  getVariantEconomics(): VariantEconomics[] {
+    const baseRate = this.standardUnitRate;
+    const baseCost = this.baseUnitCost;
+
+    const economics = (
+      id: string | null,
+      name: string,
+      kind: VariantKind | null,
+      share: number,
+      unitRate: MajikMoney,
+      unitCost: MajikMoney
+    ): VariantEconomics => {
+      const unitProfit = unitRate.subtract(unitCost);
+      return {
+        id,
+        name,
+        kind,
+        share,
+        unitRate,
+        unitCost,
+        unitProfit,
+        unitMargin: unitRate.isZero() ? 0 : unitProfit.ratio(unitRate),
+      };
+    };
+
+    return [
+      economics(null, this.name, null, this.standardShare, baseRate, baseCost),
+      ...this.variants.map((v) =>
+        v.kind === VariantKind.ADD_ON
+          ? economics(
+              v.id,
+              v.name,
+              v.kind,
+              v.share,
+              this.variantUnitDelta(v, baseRate),
+              this.sumVariableCOS(v.cos)
+            )
+          : economics(
+              v.id,
+              v.name,
+              v.kind,
+              v.share,
+              baseRate.add(this.variantUnitDelta(v, baseRate)),
+              baseCost.add(this.sumVariableCOS(v.cos))
+            )
+      ),
+    ];
+  }
+
+  /**
+   * Returns the profit per unit of a variant or add-on.
+   * @param id - Variant ID.
+   */
+  getVariantUnitProfit(id: string): MajikMoney {
+    return this.variantEconomics(id).unitProfit;
+  }
+
+  /**
+   * Returns the margin per unit of a variant or add-on.
+   * @param id - Variant ID.
+   */
+  getVariantUnitMargin(id: string): number {
+    return this.variantEconomics(id).unitMargin;
+  }
+
+  /** Share of units sold as the standard offering */
+  private get standardShare(): number {
+    return Math.max(
+      0,
+      1 -
+        this.variants
+          .filter((v) => v.kind === VariantKind.VARIANT)
+          .reduce((sum, v) => sum + v.share, 0)
+    );
+  }
+
+  /** Variable COS per capacity unit, without variants and add-ons */
+  private get baseUnitCost(): MajikMoney {
+    return this.sumVariableCOS(this.metadata.cos);
+  }
+
+  /**
+   * Sums the subtotals of variable COS items, converted to the service currency.
+   * @param month - Optional YYYYMM month. Only items effective in the month count if given.
+   */
+  private sumVariableCOS(items: COSItem[], month?: YYYYMM): MajikMoney {
+    return items
+      .filter(
+        (c) => isVariableCOS(c) && (!month || isCOSItemEffective(c, month))
+      )
+      .reduce(
+        (acc, c) => acc.add(this.convertMoney(c.subtotal, undefined, month)),
+        this.DEFAULT_ZERO()
+      );
+  }
+
+  /**
+   * Rate change of a variant against a rate: the override less the standard price, else the delta.
+   * Per-unit rates change per unit, measured against the average (tiered) price of the units;
+   * fixed-fee rates change the fee.
+   * @param units - Units the standard price is averaged over.
+   */
+  private variantRateDelta(
+    variant: ServiceVariant,
+    rate: ServiceRate,
+    units: number,
+    month?: YYYYMM
+  ): MajikMoney {
+    if (variant.rateOverride) {
+      const standard =
+        this.revenueModelFor(rate) === RevenueModel.PER_UNIT && units > 0
+          ? priceUnits(rate, units).divide(units)
+          : rate.amount;
+      return this.convertMoney(variant.rateOverride, undefined, month).subtract(
+        this.convertMoney(standard, undefined, month)
+      );
+    }
+    return variant.rateDelta
+      ? this.convertMoney(variant.rateDelta, undefined, month)
+      : this.DEFAULT_ZERO();
+  }
+
+  /** Share-weighted rate change of all variants and add-ons against a rate */
+  private mixRateDelta(
+    rate: ServiceRate,
+    units: number,
+    month?: YYYYMM
+  ): MajikMoney {
+    return this.variants.reduce(
+      (acc, v) =>
+        acc.add(this.variantRateDelta(v, rate, units, month).multiply(v.share)),
+      this.DEFAULT_ZERO()
+    );
+  }
+
+  /**
+   * Rate change per capacity unit of a variant against the standard unit rate.
+   * Fixed fees change in proportion to the fee, so the change scales the standard unit rate.
+   */
+  private variantUnitDelta(
+    variant: ServiceVariant,
+    standardUnitRate: MajikMoney
+  ): MajikMoney {
+    if (this.revenueModel === RevenueModel.PER_UNIT) {
+      return variant.rateOverride
+        ? this.convertMoney(variant.rateOverride).subtract(standardUnitRate)
+        : this.variantRateDelta(variant, this.rate, 0);
+    }
+
+    const fee = this.convertMoney(this.rate.amount);
+    if (fee.isZero()) return this.DEFAULT_ZERO();
+    return standardUnitRate.multiply(
+      this.variantRateDelta(variant, this.rate, 0).ratio(fee)
+    );
+  }
+
+  /** Revenue per capacity unit of the standard offering, without variants and add-ons */
+  private get standardUnitRate(): MajikMoney {
+    if (
+      this.revenueModel === RevenueModel.PER_UNIT &&
+      !this.hasRateTiers() &&
+      this.rateSchedule.length === 0
+    ) {
+      return this.rate.amount;
+    }
+    const total = this.totalCapacity;
+    if (total <= 0) return this.DEFAULT_ZERO();
+    return this.getFinanceMonths()
+      .reduce(
+        (acc, month) =>
+          acc.add(
+            this.computeRevenue(month, this.getCapacityUnits(month), false)
+          ),
+        this.DEFAULT_ZERO()
+      )
+      .divide(total);
+  }
+
+  /** Share-weighted extra COS of all variants and add-ons per capacity unit */
+  private mixUnitCost(month?: YYYYMM): MajikMoney {
+    return this.variants.reduce(
+      (acc, v) => acc.add(this.sumVariableCOS(v.cos, month).multiply(v.share)),
+      this.DEFAULT_ZERO()
+    );
+  }
+
+  private variantEconomics(id: string): VariantEconomics {
+    this.findVariant(id);
+    return this.getVariantEconomics().find((e) => e.id === id)!;
+  }
+
+  private findVariant(id: string): ServiceVariant {
+    const variant = this.metadata.variants?.find((v) => v.id === id);
+    if (!variant) throw new Error(`Variant ${id} not found`);
+    return variant;
+  }
+
+  private assertVariant(variant: ServiceVariant): void {
+    if (
+      !Number.isFinite(variant.share) ||
+      variant.share < 0 ||
+      variant.share > 1
+    ) {
+      throw new Error("Variant share must be between 0 and 1");
+    }
+    if (variant.rateDelta && variant.rateOverride) {
+      throw new Error("A variant has either a rate delta or an override");
+    }
+    if (variant.kind === VariantKind.ADD_ON && variant.rateOverride) {
+      throw new Error("Add-ons carry a rate delta, not an override");
+    }
+    if (variant.rateDelta) this.assertConvertible(variant.rateDelta);
+    if (variant.rateOverride) this.assertConvertible(variant.rateOverride);
+
+    const variantShares = this.variants
+      .filter((v) => v.id !== variant.id && v.kind === VariantKind.VARIANT)
+      .reduce((sum, v) => sum + v.share, 0);
+    if (
+      variant.kind === VariantKind.VARIANT &&
+      variantShares + variant.share > 1 + 1e-9
+    ) {
+      throw new Error("Variant shares cannot add up to more than 1");
+    }
+  }
+
+  /* ------------------ MILESTONES ------------------ */
+
+  /**
+   * Returns the billing milestones of a fixed-fee project.
+   */
+  get milestones(): readonly ProjectMilestone[] {
+    return this.metadata.milestones ?? [];
+  }
+
+  /**
+   * Adds a billing milestone. Only used by the `FIXED_PROJECT` revenue model.
+   * @param name - Milestone name.
+   * @param month - YYYYMM month the milestone is billed in.
+   * @param share - Fraction of the fixed fee billed (0-1).
+   * @throws Will throw an error if the shares of all milestones exceed 1.
+   */
+  addMilestone(name: string, month: YYYYMM, share: number): this {
+    if (!name?.trim()) throw new Error("Milestone name cannot be empty");
+    if (!isValidYYYYMM(month)) throw new Error("Invalid month");
+    if (!Number.isFinite(share) || share <= 0 || share > 1) {
+      throw new Error("Milestone share must be between 0 and 1");
+    }
+
+    const allocated = this.milestones.reduce((sum, m) => sum + m.share, 0);
+    if (allocated + share > 1 + 1e-9) {
+      throw new Error("Milestone shares cannot exceed 100% of the fee");
+    }
+
+    const milestone: ProjectMilestone = {
+      id: autogenerateID("mjksmile"),
+      name,
+      month,
+      share,
+    };
+    this.metadata.milestones ??= [];
+    this.metadata.milestones.push(milestone);
+    this.updateTimestamp();
+    this.markFinanceDirty();
+    this.emit({
+      type: "milestone:added",
+      before: undefined,
+      after: { ...milestone },
+    });
+    return this;
+  }
+
+  /** Removes a milestone by ID */
+  removeMilestone(id: string): this {
+    const index = this.milestones.findIndex((m) => m.id === id);
+    if (index === -1) throw new Error(`Milestone ${id} not found`);
+    const [removed] = this.metadata.milestones!.splice(index, 1);
+    this.updateTimestamp();
+    this.markFinanceDirty();
+    this.emit({
+      type: "milestone:removed",
+      before: { ...removed },
+      after: undefined,
+    });
+    return this;
+  }
+
+  /** Clears all milestones */
+  clearMilestones(): this {
+    const removed = this.metadata.milestones ?? [];
+    this.metadata.milestones = [];
+    this.updateTimestamp();
+    this.markFinanceDirty();
+    this.batch(() =>
+      removed.forEach((m) =>
+        this.emit({
+          type: "milestone:removed",
+          before: { ...m },
+          after: undefined,
+        })
+      )
+    );
+    return this;
+  }
+
+  /* ------------------ BOOKINGS ------------------ */
+
+  /**
+   * Returns all bookings recorded against the capacity plan.
+   */
+  get bookings(): readonly ServiceBooking[] {
+    return this.metadata.bookings ?? [];
+  }
+
+  /**
+   * Returns the bookings for a specific month.
+   * @param month - YYYYMM string.
+   */
+  getBookings(month: YYYYMM): ServiceBooking[] {
+    if (!isValidYYYYMM(month)) throw new Error("Invalid month");
+    return this.bookings.filter((b) => b.month === month);
+  }
+
+  /**
+   * Returns the planned units (capacity + adjustment) for a month, or 0 if not planned.
+   * @param month - YYYYMM string.
+   */
+  getCapacityUnits(month: YYYYMM): number {
+    if (!isValidYYYYMM(month)) throw new Error("Invalid month");
+    const plan = this.metadata.capacityPlan?.find((s) => s.month === month);
+    if (!plan) return 0;
+    return plan.capacity + (plan.adjustment ?? 0);
+  }
+
+  /**
+   * Returns the total units booked for a month.
+   * @param month - YYYYMM string.
+   */
+  getBookedUnits(month: YYYYMM): number {
+    return this.getBookings(month).reduce((sum, b) => sum + b.units, 0);
+  }
+
+  /**
+   * Returns the units still available for booking in a month. Never negative.
+   * @param month - YYYYMM string.
+   */
+  getRemainingCapacity(month: YYYYMM): number {
+    return Math.max(
+      0,
+      this.getCapacityUnits(month) - this.getBookedUnits(month)
+    );
+  }
+
+  /**
+   * Returns the ratio of booked units to planned units for a month.
+   * @param month - YYYYMM string.
+   */
+  getUtilization(month: YYYYMM): number {
+    const units = this.getCapacityUnits(month);
+    return units <= 0 ? 0 : this.getBookedUnits(month) / units;
+  }
+
+  /**
+   * Returns true if a planned month has no remaining capacity.
+   * @param month - YYYYMM string.
+   */
+  isMonthFullyBooked(month: YYYYMM): boolean {
+    if (!this.metadata.capacityPlan?.some((s) => s.month === month)) {
+      return false;
+    }
+    return this.getRemainingCapacity(month) <= 0;
+  }
+
+  /**
+   * Returns true if every open month of the capacity plan is fully booked.
+   * Open months are the current month and later; past months can no longer be sold.
+   * If the whole plan lies in the past, every month is checked.
+   */
+  get isFullyBooked(): boolean {
+    if (!this.hasCapacity()) return false;
+    const current = dateToYYYYMM(new Date());
+    const open = this.capacity.filter((s) => s.month >= current);
+    return (open.length > 0 ? open : this.capacity).every((s) =>
+      this.isMonthFullyBooked(s.month)
+    );
+  }
+
+  /**
+   * Books capacity units for a client in a planned month.
+   * Switches the service to `FULLY_BOOKED` once every open month is full.
+   * @param client - Client name or reference.
+   * @param month - YYYYMM string.
+   * @param units - Units to reserve (must be positive).
+   * @param note - Optional booking note.
+   * @throws Will throw an error if the month is not planned or the booking exceeds remaining capacity.
+   */
+  addBooking(
+    client: string,
+    month: YYYYMM,
+    units: number,
+    note?: string
+  ): this {
+    this.batch(() => {
+      this.pushBooking(client, month, units, note);
+      this.syncBookingStatus();
+    });
+    return this;
+  }
+
+  private pushBooking(
+    client: string,
+    month: YYYYMM,
+    units: number,
+    note?: string,
+    quoteId?: string
+  ): void {
+    if (!client?.trim()) throw new Error("Booking client cannot be empty");
+    if (!isValidYYYYMM(month)) throw new Error("Invalid month");
+    if (!Number.isFinite(units) || units <= 0) {
+      throw new Error("Booking units must be greater than zero");
+    }
+    if (this.status === ServiceStatus.DISCONTINUED) {
+      throw new Error("Cannot book a discontinued service");
+    }
+    if (!this.metadata.capacityPlan?.some((s) => s.month === month)) {
+      throw new Error(`Month ${month} is not in the capacity plan`);
+    }
+
+    const remaining = this.getRemainingCapacity(month);
+    if (units > remaining) {
+      throw new Error(
+        `Booking exceeds remaining capacity for ${month} (${remaining} left)`
+      );
+    }
+
+    const booking: ServiceBooking = {
+      id: autogenerateID("mjksbook"),
+      client,
+      month,
+      units,
+      timestamp: new Date().toISOString(),
+      note,
+      quoteId,
+    };
+    this.metadata.bookings ??= [];
+    this.metadata.bookings.push(booking);
+
+    this.updateTimestamp();
+    this.emit({
+      type: "booking:added",
+      before: undefined,
+      after: { ...booking },
+    });
+  }
+
+  /** Removes a booking by ID */
+  removeBooking(id: string): this {
+    const index = this.bookings.findIndex((b) => b.id === id);
+    if (index === -1) throw new Error(`Booking ${id} not found`);
+    const [removed] = this.metadata.bookings!.splice(index, 1);
+    this.updateTimestamp();
+    this.batch(() => {
+      this.emit({
+        type: "booking:removed",
+        before: { ...removed },
+        after: undefined,
+      });
+      this.syncBookingStatus();
+    });
+    return this;
+  }
+
+  /** Clears all bookings */
+  clearBookings(): this {
+    const removed = this.metadata.bookings ?? [];
+    this.metadata.bookings = [];
+    this.updateTimestamp();
+    this.batch(() => {
+      removed.forEach((b) =>
+        this.emit({
+          type: "booking:removed",
+          before: { ...b },
+          after: undefined,
+        })
+      );
+      this.syncBookingStatus();
+    });
+    return this;
+  }
+
+  /**
+   * Keeps the status in line with the booking ledger.
+   * Only applies once bookings are in use, and never touches `DRAFT` or `DISCONTINUED`.
+   * A `FULLY_BOOKED` status set by hand is kept until it is changed by hand.
+   */
+  private syncBookingStatus(): void {
+    if (!this.metadata.bookings) return;
+    const full = this.metadata.bookings.length > 0 && this.isFullyBooked;
+
+    if (this.status === ServiceStatus.ACTIVE && full) {
+      this.transitionStatus(
+        ServiceStatus.FULLY_BOOKED,
+        "All open capacity months are fully booked",
+        true
+      );
+    } else if (
+      this.status === ServiceStatus.FULLY_BOOKED &&
+      !full &&
+      this.statusHistory[this.statusHistory.length - 1]?.automatic
+    ) {
+      this.transitionStatus(
+        ServiceStatus.ACTIVE,
+        "Capacity became available",
+        true
+      );
+    }
+  }
+
+  /**
+   * Throws if a capacity plan would leave a month with fewer units than are already booked.
+   * @param plan - Candidate capacity plan.
+   */
+  private assertBookingsFit(plan: readonly MonthlyCapacity[]): void {
+    const booked = new Map<YYYYMM, number>();
+    this.bookings.forEach((b) =>
+      booked.set(b.month, (booked.get(b.month) ?? 0) + b.units)
+    );
+
+    booked.forEach((units, month) => {
+      const entry = plan.find((s) => s.month === month);
+      const planned = entry ? entry.capacity + (entry.adjustment ?? 0) : 0;
+      if (planned < units) {
+        throw new Error(
+          `Capacity for ${month} cannot drop below its ${units} booked units`
+        );
+      }
+    });
+  }
+
+  /* ------------------ QUOTES ------------------ */
+
+  /**
+   * Creates a quote that snapshots the current rate and description for a quantity or window of months.
+   * Each month is priced with the rate in force for that month, in the currency of the current rate.
+   * The quote is not stored on the service; status changes return new quotes.
+   * @param client - Client name or reference.
+   * @param scope - `{ month, units }`, or `{ start, end, unitsPerMonth? }` (planned units if omitted).
+   * @param options - Validity (`validDays`, default 30, or `expiresAt`), discounts and notes.
+   * @returns A new `DRAFT` quote.
+   * @throws Will throw an error if the service is discontinued or the scope has no units.
+   */
+  createQuote(
+    client: string,
+    scope: QuoteScope,
+    options: QuoteOptions = {}
+  ): MajikServiceQuote {
+    if (!client?.trim()) throw new Error("Quote client cannot be empty");
+    if (this.status === ServiceStatus.DISCONTINUED) {
+      throw new Error("Cannot quote a discontinued service");
+    }
+
+    const rate = this.currentRate;
+    const currencyCode = rate.amount.currency.code;
+    const lines = this.priceQuote(scope, currencyCode);
+    if (lines.length === 0) throw new Error("Quote has no units");
+
+    const subtotal = lines.reduce(
+      (acc, l) => acc.add(l.amount),
+      MajikMoney.zero(currencyCode)
+    );
+
+    const discounts = (options.discounts ?? []).map((d) => {
+      if (!d.label?.trim()) throw new Error("Discount label cannot be empty");
+      if ((d.amount === undefined) === (d.rate === undefined)) {
+        throw new Error("Discount needs either an amount or a rate");
+      }
+      if (
+        d.rate !== undefined &&
+        (!Number.isFinite(d.rate) || d.rate < 0 || d.rate > 1)
+      ) {
+        throw new Error("Discount rate must be between 0 and 1");
+      }
+      if (d.amount && d.amount.currency.code !== currencyCode) {
+        throw new Error("Currency mismatch with quoted rate");
+      }
+      const amount = d.amount ?? subtotal.multiply(d.rate!);
+      if (amount.toMajor() < 0) throw new Error("Discount cannot be negative");
+      return { label: d.label, amount, rate: d.rate };
+    });
+
+    const discountTotal = discounts.reduce(
+      (acc, d) => acc.add(d.amount),
+      MajikMoney.zero(currencyCode)
+    );
+    if (discountTotal.toMajor() > subtotal.toMajor()) {
+      throw new Error("Discounts cannot exceed the quote subtotal");
+    }
+
+    const createdAt = new Date();
+    const validDays = options.validDays ?? 30;
+    if (!Number.isInteger(validDays) || validDays <= 0) {
+      throw new Error("Valid days must be a positive integer");
+    }
+    const expiresAt =
+      options.expiresAt !== undefined
+        ? new Date(options.expiresAt)
+        : new Date(createdAt.getTime() + validDays * 24 * 60 * 60 * 1000);
+    if (isNaN(expiresAt.getTime()) || expiresAt <= createdAt) {
+      throw new Error("Quote expiry must be a date in the future");
+    }
+
+    return new MajikServiceQuote({
+      id: autogenerateID("mjksquote"),
+      serviceId: this.id,
+      serviceName: this.name,
+      client,
+      description: { ...this.metadata.description },
+      rate,
+      revenueModel: this.revenueModelFor(rate),
+      currencyCode,
+      lines,
+      discounts,
+      status: QuoteStatus.DRAFT,
+      createdAt: createdAt.toISOString(),
+      expiresAt: expiresAt.toISOString(),
+      notes: options.notes,
+    });
+  }
+
+  /**
+   * Books the units of an accepted quote against the capacity plan.
+   * Either every line is booked or none is.
+   * @param quote - An `ACCEPTED` quote created by this service.
+   * @throws Will throw an error if the quote is not accepted, already booked, or does not fit the remaining capacity.
+   */
+  bookQuote(quote: MajikServiceQuote): this {
+    if (quote.serviceId !== this.id) {
+      throw new Error(`Quote ${quote.id} belongs to another service`);
+    }
+    if (quote.status !== QuoteStatus.ACCEPTED) {
+      throw new Error("Only accepted quotes can be booked");
+    }
+    if (this.bookings.some((b) => b.quoteId === quote.id)) {
+      throw new Error(`Quote ${quote.id} is already booked`);
+    }
+    if (this.status === ServiceStatus.DISCONTINUED) {
+      throw new Error("Cannot book a discontinued service");
+    }
+
+    quote.lines.forEach((line) => {
+      if (!this.metadata.capacityPlan?.some((s) => s.month === line.month)) {
+        throw new Error(`Month ${line.month} is not in the capacity plan`);
+      }
+      const remaining = this.getRemainingCapacity(line.month);
+      if (line.units > remaining) {
+        throw new Error(
+          `Quote exceeds remaining capacity for ${line.month} (${remaining} left)`
+        );
+      }
+    });
+
+    this.batch(() => {
+      quote.lines.forEach((line) =>
+        this.pushBooking(
+          quote.client,
+          line.month,
+          line.units,
+          `Quote ${quote.id}`,
+          quote.id
+        )
+      );
+      this.syncBookingStatus();
+    });
+    return this;
+  }
+
+  /** Prices the units of a quote scope with each month's rate, converted to the quote currency */
+  private priceQuote(scope: QuoteScope, currencyCode: string): QuoteLine[] {
+    let units: { month: YYYYMM; units: number }[];
+
+    if ("month" in scope) {
+      if (!isValidYYYYMM(scope.month)) throw new Error("Invalid month");
+      units = [{ month: scope.month, units: scope.units }];
+    } else {
+      if (!isValidYYYYMM(scope.start) || !isValidYYYYMM(scope.end)) {
+        throw new Error("Invalid month");
+      }
+      if (scope.start > scope.end) {
+        throw new Error("Quote window start must not be after end");
+      }
+      units = Array.from(
+        { length: monthsInPeriod(scope.start, scope.end) },
+        (_, i) => {
+          const month = offsetMonthsToYYYYMM(scope.start, i);
+          return {
+            month,
+            units: scope.unitsPerMonth ?? this.getCapacityUnits(month),
+          };
+        }
+      );
+    }
+
+    if (units.some((u) => !Number.isFinite(u.units) || u.units < 0)) {
+      throw new Error("Quoted units must be a non-negative number");
+    }
+
+    const quoted = units.filter((u) => u.units > 0);
+    const totalUnits = quoted.reduce((sum, u) => sum + u.units, 0);
+
+    return quoted.map(({ month, units }) => {
+      const rate = this.getRateForMonth(month);
+      // A project fee is quoted in full, spread across the quoted units
+      const amount =
+        this.revenueModelFor(rate) === RevenueModel.FIXED_PROJECT
+          ? rate.amount.multiply(units / totalUnits)
+          : this.computeRateRevenue(rate, month, units);
+      return {
+        month,
+        units,
+        amount: this.convertMoney(amount, currencyCode, month),
+      };
+    });
+  }
+
+  /* ------------------ ADJUSTMENTS ------------------ */
+
+  /**
+   * Returns all stored finance adjustments.
+   */
+  get adjustments(): readonly FinanceAdjustment[] {
+    return this.metadata.adjustments ?? [];
+  }
+
+  /**
+   * Adds a one-off finance adjustment for a month.
+   * @param kind - Adjustment kind. Use Enum `AdjustmentKind`.
+   * @param label - Adjustment label.
+   * @param amount - Adjustment amount (non-negative, deducted from net figures).
+   * @param month - YYYYMM month the adjustment applies to.
+   */
+  addAdjustment(
+    kind: AdjustmentKind,
+    label: string,
+    amount: MajikMoney,
+    month: YYYYMM
+  ): this {
+    if (!isValidYYYYMM(month)) throw new Error("Invalid month");
+    return this.pushAdjustment({ kind, label, amount, month });
+  }
+
+  /**
+   * Adds a finance adjustment that applies to every month in a window.
+   * @param kind - Adjustment kind. Use Enum `AdjustmentKind`.
+   * @param label - Adjustment label.
+   * @param amount - Amount per month (non-negative, deducted from net figures).
+   * @param start - Optional first YYYYMM month. Open-ended if omitted.
+   * @param end - Optional last YYYYMM month. Open-ended if omitted.
+   */
+  addRecurringAdjustment(
+    kind: AdjustmentKind,
+    label: string,
+    amount: MajikMoney,
+    start?: YYYYMM,
+    end?: YYYYMM
+  ): this {
+    if (start && !isValidYYYYMM(start)) throw new Error("Invalid start month");
+    if (end && !isValidYYYYMM(end)) throw new Error("Invalid end month");
+    if (start && end && start > end) {
+      throw new Error("Start month must be <= end month");
+    }
+    return this.pushAdjustment({
+      kind,
+      label,
+      amount,
+      recurring: { start, end },
+    });
+  }
+
+  /** Removes a finance adjustment by ID */
+  removeAdjustment(id: string): this {
+    const index = this.adjustments.findIndex((a) => a.id === id);
+    if (index === -1) throw new Error(`Adjustment ${id} not found`);
+    const [removed] = this.metadata.adjustments!.splice(index, 1);
+    this.updateTimestamp();
+    this.markFinanceDirty();
+    this.emit({
+      type: "adjustment:removed",
+      before: { ...removed },
+      after: undefined,
+    });
+    return this;
+  }
+
+  /** Clears all finance adjustments */
+  clearAdjustments(): this {
+    const removed = this.metadata.adjustments ?? [];
+    this.metadata.adjustments = [];
+    this.updateTimestamp();
+    this.markFinanceDirty();
+    this.batch(() =>
+      removed.forEach((a) =>
+        this.emit({
+          type: "adjustment:removed",
+          before: { ...a },
+          after: undefined,
+        })
+      )
+    );
+    return this;
+  }
+
+  /**
+   * Returns the adjustments that apply to a month.
+   * @param month - YYYYMM month.
+   * @param kind - Optional kind filter. Use Enum `AdjustmentKind`.
+   */
+  getAdjustments(month: YYYYMM, kind?: AdjustmentKind): FinanceAdjustment[] {
+    if (!isValidYYYYMM(month)) throw new Error("Invalid month");
+    return this.adjustments.filter(
+      (a) => adjustmentAppliesTo(a, month) && (!kind || a.kind === kind)
+    );
+  }
+
+  /**
+   * Returns the total of stored adjustments of a kind for a month.
+   * @param month - YYYYMM month.
+   * @param kind - Adjustment kind. Use Enum `AdjustmentKind`.
+   */
+  getAdjustmentTotal(month: YYYYMM, kind: AdjustmentKind): MajikMoney {
+    return this.getAdjustments(month, kind).reduce(
+      (acc, a) => acc.add(a.amount),
+      this.DEFAULT_ZERO()
+    );
+  }
+
+  private pushAdjustment(adjustment: Omit<FinanceAdjustment, "id">): this {
+    if (!Object.values(AdjustmentKind).includes(adjustment.kind)) {
+      throw new Error("Invalid Adjustment kind.");
+    }
+    if (!adjustment.label?.trim()) {
+      throw new Error("Adjustment label cannot be empty");
+    }
+    if (adjustment.amount.toMajor() < 0) {
+      throw new Error("Adjustment amount cannot be negative");
+    }
+    this.assertCurrency(adjustment.amount);
+
+    const added: FinanceAdjustment = {
+      id: autogenerateID("mjksadj"),
+      ...adjustment,
+    };
+    this.metadata.adjustments ??= [];
+    this.metadata.adjustments.push(added);
+    this.updateTimestamp();
+    this.markFinanceDirty();
+    this.emit({
+      type: "adjustment:added",
+      before: undefined,
+      after: { ...added },
+    });
+    return this;
+  }
+
+  /* ------------------ TAX RULES ------------------ */
+
+  /**
+   * Returns all tax rules of the service.
+   */
+  get taxRules(): readonly TaxRule[] {
+    return this.metadata.taxRules ?? [];
+  }
+
+  /**
+   * Adds a percentage-based tax rule.
+   *
+   * - `REVENUE` + inclusive → the embedded tax is deducted from net revenue
+   * - `REVENUE` + exclusive `VAT` → collected on top of the rate and passed through
+   * - `REVENUE` + exclusive other kinds → deducted from net profit
+   * - `INCOME` → charged on pre-tax income and deducted from net profit
+   *
+   * @param name - Tax rule name (e.g. "VAT").
+   * @param kind - Tax kind. Use Enum `TaxKind`.
+   * @param rate - Tax rate as a ratio (e.g. 0.12 = 12%).
+   * @param appliesTo - Tax base. Use Enum `TaxBase`. Defaults to `REVENUE`.
+   * @param inclusive - True if the tax is already included in the rate. Defaults to false.
+   */
+  addTaxRule(
+    name: string,
+    kind: TaxKind,
+    rate: number,
+    appliesTo: TaxBase = TaxBase.REVENUE,
+    inclusive: boolean = false
+  ): this {
+    if (!name?.trim()) throw new Error("Tax rule name cannot be empty");
+    if (!Object.values(TaxKind).includes(kind)) {
+      throw new Error("Invalid Tax kind.");
+    }
+    if (!Object.values(TaxBase).includes(appliesTo)) {
+      throw new Error("Invalid Tax base.");
+    }
+    if (!Number.isFinite(rate) || rate < 0 || rate >= 1) {
+      throw new Error("Tax rate must be between 0 and 1");
+    }
+
+    const rule: TaxRule = {
+      id: autogenerateID("mjkstax"),
+      name,
+      kind,
+      rate,
+      inclusive,
+      appliesTo,
+    };
+    this.metadata.taxRules ??= [];
+    this.metadata.taxRules.push(rule);
+    this.updateTimestamp();
+    this.markFinanceDirty();
+    this.emit({ type: "taxRule:added", before: undefined, after: { ...rule } });
+    return this;
+  }
+
+  /** Removes a tax rule by ID */
+  removeTaxRule(id: string): this {
+    const index = this.taxRules.findIndex((t) => t.id === id);
+    if (index === -1) throw new Error(`Tax rule ${id} not found`);
+    const [removed] = this.metadata.taxRules!.splice(index, 1);
+    this.updateTimestamp();
+    this.markFinanceDirty();
+    this.emit({
+      type: "taxRule:removed",
+      before: { ...removed },
+      after: undefined,
+    });
+    return this;
+  }
+
+  /** Clears all tax rules */
+  clearTaxRules(): this {
+    const removed = this.metadata.taxRules ?? [];
+    this.metadata.taxRules = [];
+    this.updateTimestamp();
+    this.markFinanceDirty();
+    this.batch(() =>
+      removed.forEach((t) =>
+        this.emit({
+          type: "taxRule:removed",
+          before: { ...t },
+          after: undefined,
+        })
+      )
+    );
+    return this;
+  }
+
+  /**
+   * Returns the tax breakdown for a month, based on stored adjustments.
+   * @param month - YYYYMM month.
+   */
+  getTaxBreakdown(month: YYYYMM): TaxBreakdown {
+    if (!isValidYYYYMM(month)) throw new Error("Invalid month");
+
+    const taxable = this.getTaxableRevenue(month);
+    const lines = this.computeTaxLines(taxable, this.getPreTaxIncome(month));
+    const sumLines = (filter: (line: TaxLine) => boolean) =>
+      lines
+        .filter(filter)
+        .reduce((acc, line) => acc.add(line.amount), this.DEFAULT_ZERO());
+
+    const revenueTax = sumLines((l) => l.deductedFrom === TaxBase.REVENUE);
+    const incomeTax = sumLines((l) => l.deductedFrom === TaxBase.INCOME);
+    const collected = sumLines((l) => !l.deductedFrom);
+    const adjustments = this.getAdjustmentTotal(month, AdjustmentKind.TAX);
+
+    return {
+      month,
+      lines,
+      revenueTax,
+      incomeTax,
+      collected,
+      adjustments,
+      total: revenueTax.add(incomeTax).add(collected).add(adjustments),
+    };
+  }
+
+  /** Revenue less discounts, returns and allowances, before any tax */
+  private getTaxableRevenue(
+    month: YYYYMM,
+    discounts?: MajikMoney,
+    returns?: MajikMoney,
+    allowances?: MajikMoney
+  ): MajikMoney {
+    let taxable = this.getRevenue(month)
+      .subtract(this.getAdjustmentTotal(month, AdjustmentKind.DISCOUNT))
+      .subtract(this.getAdjustmentTotal(month, AdjustmentKind.RETURN))
+      .subtract(this.getAdjustmentTotal(month, AdjustmentKind.ALLOWANCE));
+    if (discounts) taxable = taxable.subtract(discounts);
+    if (returns) taxable = taxable.subtract(returns);
+    if (allowances) taxable = taxable.subtract(allowances);
+    return taxable;
+  }
+
+  /** Net revenue less COS and operating expenses, before income taxes */
+  private getPreTaxIncome(
+    month: YYYYMM,
+    operatingExpenses?: MajikMoney,
+    discounts?: MajikMoney,
+    returns?: MajikMoney,
+    allowances?: MajikMoney
+  ): MajikMoney {
+    let income = this.getNetRevenue(month, discounts, returns, allowances)
+      .subtract(this.getCOS(month))
+      .subtract(
+        this.getAdjustmentTotal(month, AdjustmentKind.OPERATING_EXPENSE)
+      );
+    if (operatingExpenses) income = income.subtract(operatingExpenses);
+    return income;
+  }
+
+  /**
+   * Computes tax lines for a taxable revenue and, optionally, a pre-tax income.
+   * Income-based rules are skipped when no income is given.
+   */
+  private computeTaxLines(
+    taxableRevenue: MajikMoney,
+    preTaxIncome?: MajikMoney
+  ): TaxLine[] {
+    const positive = (money: MajikMoney) =>
+      money.toMajor() > 0 ? money : this.DEFAULT_ZERO();
+
+    // Inclusive revenue taxes share the same tax-inclusive base
+    const inclusiveRate = this.taxRules
+      .filter((t) => t.appliesTo === TaxBase.REVENUE && t.inclusive)
+      .reduce((sum, t) => sum + t.rate, 0);
+
+    return this.taxRules.flatMap((rule): TaxLine[] => {
+      const line = {
+        ruleId: rule.id,
+        name: rule.name,
+        kind: rule.kind,
+        rate: rule.rate,
+        inclusive: rule.inclusive,
+        appliesTo: rule.appliesTo,
+      };
+
+      if (rule.appliesTo === TaxBase.INCOME) {
+        if (!preTaxIncome) return [];
+        const base = positive(preTaxIncome);
+        return [
+          {
+            ...line,
+            base,
+            amount: base.multiply(rule.rate),
+            deductedFrom: TaxBase.INCOME,
+          },
+        ];
+      }
+
+      const base = positive(taxableRevenue);
+
+      if (rule.inclusive) {
+        return [
+          {
+            ...line,
+            base,
+            amount: base.multiply(rule.rate / (1 + inclusiveRate)),
+            deductedFrom: TaxBase.REVENUE,
+          },
+        ];
+      }
+
+      return [
+        {
+          ...line,
+          base,
+          amount: base.multiply(rule.rate),
+          deductedFrom: rule.kind === TaxKind.VAT ? undefined : TaxBase.INCOME,
+        },
+      ];
+    });
+  }
+
+  /* ------------------ CURRENCY ------------------ */
+
+  /**
+   * Returns the service currency code (the base rate currency).
+   */
+  get currencyCode(): string {
+    return this.rate.amount.currency.code;
+  }
+
+  /**
+   * Returns the exchange rate provider used for foreign-currency rates and COS items.
+   */
+  get exchangeRateProvider(): ExchangeRateProvider | undefined {
+    return this.exchangeRates;
+  }
+
+  /**
+   * Sets the exchange rate provider used to convert foreign-currency rates and COS items.
+   * An `InMemoryExchangeRateProvider` is serialized with the service; other providers are
+   * runtime dependencies and must be set again after parsing.
+   * @param provider - Exchange rate provider, or `undefined` to remove it.
+   */
+  setExchangeRateProvider(provider?: ExchangeRateProvider): this {
+    this.exchangeRates = provider;
+    this.markFinanceDirty();
+    return this;
+  }
+
+  /**
+   * Converts money to another currency using the exchange rate provider.
+   * @param money - Amount to convert.
+   * @param currencyCode - Target currency. Defaults to the service currency.
+   * @param month - Optional YYYYMM month for period-specific rates. If omitted, uses the rate of the current month,
+   * else of the latest planned month, else the fixed rate.
+   * @throws Will throw an error if no provider is set or it has no rate for the pair.
+   */
+  convertMoney(
+    money: MajikMoney,
+    currencyCode: string = this.currencyCode,
+    month?: YYYYMM
+  ): MajikMoney {
+    const from = money.currency.code;
+    if (from === currencyCode) return money;
+
+    if (!this.exchangeRates) {
+      throw new Error(
+        `Cannot convert ${from} to ${currencyCode} without an exchange rate provider`
+      );
+    }
+
+    const rate = this.lookupExchangeRate(from, currencyCode, month);
+    if (rate === undefined) {
+      throw new Error(
+        `No exchange rate for ${from} to ${currencyCode}${
+          month ? ` in ${month}` : ""
+        }`
+      );
+    }
+
+    // Convert in minor units, scaled for currencies with a different number of decimals
+    const scale =
+      MajikMoney.fromMajor(1, currencyCode).toMinor() /
+      MajikMoney.fromMajor(1, from).toMinor();
+    return MajikMoney.fromMinor(
+      Math.round(money.toMinor() * rate * scale),
+      currencyCode
+    );
+  }
+
+  /** Looks up a rate for a month, or for the first month with a rate when no month is given */
+  private lookupExchangeRate(
+    from: string,
+    to: string,
+    month?: YYYYMM
+  ): number | undefined {
+    if (month) return this.exchangeRates!.getRate(from, to, month);
+
+    const current = dateToYYYYMM(new Date());
+    const months = [
+      current,
+      ...this.getFinanceMonths()
+        .filter((m) => m <= current)
+        .reverse(),
+      ...this.getFinanceMonths().filter((m) => m > current),
+    ];
+    for (const m of months) {
+      const rate = this.exchangeRates!.getRate(from, to, m);
+      if (rate !== undefined) return rate;
+    }
+    return this.exchangeRates!.getRate(from, to);
+  }
+
+  /**
+   * Returns a read-only view that reports all finance getters in another currency.
+   * @param currencyCode - Target currency code.
+   * @throws Will throw an error if the currency differs and no exchange rate provider is set.
+   */
+  toCurrency(currencyCode: string): MajikServiceCurrencyView {
+    if (!currencyCode?.trim()) throw new Error("Currency code cannot be empty");
+    if (currencyCode !== this.currencyCode && !this.exchangeRates) {
+      throw new Error(
+        "An exchange rate provider is required to report in another currency"
+      );
+    }
+    return new MajikServiceCurrencyView(this, currencyCode, () =>
+      this.getFinanceMonths()
+    );
+  }
+
+  /* ------------------ FINANCE HELPERS ------------------ */
+
+  /** Returns every month with finance activity (capacity plan, milestones, one-off adjustments and costs), sorted */
+  private getFinanceMonths(): YYYYMM[] {
+    const months = new Set<YYYYMM>();
+    this.metadata.capacityPlan?.forEach((s) => months.add(s.month));
+    this.metadata.milestones?.forEach((m) => months.add(m.month));
+    this.metadata.adjustments?.forEach((a) => a.month && months.add(a.month));
+    this.metadata.cos.forEach(
+      (c) =>
+        c.behavior === COSBehavior.ONE_TIME &&
+        c.effectiveFrom &&
+        months.add(c.effectiveFrom)
+    );
+    return [...months].sort();
+  }
+
+  /** COS of a month as scheduled by the capacity plan and the COS item behaviors */
+  private computeScheduledCOS(month: YYYYMM): MajikMoney {
+    return this.getFixedCost(month).add(
+      this.getUnitCost(month).multiply(this.getCapacityUnits(month))
+    );
+  }
+
+  /** Sums the shares of the milestones billed in a month */
+  private milestoneShare(month: YYYYMM): number {
+    return this.milestones
+      .filter((m) => m.month === month)
+      .reduce((sum, m) => sum + m.share, 0);
+  }
+
+  /** True if a month's COS follows the milestones of a fixed-fee project */
+  private spreadsByMilestone(month: YYYYMM): boolean {
+    return (
+      this.milestones.length > 0 &&
+      this.revenueModelFor(this.getRateForMonth(month)) ===
+        RevenueModel.FIXED_PROJECT
+    );
+  }
+
+  /** Resolves the revenue model for a rate, honoring the metadata override */
+  private revenueModelFor(rate: ServiceRate): RevenueModel {
+    return (
+      this.metadata.revenueModel ?? resolveRevenueModel(this.type, rate.unit)
+    );
+  }
+
+  /**
+   * Computes revenue for a month under the revenue model of the rate in force,
+   * converted to the service currency. Variants and add-ons change the price of each unit
+   * under PER_UNIT, and the fee, weighted by their share, under fixed-fee models.
+   * @param units - Units delivered. Defaults to the planned units of the month.
+   * @param withVariants - Include variants and add-ons (default true).
+   */
+  private computeRevenue(
+    month: YYYYMM,
+    units: number = this.getCapacityUnits(month),
+    withVariants: boolean = true
+  ): MajikMoney {
+    const rate = this.getRateForMonth(month);
+    const revenue = this.convertMoney(
+      this.computeRateRevenue(rate, month, units),
+      undefined,
+      month
+    );
+    if (!withVariants || this.variants.length === 0) return revenue;
+
+    const delta = this.mixRateDelta(rate, units, month);
+    if (this.revenueModelFor(rate) === RevenueModel.PER_UNIT) {
+      return revenue.add(delta.multiply(units));
+    }
+    return revenue.add(
+      this.computeRateRevenue(
+        { ...rate, amount: delta, tiers: undefined },
+        month,
+        units
+      )
+    );
+  }
+
+  /** Computes revenue for a number of units in a month, in the currency of the given rate */
+  private computeRateRevenue(
+    rate: ServiceRate,
+    month: YYYYMM,
+    units: number
+  ): MajikMoney {
+    const zero = MajikMoney.zero(rate.amount.currency.code);
+
+    switch (this.revenueModelFor(rate)) {
+      case RevenueModel.FIXED_PROJECT: {
+        if (this.milestones.length > 0) {
+          return rate.amount.multiply(this.milestoneShare(month));
+        }
+
+        // Without milestones, spread the fee across planned units
+        const total = this.totalCapacity;
+        if (total <= 0) return zero;
+        return rate.amount.multiply(units / total);
+      }
+
+      case RevenueModel.FIXED_RECURRING:
+        return units > 0 ? rate.amount : zero;
+
+      default:
+        return priceUnits(rate, units);
+    }
+  }
+
+  /** Computes gross revenue across all months */
+  private computeGrossRevenue(): MajikMoney {
+    return this.getFinanceMonths().reduce(
+      (acc, month) => acc.add(this.computeRevenue(month)),
+      this.DEFAULT_ZERO()
+    );
+  }
+
+  /** Computes gross COS across all months */
+  private computeGrossCOS(): MajikMoney {
+    return this.getFinanceMonths().reduce(
+      (acc, month) => acc.add(this.getCOS(month)),
+      this.DEFAULT_ZERO()
+    );
+  }
+
+  /** Computes gross profit (revenue - COS) */
+  private computeGrossProfit(): MajikMoney {
+    return this.computeGrossRevenue().subtract(this.computeGrossCOS());
+  }
+
+  /** Recomputes and stores aggregate finance info */
+  private recomputeFinance(): void {
+    if (!this.financeDirty) return;
+
+    const grossRevenue = this.computeGrossRevenue();
+    const grossCOS = this.computeGrossCOS();
+    const grossProfit = this.computeGrossProfit();
+    const grossIncome = grossProfit;
+
+    const months = this.getFinanceMonths();
+    const netRevenue = months.reduce(
+      (acc, month) => acc.add(this.getNetRevenue(month)),
+      this.DEFAULT_ZERO()
+    );
+    const netProfit = months.reduce(
+      (acc, month) => acc.add(this.getNetProfit(month)),
+      this.DEFAULT_ZERO()
+    );
+    const netIncome = netProfit;
+
+    const revenueMargin = grossRevenue.isZero()
       ? 0
       : grossProfit.ratio(grossRevenue);
     const cosMargin = grossRevenue.isZero() ? 0 : grossCOS.ratio(grossRevenue);
 
+    const netMargin = netRevenue.isZero() ? 0 : netProfit.ratio(netRevenue);
+    const netCOSMargin = netRevenue.isZero() ? 0 : grossCOS.ratio(netRevenue);
+
     this.metadata.finance = {
       revenue: {
         gross: { value: grossRevenue, marginRatio: 1 },
-        net: { value: grossRevenue, marginRatio: 1 },
+        net: { value: netRevenue, marginRatio: 1 },
       },
       cos: {
         gross: { value: grossCOS, marginRatio: cosMargin },
-        net: { value: grossCOS, marginRatio: cosMargin },
+        net: { value: grossCOS, marginRatio: netCOSMargin },
       },
       income: {
         gross: { value: grossIncome, marginRatio: revenueMargin },
-        net: { value: grossIncome, marginRatio: revenueMargin },
+        net: { value: netIncome, marginRatio: netMargin },
       },
       profit: {
         gross: { value: grossProfit, marginRatio: revenueMargin },
-        net: { value: grossProfit, marginRatio: revenueMargin },
+        net: { value: netProfit, marginRatio: netMargin },
       },
     };
 
@@ -921,45 +3894,70 @@ export class MajikService {
     return this.metadata.finance.profit.net.value;
   }
 
+  /**
+   * Returns the variable COS per capacity unit, including the share-weighted costs of variants and add-ons.
+   * Fixed and one-time costs are excluded.
+   */
   get unitCost(): MajikMoney {
-    return this.metadata.cos.reduce(
-      (acc, c) => acc.add(c.subtotal),
-      this.DEFAULT_ZERO()
-    );
+    return this.baseUnitCost.add(this.mixUnitCost());
+  }
+
+  /**
+   * Returns the effective revenue per capacity unit under the active revenue model.
+   * Fixed-fee models, tiered rates and scheduled rate changes spread their gross revenue across total capacity.
+   */
+  get unitRate(): MajikMoney {
+    if (
+      this.revenueModel === RevenueModel.PER_UNIT &&
+      !this.hasRateTiers() &&
+      this.rateSchedule.length === 0
+    ) {
+      return this.rate.amount.add(this.mixRateDelta(this.rate, 1));
+    }
+    const total = this.totalCapacity;
+    if (total <= 0) return this.DEFAULT_ZERO();
+    return this.grossRevenue.divide(total);
   }
 
   get unitProfit(): MajikMoney {
-    return this.rate.amount.subtract(this.unitCost);
+    return this.unitRate.subtract(this.unitCost);
   }
 
   get unitMargin(): number {
-    return this.rate.amount.isZero()
-      ? 0
-      : this.unitProfit.ratio(this.rate.amount);
+    const unitRate = this.unitRate;
+    return unitRate.isZero() ? 0 : this.unitProfit.ratio(unitRate);
   }
 
   get price(): MajikMoney {
     return this.rate.amount.isZero() ? this.DEFAULT_ZERO() : this.rate.amount;
   }
 
-  getMonthlySnapshot(month: YYYYMM) {
+  getMonthlySnapshot(month: YYYYMM): ServiceMonthlySnapshot {
+    const units = this.getCapacityUnits(month);
+    const revenue = this.getRevenue(month);
+
     return {
       month,
-      revenue: this.getRevenue(month),
+      units,
+      unitRate: units > 0 ? revenue.divide(units) : this.DEFAULT_ZERO(),
+      revenue,
       cogs: this.getCOS(month),
       profit: this.getProfit(month),
       margin: this.getMargin(month),
       netRevenue: this.getNetRevenue(month),
       netIncome: this.getNetIncome(month),
+      tax: this.getTaxBreakdown(month),
     };
   }
 
   /**
    * Calculates Net Revenue for a given month.
+   * Stored discounts, returns and allowances are always deducted; the optional arguments are deducted on top.
+   * Taxes included in the rate are deducted last.
    * @param month - YYYYMM
-   * @param discounts - Total discounts for the month (optional)
-   * @param returns - Total returns for the month (optional)
-   * @param allowances - Total allowances for the month (optional)
+   * @param discounts - Additional discounts for the month (optional)
+   * @param returns - Additional returns for the month (optional)
+   * @param allowances - Additional allowances for the month (optional)
    * @returns {MajikMoney} Net Revenue
    */
   getNetRevenue(
@@ -969,21 +3967,26 @@ export class MajikService {
     allowances?: MajikMoney
   ): MajikMoney {
     if (!isValidYYYYMM(month)) throw new Error("Invalid month");
-    let net = this.getRevenue(month);
-    if (discounts) net = net.subtract(discounts);
-    if (returns) net = net.subtract(returns);
-    if (allowances) net = net.subtract(allowances);
-    return net;
+    const taxable = this.getTaxableRevenue(
+      month,
+      discounts,
+      returns,
+      allowances
+    );
+    return this.computeTaxLines(taxable)
+      .filter((line) => line.deductedFrom === TaxBase.REVENUE)
+      .reduce((acc, line) => acc.subtract(line.amount), taxable);
   }
 
   /**
-   * Calculates Net Profit for a given month.
+   * Calculates Net Profit for a given month: net revenue less COS, operating expenses and taxes.
+   * Stored adjustments and tax rules are always applied; the optional arguments are deducted on top.
    * @param month - YYYYMM
-   * @param operatingExpenses - Total operating expenses (optional)
-   * @param taxes - Total taxes (optional)
-   * @param discounts - Total discounts for the month (optional)
-   * @param returns - Total returns for the month (optional)
-   * @param allowances - Total allowances for the month (optional)
+   * @param operatingExpenses - Additional operating expenses (optional)
+   * @param taxes - Additional taxes (optional)
+   * @param discounts - Additional discounts for the month (optional)
+   * @param returns - Additional returns for the month (optional)
+   * @param allowances - Additional allowances for the month (optional)
    * @returns {MajikMoney} Net Profit
    */
   getNetProfit(
@@ -995,10 +3998,26 @@ export class MajikService {
     allowances?: MajikMoney
   ): MajikMoney {
     if (!isValidYYYYMM(month)) throw new Error("Invalid month");
-    let netRev = this.getNetRevenue(month, discounts, returns, allowances);
-    if (operatingExpenses) netRev = netRev.subtract(operatingExpenses);
-    if (taxes) netRev = netRev.subtract(taxes);
-    return netRev;
+    const taxable = this.getTaxableRevenue(
+      month,
+      discounts,
+      returns,
+      allowances
+    );
+    const preTax = this.getPreTaxIncome(
+      month,
+      operatingExpenses,
+      discounts,
+      returns,
+      allowances
+    );
+
+    let net = this.computeTaxLines(taxable, preTax)
+      .filter((line) => line.deductedFrom === TaxBase.INCOME)
+      .reduce((acc, line) => acc.subtract(line.amount), preTax)
+      .subtract(this.getAdjustmentTotal(month, AdjustmentKind.TAX));
+    if (taxes) net = net.subtract(taxes);
+    return net;
   }
 
   /**
@@ -1025,12 +4044,14 @@ export class MajikService {
 
   /* ------------------ MONTHLY FINANCE ------------------ */
 
+  /**
+   * Retrieves revenue for a given month under the active revenue model.
+   * @param month - YYYYMM month.
+   * @returns {MajikMoney} Revenue for the month.
+   */
   getRevenue(month: YYYYMM): MajikMoney {
     if (!isValidYYYYMM(month)) throw new Error("Invalid month");
-    if (!this.metadata.capacityPlan) return this.DEFAULT_ZERO();
-    const plan = this.metadata.capacityPlan.find((s) => s.month === month);
-    if (!plan) return this.DEFAULT_ZERO();
-    return this.rate.amount.multiply(plan.capacity + (plan.adjustment ?? 0));
+    return this.computeRevenue(month);
   }
 
   get cos(): readonly COSItem[] {
@@ -1041,16 +4062,65 @@ export class MajikService {
     return this.cos;
   }
 
+  /**
+   * Retrieves COS for a given month.
+   * Variable items scale with the month's units, fixed items apply once per planned month,
+   * and one-time items apply in their effective month (or the earliest planned month).
+   * Fixed-fee projects with milestones recognize the project's total COS by milestone share instead,
+   * so COS lands in the same months as the revenue.
+   * @param month - YYYYMM month.
+   * @returns {MajikMoney} COS for the month.
+   */
   getCOS(month: YYYYMM): MajikMoney {
     if (!isValidYYYYMM(month)) throw new Error("Invalid month");
-    if (!this.metadata.capacityPlan) return this.DEFAULT_ZERO();
-    const plan = this.metadata.capacityPlan.find((s) => s.month === month);
-    if (!plan) return this.DEFAULT_ZERO();
-    const perUnitCOS = this.metadata.cos.reduce(
-      (acc, c) => acc.add(c.subtotal),
-      this.DEFAULT_ZERO()
+    if (this.spreadsByMilestone(month)) {
+      return this.getFinanceMonths()
+        .reduce(
+          (acc, m) => acc.add(this.computeScheduledCOS(m)),
+          this.DEFAULT_ZERO()
+        )
+        .multiply(this.milestoneShare(month));
+    }
+    return this.computeScheduledCOS(month);
+  }
+
+  /**
+   * Returns the variable COS per capacity unit in force for a month.
+   * @param month - YYYYMM month.
+   */
+  getUnitCost(month: YYYYMM): MajikMoney {
+    if (!isValidYYYYMM(month)) throw new Error("Invalid month");
+    return this.sumVariableCOS(this.metadata.cos, month).add(
+      this.mixUnitCost(month)
+    );
+  }
+
+  /**
+   * Returns the fixed-monthly and one-time COS incurred in a month.
+   * @param month - YYYYMM month.
+   */
+  getFixedCost(month: YYYYMM): MajikMoney {
+    if (!isValidYYYYMM(month)) throw new Error("Invalid month");
+    const planned = !!this.metadata.capacityPlan?.some(
+      (s) => s.month === month
     );
-    return perUnitCOS.multiply(plan.capacity + (plan.adjustment ?? 0));
+
+    return this.metadata.cos.reduce((acc, c) => {
+      if (!isCOSItemEffective(c, month)) return acc;
+
+      if (c.behavior === COSBehavior.FIXED_MONTHLY && planned) {
+        return acc.add(this.convertMoney(c.subtotal, undefined, month));
+      }
+
+      if (
+        c.behavior === COSBehavior.ONE_TIME &&
+        (c.effectiveFrom ?? this.earliestCapacityMonth) === month
+      ) {
+        return acc.add(this.convertMoney(c.subtotal, undefined, month));
+      }
+
+      return acc;
+    }, this.DEFAULT_ZERO());
   }
 
   /**
@@ -1077,6 +4147,363 @@ export class MajikService {
           .toNumber();
   }
 
+  /* ------------------ BREAK-EVEN & SCENARIOS ------------------ */
+
+  /**
+   * Returns the units needed in a month for revenue to cover COS (variable + fixed).
+   * Only `PER_UNIT` revenue grows with units; fixed-fee models have no break-even volume.
+   * @param month - YYYYMM month.
+   * @returns The break-even units, or null if the month can never break even or the model is not `PER_UNIT`.
+   */
+  getBreakEvenCapacity(month: YYYYMM): number | null {
+    if (!isValidYYYYMM(month)) throw new Error("Invalid month");
+
+    const rate = this.getRateForMonth(month);
+    if (this.revenueModelFor(rate) !== RevenueModel.PER_UNIT) return null;
+
+    const fixed = this.getFixedCost(month).toMajor();
+    const unitCost = this.getUnitCost(month).toMajor();
+
+    const profitAt = (units: number) =>
+      this.convertMoney(priceUnits(rate, units), undefined, month).toMajor() -
+      unitCost * units -
+      fixed;
+
+    if (!rate.tiers?.length) {
+      const contribution = profitAt(1) + fixed;
+      if (contribution <= 0) return fixed <= 0 ? 0 : null;
+      return Math.max(0, fixed / contribution);
+    }
+
+    // Tiered rates: find the smallest profitable bound, then bisect
+    if (profitAt(0) >= 0) return 0;
+    let high = Math.max(1, this.getCapacityUnits(month));
+    while (profitAt(high) < 0) {
+      high *= 2;
+      if (high > 1e9) return null;
+    }
+    let low = 0;
+    for (let i = 0; i < 60; i++) {
+      const mid = (low + high) / 2;
+      if (profitAt(mid) >= 0) high = mid;
+      else low = mid;
+    }
+    return high;
+  }
+
+  /**
+   * Returns the per-unit rate at which revenue covers COS: `unitCost` plus fixed costs spread over the units.
+   * @param month - Optional YYYYMM month. Uses all months of the capacity plan if omitted.
+   * @returns The break-even rate, or null if there are no units to spread costs over.
+   */
+  getBreakEvenRate(month?: YYYYMM): MajikMoney | null {
+    if (month) {
+      if (!isValidYYYYMM(month)) throw new Error("Invalid month");
+      const units = this.getCapacityUnits(month);
+      return units > 0 ? this.getCOS(month).divide(units) : null;
+    }
+
+    const units = this.totalCapacity;
+    return units > 0 ? this.grossCost.divide(units) : null;
+  }
+
+  /**
+   * Runs a what-if scenario on a clone of the service and compares it with the current figures.
+   * The service itself is left untouched.
+   * @param scenario - Rate, COS and capacity overrides.
+   * @returns {ServiceScenarioResult} Baseline and scenario totals, plus a month-by-month comparison.
+   */
+  simulate(scenario: ServiceScenario): ServiceScenarioResult {
+    const clone = this.applyScenario(scenario);
+    const months = [
+      ...new Set([...this.getFinanceMonths(), ...clone.getFinanceMonths()]),
+    ].sort();
+
+    return {
+      label: scenario.label?.trim() || "Scenario",
+      baseline: this.scenarioTotals(),
+      scenario: clone.scenarioTotals(),
+      months: months.map((month) => {
+        const baseline = this.getMonthlySnapshot(month);
+        const changed = clone.getMonthlySnapshot(month);
+        return {
+          month,
+          baseline,
+          scenario: changed,
+          delta: {
+            revenue: changed.revenue.subtract(baseline.revenue),
+            cogs: changed.cogs.subtract(baseline.cogs),
+            profit: changed.profit.subtract(baseline.profit),
+            margin: changed.margin - baseline.margin,
+          },
+        };
+      }),
+    };
+  }
+
+  /**
+   * Returns a clone of the service with a what-if scenario applied.
+   * Overrides are written straight to the clone, so a scenario may hold values the setters reject,
+   * such as a zero rate or capacity below the booked units.
+   * @param scenario - Rate, COS and capacity overrides.
+   * @throws Will throw an error if an amount or multiplier is negative.
+   */
+  applyScenario(scenario: ServiceScenario): MajikService {
+    const clone = this.clone();
+    const { rate, cos, capacity } = scenario;
+
+    [
+      rate?.amount,
+      rate?.multiplier,
+      cos?.unitCostMultiplier,
+      cos?.quantityMultiplier,
+      capacity?.multiplier,
+    ].forEach((value) => {
+      if (value !== undefined && (!Number.isFinite(value) || value < 0)) {
+        throw new Error(
+          "Scenario amounts and multipliers must be non-negative"
+        );
+      }
+    });
+
+    if (rate?.amount !== undefined || rate?.multiplier !== undefined) {
+      const amount = rate.amount;
+      const factor = rate.multiplier ?? 1;
+
+      // A flat amount replaces tier tables; a multiplier scales every tier
+      const adjust = (r: ServiceRate): ServiceRate =>
+        amount !== undefined
+          ? {
+              ...r,
+              amount: MajikMoney.fromMajor(amount, r.amount.currency.code),
+              tiers: undefined,
+              tierMode: undefined,
+            }
+          : {
+              ...r,
+              amount: r.amount.multiply(factor),
+              tiers: r.tiers?.map((t) => ({
+                ...t,
+                amount: t.amount.multiply(factor),
+              })),
+            };
+
+      clone.rate = adjust(clone.rate);
+      clone.metadata.rate = clone.rate;
+      clone.metadata.rateSchedule = clone.metadata.rateSchedule?.map((e) => ({
+        ...e,
+        rate: adjust(e.rate),
+      }));
+    }
+
+    if (cos) {
+      clone.metadata.cos = clone.cos.map((item) => {
+        const override = cos.items?.find((o) => o.id === item.id);
+        const unitCost =
+          override?.unitCost ??
+          item.unitCost.multiply(cos.unitCostMultiplier ?? 1);
+        const quantity =
+          override?.quantity ?? item.quantity * (cos.quantityMultiplier ?? 1);
+        return {
+          ...item,
+          unitCost,
+          quantity,
+          subtotal: unitCost.multiply(quantity),
+        };
+      });
+    }
+
+    if (capacity) {
+      clone.metadata.capacityPlan = clone.capacity.map((entry) => ({
+        ...entry,
+        capacity:
+          capacity.months?.[entry.month] ??
+          entry.capacity * (capacity.multiplier ?? 1),
+      }));
+    }
+
+    clone.markFinanceDirty();
+    return clone;
+  }
+
+  private scenarioTotals(): ScenarioTotals {
+    const revenue = this.grossRevenue;
+    return {
+      revenue,
+      cogs: this.grossCost,
+      profit: this.grossProfit,
+      margin: revenue.isZero() ? 0 : this.grossProfit.ratio(revenue),
+      netRevenue: this.netRevenue,
+      netProfit: this.netProfit,
+    };
+  }
+
+  /* ------------------ EVENTS ------------------ */
+
+  /**
+   * Subscribes to a change event.
+   * @param event - `rate:changed`, `cos:*`, `capacity:updated`, `timesheet:*`, `resource:*`, `variant:*`,
+   * `status:changed`, or `change` for every notification.
+   * @param listener - Called with the event's before/after payload.
+   * @returns A function that unsubscribes the listener.
+   */
+  on<K extends ServiceEventName>(
+    event: K,
+    listener: ServiceEventListener<K>
+  ): () => void {
+    const listeners: Set<ServiceEventListener<K>> =
+      this.listeners[event] ?? new Set();
+    listeners.add(listener);
+    this.listeners[event] = listeners as ServiceEventListeners[K];
+    return () => {
+      this.off(event, listener);
+    };
+  }
+
+  /**
+   * Unsubscribes a listener from a change event.
+   * @param event - Event name.
+   * @param listener - The listener passed to `on()`.
+   */
+  off<K extends ServiceEventName>(
+    event: K,
+    listener: ServiceEventListener<K>
+  ): this {
+    this.listeners[event]?.delete(listener);
+    return this;
+  }
+
+  /**
+   * Runs several mutations and notifies subscribers once at the end.
+   * Events are coalesced per rate month, item, capacity plan, status and details, keeping the first
+   * `before` and the last `after`. Nested batches are delivered with the outermost one.
+   * @param mutate - Callback that mutates the service.
+   */
+  batch(mutate: (service: this) => void): this {
+    this.batchDepth++;
+    try {
+      mutate(this);
+    } finally {
+      this.batchDepth--;
+      if (this.batchDepth === 0) this.flushEvents();
+    }
+    return this;
+  }
+
+  private emit(event: ServiceChangeEvent): void {
+    this.pendingEvents.push(event);
+    if (this.batchDepth === 0) this.flushEvents();
+  }
+
+  private flushEvents(): void {
+    const events = coalesceServiceEvents(this.pendingEvents);
+    this.pendingEvents = [];
+    if (events.length === 0) return;
+
+    events.forEach((event) => this.notify(event.type, event));
+    this.notify("change", { events });
+  }
+
+  private notify<K extends ServiceEventName>(
+    event: K,
+    payload: ServiceEvents[K]
+  ): void {
+    this.listeners[event]?.forEach((listener) => listener(payload));
+  }
+
+  private snapshotDetails(): ServiceDetails {
+    return {
+      name: this.name,
+      category: this.category,
+      type: this.type,
+      revenueModel: this.metadata.revenueModel,
+    };
+  }
+
+  /** Emits `details:changed` if the name, category, type or revenue model override changed */
+  private emitDetailsChanged(before: ServiceDetails): void {
+    const after = this.snapshotDetails();
+    const changed = (Object.keys(after) as (keyof ServiceDetails)[]).some(
+      (key) => before[key] !== after[key]
+    );
+    if (changed) this.emit({ type: "details:changed", before, after });
+  }
+
+  /** Emits `rate:changed` for the base rate, or for the rate in force in a scheduled month */
+  private emitRateChanged(before: ServiceRate, effectiveFrom?: YYYYMM): void {
+    const after = effectiveFrom
+      ? this.getRateForMonth(effectiveFrom)
+      : this.rate;
+    this.emit({
+      type: "rate:changed",
+      before,
+      after: this.snapshotRate(after),
+      effectiveFrom,
+    });
+  }
+
+  /**
+   * Re-rolls the timesheet, emits `capacity:updated` against the last emitted plan if units or actuals
+   * changed, then syncs the booking status.
+   */
+  private onCapacityChanged(): void {
+    this.rollUpTimesheet();
+    const after = this.snapshotCapacity();
+    const before = this.capacityBaseline;
+    if (!this.isSameCapacity(before, after)) {
+      this.capacityBaseline = after;
+      this.emit({ type: "capacity:updated", before, after });
+    }
+    this.syncBookingStatus();
+  }
+
+  private emitVariantUpdated(
+    before: ServiceVariant,
+    variant: ServiceVariant
+  ): void {
+    this.emit({
+      type: "variant:updated",
+      before,
+      after: this.snapshotVariant(variant),
+    });
+  }
+
+  private snapshotRate(rate: ServiceRate): ServiceRate {
+    return { ...rate, tiers: rate.tiers?.map((t) => ({ ...t })) };
+  }
+
+  private snapshotCapacity(): MonthlyCapacity[] {
+    return this.capacity.map((s) => ({ ...s }));
+  }
+
+  /** True if two capacity snapshots hold the same months, units and actuals */
+  private isSameCapacity(a: MonthlyCapacity[], b: MonthlyCapacity[]): boolean {
+    const key = (plan: MonthlyCapacity[]) =>
+      JSON.stringify(
+        plan.map((s) => [
+          s.month,
+          s.capacity,
+          s.adjustment,
+          s.actualUnits,
+          s.loggedUnits,
+          s.actualCOS?.toMajor(),
+          s.actualCOS?.currency.code,
+        ])
+      );
+    return key(a) === key(b);
+  }
+
+  private snapshotResource(resource: ServiceResource): ServiceResource {
+    return {
+      ...resource,
+      availability: resource.availability.map((a) => ({ ...a })),
+    };
+  }
+
+  private snapshotVariant(variant: ServiceVariant): ServiceVariant {
+    return { ...variant, cos: variant.cos.map((c) => ({ ...c })) };
+  }
+
   /* ------------------ UTIL ------------------ */
 
   /**
@@ -1115,6 +4542,241 @@ export class MajikService {
     return true;
   }
 
+  /**
+   * Validates the service and returns every issue found, instead of stopping at the first one.
+   * Covers required fields, the capacity plan, COS items, drift between top-level fields and
+   * metadata/settings, and rates below the variable unit cost.
+   * @returns Issues with a code, severity, field path and message. Empty if the service is valid.
+   */
+  validate(): ServiceValidationIssue[] {
+    const issues: ServiceValidationIssue[] = [];
+    const { ERROR, WARNING } = ValidationSeverity;
+    const report = (
+      code: ValidationIssueCode,
+      severity: ValidationSeverity,
+      path: string,
+      message: string
+    ) => issues.push({ code, severity, path, message });
+
+    // Required fields
+    const required = [
+      { value: this.id, path: "id" },
+      { value: this.timestamp, path: "timestamp" },
+      { value: this.name, path: "name" },
+      {
+        value: this.metadata.description?.text,
+        path: "metadata.description.text",
+      },
+      { value: this.metadata.rate?.amount, path: "metadata.rate.amount" },
+      { value: this.metadata.rate?.unit, path: "metadata.rate.unit" },
+    ];
+    required.forEach(({ value, path }) => {
+      if (value === null || value === undefined || value === "") {
+        report(
+          ValidationIssueCode.MISSING_FIELD,
+          ERROR,
+          path,
+          "Missing required property"
+        );
+      }
+    });
+
+    if (
+      this.metadata.rate?.amount &&
+      this.metadata.rate.amount.toMajor() <= 0
+    ) {
+      report(
+        ValidationIssueCode.NON_POSITIVE_RATE,
+        WARNING,
+        "metadata.rate.amount",
+        "Rate amount is zero or negative"
+      );
+    }
+
+    // Capacity plan
+    const months = new Set<string>();
+    this.capacity.forEach((entry, index) => {
+      const path = `metadata.capacityPlan[${index}]`;
+
+      if (!isValidYYYYMM(entry.month)) {
+        report(
+          ValidationIssueCode.INVALID_MONTH,
+          ERROR,
+          `${path}.month`,
+          `Invalid month: ${entry.month}`
+        );
+      } else if (months.has(entry.month)) {
+        report(
+          ValidationIssueCode.DUPLICATE_CAPACITY_MONTH,
+          ERROR,
+          `${path}.month`,
+          `Month ${entry.month} appears more than once`
+        );
+      }
+      months.add(entry.month);
+
+      if (entry.capacity < 0) {
+        report(
+          ValidationIssueCode.NEGATIVE_CAPACITY,
+          ERROR,
+          `${path}.capacity`,
+          `Capacity for ${entry.month} is negative (${entry.capacity})`
+        );
+      } else if (entry.capacity + (entry.adjustment ?? 0) < 0) {
+        report(
+          ValidationIssueCode.NEGATIVE_UNITS,
+          ERROR,
+          `${path}.adjustment`,
+          `Adjustment drives units for ${entry.month} below zero (${
+            entry.capacity + (entry.adjustment ?? 0)
+          })`
+        );
+      }
+    });
+
+    // COS items
+    let convertible = true;
+    this.metadata.cos.forEach((item, index) => {
+      const path = `metadata.cos[${index}]`;
+
+      if (!(item.quantity > 0)) {
+        report(
+          ValidationIssueCode.COS_INVALID_QUANTITY,
+          ERROR,
+          `${path}.quantity`,
+          `Quantity of "${item.item}" must be greater than zero`
+        );
+      }
+
+      const code = item.unitCost.currency.code;
+      if (code !== this.currencyCode && !this.canConvertFrom(code)) {
+        convertible = false;
+        report(
+          ValidationIssueCode.COS_CURRENCY_MISMATCH,
+          ERROR,
+          `${path}.unitCost`,
+          `"${item.item}" is in ${code}, but no exchange rate to ${this.currencyCode} is available`
+        );
+      }
+
+      if (
+        !isCOSSubtotalConsistent(item.unitCost, item.quantity, item.subtotal)
+      ) {
+        report(
+          ValidationIssueCode.COS_SUBTOTAL_MISMATCH,
+          ERROR,
+          `${path}.subtotal`,
+          `Subtotal of "${item.item}" does not equal unitCost × quantity`
+        );
+      }
+    });
+
+    // Drift between top-level fields and metadata/settings
+    const drift = [
+      {
+        code: ValidationIssueCode.CATEGORY_DRIFT,
+        path: "category",
+        drifted: this.category !== this.metadata.category,
+        message: `category "${this.category}" differs from metadata.category "${this.metadata.category}"`,
+      },
+      {
+        code: ValidationIssueCode.TYPE_DRIFT,
+        path: "type",
+        drifted: this.type !== this.metadata.type,
+        message: `type "${this.type}" differs from metadata.type "${this.metadata.type}"`,
+      },
+      {
+        code: ValidationIssueCode.RATE_DRIFT,
+        path: "rate",
+        drifted:
+          this.rate !== this.metadata.rate &&
+          (this.rate?.unit !== this.metadata.rate?.unit ||
+            this.rate?.amount?.toMajor() !==
+              this.metadata.rate?.amount?.toMajor() ||
+            this.rate?.amount?.currency.code !==
+              this.metadata.rate?.amount?.currency.code),
+        message: "rate differs from metadata.rate",
+      },
+      {
+        code: ValidationIssueCode.STATUS_DRIFT,
+        path: "status",
+        drifted: this.status !== this.settings.status,
+        message: `status "${this.status}" differs from settings.status "${this.settings.status}"`,
+      },
+    ];
+    drift
+      .filter((d) => d.drifted)
+      .forEach((d) => report(d.code, WARNING, d.path, d.message));
+
+    // Rates below the variable unit cost of the month they apply from
+    if (convertible && this.metadata.rate?.amount) {
+      const checkRate = (
+        path: string,
+        message: string,
+        below: () => boolean
+      ) => {
+        try {
+          if (below()) {
+            report(ValidationIssueCode.RATE_BELOW_COST, WARNING, path, message);
+          }
+        } catch (error) {
+          report(
+            ValidationIssueCode.CONVERSION_FAILED,
+            WARNING,
+            path,
+            error instanceof Error ? error.message : String(error)
+          );
+        }
+      };
+
+      checkRate(
+        "metadata.rate",
+        "Effective unit rate is below the variable unit cost",
+        () => {
+          const unitCost = this.unitCost;
+          return (
+            !unitCost.isZero() && this.unitRate.toMajor() < unitCost.toMajor()
+          );
+        }
+      );
+
+      this.rateSchedule.forEach((entry, index) => {
+        if (entry.rate.unit === RateUnit.FIXED || entry.rate.tiers?.length) {
+          return;
+        }
+        checkRate(
+          `metadata.rateSchedule[${index}].rate.amount`,
+          `Rate from ${entry.effectiveFrom} is below the variable unit cost`,
+          () => {
+            const unitCost = this.getUnitCost(entry.effectiveFrom);
+            return (
+              !unitCost.isZero() &&
+              this.convertMoney(
+                entry.rate.amount,
+                undefined,
+                entry.effectiveFrom
+              ).toMajor() < unitCost.toMajor()
+            );
+          }
+        );
+      });
+    }
+
+    return issues;
+  }
+
+  /**
+   * Returns a deep copy of the service with the same ID.
+   * The copy is not validated, so services that fail `validateServiceJSON()` can still be copied.
+   * The exchange rate provider is shared with the copy.
+   */
+  clone(): MajikService {
+    const copy = MajikService.fromJSONData(
+      MajikService.readJSON(this.toJSON())
+    );
+    return copy.setExchangeRateProvider(this.exchangeRates);
+  }
+
   /**
    * Converts the current `MajikService` class to a plain JSON object and automatically generates an ID.
    * @returns {object} - A plain JSON object representation of the Service with an autogenerated ID.
@@ -1134,6 +4796,7 @@ export class MajikService {
     const preJSON: MajikServiceJSON = {
       __type: "MajikService",
       __object: "json",
+      schemaVersion: SERVICE_SCHEMA_VERSION,
       id: this.id,
       slug: this.slug,
       name: this.name,
@@ -1145,6 +4808,10 @@ export class MajikService {
       last_update: this.last_update,
       metadata: this.metadata,
       settings: this.settings,
+      exchangeRates:
+        this.exchangeRates instanceof InMemoryExchangeRateProvider
+          ? this.exchangeRates.toJSON()
+          : undefined,
     };
 
     const serializedMoney: MajikServiceJSON = serializeMoney(preJSON);
@@ -1161,6 +4828,23 @@ export class MajikService {
    */
 
   static parseFromJSON(json: string | MajikServiceJSON): MajikService {
+    const parsedData = MajikService.readJSON(json);
+
+    // Validate the full structure of the upgraded document
+    const errors = validateServiceJSON(parsedData);
+    if (errors.length > 0) {
+      throw new Error(
+        `Invalid MajikService JSON: ${errors
+          .map((e) => `${e.path}: ${e.message}`)
+          .join("; ")}`
+      );
+    }
+
+    return MajikService.fromJSONData(parsedData);
+  }
+
+  /** Copies a document, deserializes its money and upgrades it to the current schema version */
+  private static readJSON(json: string | MajikServiceJSON): MajikServiceJSON {
     // If the input is a string, parse it as JSON
     const rawParse: MajikServiceJSON =
       typeof json === "string"
@@ -1169,25 +4853,12 @@ export class MajikService {
         ? structuredClone(json)
         : JSON.parse(JSON.stringify(json));
 
-    const parsedData: MajikServiceJSON = deserializeMoney(rawParse);
-    // Validate required properties
-    if (!parsedData.id) {
-      throw new Error("Missing required property: 'id'");
-    }
-
-    if (!parsedData.timestamp) {
-      throw new Error("Missing required property: 'timestamp'");
-    }
-
-    if (!parsedData.metadata) {
-      throw new Error("Missing required property: 'Metadata'");
-    }
-
-    if (!parsedData.settings) {
-      throw new Error("Missing required property: 'Settings'");
-    }
+    return migrateServiceJSON(deserializeMoney(rawParse));
+  }
 
-    return new MajikService(
+  /** Builds a service from an upgraded document */
+  private static fromJSONData(parsedData: MajikServiceJSON): MajikService {
+    const service = new MajikService(
       parsedData.id,
       parsedData?.slug,
       parsedData.name,
@@ -1196,6 +4867,12 @@ export class MajikService {
       parsedData?.timestamp,
       parsedData?.last_update
     );
+
+    return parsedData.exchangeRates
+      ? service.setExchangeRateProvider(
+          InMemoryExchangeRateProvider.parseFromJSON(parsedData.exchangeRates)
+        )
+      : service;
   }
 
   /**
@@ -1206,6 +4883,79 @@ export class MajikService {
     this.last_update = new Date().toISOString();
   }
 
+  /** Validation rules of `setCapacity()` for a single month */
+  private assertCapacityEntry(entry: MonthlyCapacity): void {
+    if (!isValidYYYYMM(entry.month))
+      throw new Error(`Invalid month: ${entry.month}`);
+    if (typeof entry.capacity !== "number")
+      throw new Error("Capacity must be a number");
+  }
+
+  /** Validation rules of `setCOS()` for a single item */
+  private assertCOSItem(item: COSItem): void {
+    if (
+      !item.id ||
+      !item.item ||
+      !item.unitCost ||
+      item.quantity == null ||
+      !item.subtotal
+    ) {
+      throw new Error(
+        "Each COSItem must have id, item, unitCost, quantity, and subtotal"
+      );
+    }
+    if (
+      item.quantity <= 0 ||
+      !isCOSSubtotalConsistent(item.unitCost, item.quantity, item.subtotal)
+    ) {
+      throw new Error(
+        `COS item ${item.id} must have a positive quantity and subtotal = unitCost × quantity`
+      );
+    }
+    this.assertConvertible(item.unitCost);
+    this.assertCOSSchedule(item);
+  }
+
+  private assertCOSSchedule(schedule: COSSchedule): void {
+    const { behavior, effectiveFrom, effectiveUntil } = schedule;
+    if (
+      behavior !== undefined &&
+      !Object.values(COSBehavior).includes(behavior)
+    ) {
+      throw new Error("Invalid COS behavior.");
+    }
+    if (effectiveFrom && !isValidYYYYMM(effectiveFrom)) {
+      throw new Error(`Invalid month: ${effectiveFrom}`);
+    }
+    if (effectiveUntil && !isValidYYYYMM(effectiveUntil)) {
+      throw new Error(`Invalid month: ${effectiveUntil}`);
+    }
+    if (effectiveFrom && effectiveUntil && effectiveFrom > effectiveUntil) {
+      throw new Error("COS effectiveFrom must be <= effectiveUntil");
+    }
+  }
+
+  /** Allows foreign currencies only when an exchange rate provider is set */
+  private assertConvertible(money: MajikMoney): void {
+    if (money.currency.code === this.currencyCode) return;
+    if (!this.exchangeRates) {
+      throw new Error(
+        "Currency mismatch with service rate. Set an exchange rate provider to use other currencies"
+      );
+    }
+  }
+
+  /** Returns true if amounts in a currency can be converted to the service currency */
+  private canConvertFrom(currencyCode: string): boolean {
+    if (currencyCode === this.currencyCode) return true;
+    if (!this.exchangeRates) return false;
+    return [undefined, ...this.capacity.map((s) => s.month)].some(
+      (month) =>
+        this.exchangeRates!.getRate(currencyCode, this.currencyCode, month) !==
+        undefined
+    );
+  }
+
   private assertCurrency(money: MajikMoney): void {
     if (money.currency.code !== this.rate.amount.currency.code) {
       throw new Error("Currency mismatch with product SRP");
@@ -0,0 +1,256 @@
+import {
+  deserializeMoney,
+  MajikMoney,
+  serializeMoney,
+} from "@thezelijah/majik-money";
+import {
+  ISODateString,
+  MajikServiceQuoteJSON,
+  ObjectType,
+  QuoteDiscount,
+  QuoteLine,
+  ServiceID,
+  ServiceMetadata,
+  ServiceQuoteData,
+  ServiceRate,
+} from "./types";
+import { QuoteStatus, RevenueModel } from "./enums";
+
+/**
+ * An immutable quote for a service: a snapshot of its rate and description
+ * priced for a quantity or window of months.
+ * Status changes return a new quote. Create one with `MajikService.createQuote()`.
+ */
+export class MajikServiceQuote {
+  readonly __type = "MajikServiceQuote";
+  readonly __object: ObjectType = "class";
+
+  readonly id: string;
+  readonly serviceId: ServiceID;
+  readonly serviceName: string;
+  readonly client: string;
+  readonly description: Readonly<ServiceMetadata["description"]>;
+  readonly rate: Readonly<ServiceRate>;
+  readonly revenueModel: RevenueModel;
+  readonly currencyCode: string;
+  readonly lines: readonly QuoteLine[];
+  readonly discounts: readonly QuoteDiscount[];
+  readonly status: QuoteStatus;
+  readonly createdAt: ISODateString;
+  readonly expiresAt: ISODateString;
+  readonly sentAt?: ISODateString;
+  readonly acceptedAt?: ISODateString;
+  readonly notes?: string;
+
+  /**
+   * Creates a new `MajikServiceQuote` instance.
+   * @param data - Quote fields. Totals are derived from the lines and discounts.
+   */
+  constructor(data: ServiceQuoteData) {
+    this.id = data.id;
+    this.serviceId = data.serviceId;
+    this.serviceName = data.serviceName;
+    this.client = data.client;
+    this.description = Object.freeze({ ...data.description });
+    this.rate = Object.freeze({
+      ...data.rate,
+      tiers: data.rate.tiers?.map((t) => ({ ...t })),
+    });
+    this.revenueModel = data.revenueModel;
+    this.currencyCode = data.currencyCode;
+    this.lines = Object.freeze(data.lines.map((l) => ({ ...l })));
+    this.discounts = Object.freeze(data.discounts.map((d) => ({ ...d })));
+    this.status = data.status;
+    this.createdAt = data.createdAt;
+    this.expiresAt = data.expiresAt;
+    this.sentAt = data.sentAt;
+    this.acceptedAt = data.acceptedAt;
+    this.notes = data.notes;
+    Object.freeze(this);
+  }
+
+  /* ------------------ TOTALS ------------------ */
+
+  /** Total units quoted */
+  get totalUnits(): number {
+    return this.lines.reduce((sum, l) => sum + l.units, 0);
+  }
+
+  /** Sum of all lines */
+  get subtotal(): MajikMoney {
+    return this.sum(this.lines.map((l) => l.amount));
+  }
+
+  /** Sum of all quote discounts */
+  get discountTotal(): MajikMoney {
+    return this.sum(this.discounts.map((d) => d.amount));
+  }
+
+  /** Subtotal less discounts */
+  get total(): MajikMoney {
+    return this.subtotal.subtract(this.discountTotal);
+  }
+
+  /* ------------------ STATUS ------------------ */
+
+  /**
+   * Returns true if the quote is expired, or past its expiry date without being accepted.
+   * @param at - Point in time to check. Defaults to now.
+   */
+  isExpired(at: Date = new Date()): boolean {
+    if (this.status === QuoteStatus.EXPIRED) return true;
+    if (this.status === QuoteStatus.ACCEPTED) return false;
+    return at.getTime() > new Date(this.expiresAt).getTime();
+  }
+
+  /**
+   * Returns the status at a point in time, treating lapsed quotes as `EXPIRED`.
+   * @param at - Point in time to check. Defaults to now.
+   */
+  statusAt(at: Date = new Date()): QuoteStatus {
+    return this.isExpired(at) ? QuoteStatus.EXPIRED : this.status;
+  }
+
+  /**
+   * Marks a draft quote as sent.
+   * @param at - Time sent. Defaults to now.
+   * @returns A new quote with status `SENT`.
+   */
+  send(at: Date = new Date()): MajikServiceQuote {
+    this.assertStatus(QuoteStatus.DRAFT, at);
+    return this.with({ status: QuoteStatus.SENT, sentAt: at.toISOString() });
+  }
+
+  /**
+   * Marks a sent quote as accepted. Accepted quotes can be booked with `MajikService.bookQuote()`.
+   * @param at - Time accepted. Defaults to now.
+   * @returns A new quote with status `ACCEPTED`.
+   * @throws Will throw an error if the quote was not sent or has expired.
+   */
+  accept(at: Date = new Date()): MajikServiceQuote {
+    this.assertStatus(QuoteStatus.SENT, at);
+    return this.with({
+      status: QuoteStatus.ACCEPTED,
+      acceptedAt: at.toISOString(),
+    });
+  }
+
+  /**
+   * Marks a draft or sent quote as expired.
+   * @returns A new quote with status `EXPIRED`.
+   */
+  expire(): MajikServiceQuote {
+    if (this.status !== QuoteStatus.DRAFT && this.status !== QuoteStatus.SENT) {
+      throw new Error(`Cannot expire a quote with status ${this.status}`);
+    }
+    return this.with({ status: QuoteStatus.EXPIRED });
+  }
+
+  /* ------------------ UTIL ------------------ */
+
+  /**
+   * Converts the quote to a plain JSON object, including its totals.
+   * @returns {MajikServiceQuoteJSON} - The plain object representation of the quote.
+   */
+  toJSON(): MajikServiceQuoteJSON {
+    const preJSON: MajikServiceQuoteJSON = {
+      __type: "MajikServiceQuote",
+      __object: "json",
+      ...this.toData(),
+      subtotal: this.subtotal,
+      discountTotal: this.discountTotal,
+      total: this.total,
+    };
+
+    return serializeMoney(preJSON);
+  }
+
+  /**
+   * Static method to parse a JSON string or object into a `MajikServiceQuote` instance.
+   * Stored totals are ignored and recomputed.
+   *
+   * @param json - A JSON string or plain object to be parsed.
+   * @returns {MajikServiceQuote} - A new quote based on the parsed JSON.
+   * @throws Will throw an error if required properties are missing.
+   */
+  static parseFromJSON(
+    json: string | MajikServiceQuoteJSON
+  ): MajikServiceQuote {
+    const rawParse: MajikServiceQuoteJSON =
+      typeof json === "string"
+        ? JSON.parse(json)
+        : structuredClone
+        ? structuredClone(json)
+        : JSON.parse(JSON.stringify(json));
+
+    const parsedData: MajikServiceQuoteJSON = deserializeMoney(rawParse);
+
+    if (!parsedData.id) {
+      throw new Error("Missing required property: 'id'");
+    }
+
+    if (!parsedData.rate) {
+      throw new Error("Missing required property: 'rate'");
+    }
+
+    if (!Array.isArray(parsedData.lines)) {
+      throw new Error("Missing required property: 'lines'");
+    }
+
+    return new MajikServiceQuote({
+      ...parsedData,
+      discounts: parsedData.discounts ?? [],
+    });
+  }
+
+  private toData(): ServiceQuoteData {
+    return {
+      id: this.id,
+      serviceId: this.serviceId,
+      serviceName: this.serviceName,
+      client: this.client,
+      description: { ...this.description },
+      rate: { ...this.rate },
+      revenueModel: this.revenueModel,
+      currencyCode: this.currencyCode,
+      lines: [...this.lines],
+      discounts: [...this.discounts],
+      status: this.status,
+      createdAt: this.createdAt,
+      expiresAt: this.expiresAt,
+      sentAt: this.sentAt,
+      acceptedAt: this.acceptedAt,
+      notes: this.notes,
+    };
+  }
+
+  private with(changes: Partial<ServiceQuoteData>): MajikServiceQuote {
+    return new MajikServiceQuote({ ...this.toData(), ...changes });
+  }
+
+  private assertStatus(expected: QuoteStatus, at: Date): void {
+    if (this.status !== expected) {
+      throw new Error(`Quote must be ${expected}, but is ${this.status}`);
+    }
+    if (this.isExpired(at)) throw new Error(`Quote ${this.id} has expired`);
+  }
+
+  private sum(amounts: MajikMoney[]): MajikMoney {
+    return amounts.reduce(
+      (acc, amount) => acc.add(amount),
+      MajikMoney.zero(this.currencyCode)
+    );
+  }
+}
+
+export function isMajikServiceQuoteClass(
+  item: MajikServiceQuote | MajikServiceQuoteJSON
+): boolean {
+  return item.__object === "class";
+}
+
+export function isMajikServiceQuoteJSON(
+  item: MajikServiceQuote | MajikServiceQuoteJSON
+): boolean {
+  return item.__object === "json";
+}
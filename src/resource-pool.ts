@@ -0,0 +1,548 @@
+import { MajikMoney } from "@thezelijah/majik-money";
+import type { MajikService } from "./majik-service";
+import type { MajikWorkingCalendar } from "./working-calendar";
+import {
+  CapacityRebalanceProposal,
+  MajikResourcePoolJSON,
+  PoolResource,
+  ResourceAllocationLine,
+  ResourceAllocationReport,
+  ResourceAvailability,
+  ServiceID,
+  ServiceResource,
+  StartDateInput,
+  MonthlyCapacity,
+  YYYYMM,
+} from "./types";
+import { RateUnit, ResourceKind } from "./enums";
+import { autogenerateID, isValidYYYYMM } from "./utils";
+
+/**
+ * A pool of people and equipment shared by several services.
+ * The pool owns each resource's availability; services own their allocation of it.
+ * Reports allocations across services and flags months where a resource is over-allocated.
+ */
+export class MajikResourcePool {
+  readonly __type = "MajikResourcePool";
+
+  /** Unique pool ID */
+  id: string;
+
+  /** Name of the pool */
+  name: string;
+
+  /** Unit of all availability in the pool: PER_HOUR or PER_DAY */
+  readonly unit: RateUnit;
+
+  private items: PoolResource[] = [];
+
+  /** Registered services (not serialized) */
+  private members: MajikService[] = [];
+
+  /**
+   * Creates a new resource pool.
+   * @param id - Optional pool ID. Auto-generated if undefined.
+   * @param name - Pool name.
+   * @param unit - Unit of availability: PER_HOUR or PER_DAY. Defaults to PER_HOUR.
+   * @param resources - Initial resources.
+   */
+  constructor(
+    id: string | undefined,
+    name: string,
+    unit: RateUnit = RateUnit.PER_HOUR,
+    resources: PoolResource[] = []
+  ) {
+    if (unit !== RateUnit.PER_HOUR && unit !== RateUnit.PER_DAY) {
+      throw new Error(
+        `Resource pools are measured in ${RateUnit.PER_HOUR} or ${RateUnit.PER_DAY}`
+      );
+    }
+    this.id = id || autogenerateID("mjkspool");
+    this.name = name;
+    this.unit = unit;
+    resources.forEach((r) => {
+      this.assertResource(r.name, r.kind, r.availability);
+      this.items.push({ ...r, availability: sortByMonth(r.availability) });
+    });
+  }
+
+  /* ------------------ RESOURCES ------------------ */
+
+  /** Returns all pool resources */
+  get resources(): readonly PoolResource[] {
+    return this.items;
+  }
+
+  /** Returns all registered services */
+  get services(): readonly MajikService[] {
+    return this.members;
+  }
+
+  /**
+   * Adds a resource to the pool.
+   * @param name - Person or equipment name.
+   * @param kind - PERSON or EQUIPMENT.
+   * @param availability - Units available per month, in the pool's unit.
+   * @returns The new pool resource ID.
+   */
+  addResource(
+    name: string,
+    kind: ResourceKind,
+    availability: ResourceAvailability[] = []
+  ): string {
+    this.assertResource(name, kind, availability);
+    const id = autogenerateID("mjksres");
+    this.items.push({
+      id,
+      name,
+      kind,
+      availability: sortByMonth(availability),
+    });
+    return id;
+  }
+
+  /**
+   * Sets a resource's availability for a month and pushes it to every assigned service.
+   * @param resourceId - Pool resource ID.
+   * @param month - YYYYMM month.
+   * @param units - Units available, in the pool's unit.
+   */
+  setAvailability(resourceId: string, month: YYYYMM, units: number): this {
+    const resource = this.findResource(resourceId);
+    this.assertAvailability([{ month, units }]);
+
+    resource.availability = sortByMonth([
+      ...resource.availability.filter((a) => a.month !== month),
+      { month, units },
+    ]);
+    this.links(resourceId).forEach(({ service, resource: r }) =>
+      service.setResourceAvailability(r.id, month, units)
+    );
+    return this;
+  }
+
+  /**
+   * Replaces a resource's availability with the working time of a calendar
+   * and pushes it to every assigned service.
+   * @param resourceId - Pool resource ID.
+   * @param calendar - Working calendar of the resource.
+   * @param months - Number of months to generate from the start date.
+   * @param startDate - Date | ISO date | YYYYMM. Defaults to current month.
+   */
+  setAvailabilityFromCalendar(
+    resourceId: string,
+    calendar: MajikWorkingCalendar,
+    months: number,
+    startDate?: StartDateInput
+  ): this {
+    const resource = this.findResource(resourceId);
+
+    resource.availability = calendar
+      .generateCapacity(months, this.unit, startDate)
+      .map((c) => ({ month: c.month, units: c.capacity }));
+    this.links(resourceId).forEach(({ service, resource: r }) =>
+      service.setResourceAvailabilityFromCalendar(
+        r.id,
+        calendar,
+        months,
+        startDate
+      )
+    );
+    return this;
+  }
+
+  /**
+   * Removes a resource from the pool and from every service it is assigned to.
+   * @param resourceId - Pool resource ID.
+   */
+  removeResource(resourceId: string): this {
+    this.findResource(resourceId);
+    this.links(resourceId).forEach(({ service, resource }) =>
+      service.removeResource(resource.id)
+    );
+    this.items = this.items.filter((r) => r.id !== resourceId);
+    return this;
+  }
+
+  /* ------------------ SERVICES ------------------ */
+
+  /**
+   * Registers a service so its pool assignments are included in reports.
+   * @param service - Service billed in the pool's unit.
+   */
+  register(service: MajikService): this {
+    if (this.members.some((s) => s.id === service.id)) {
+      throw new Error(`Service ${service.id} is already registered`);
+    }
+    if (service.rate.unit !== this.unit) {
+      throw new Error(
+        `Service ${service.id} is billed ${service.rate.unit}, but the pool is measured ${this.unit}`
+      );
+    }
+    this.members.push(service);
+    return this;
+  }
+
+  /**
+   * Unregisters a service. Its resources stay assigned but are no longer reported.
+   * @param id - Service ID.
+   */
+  unregister(id: ServiceID): this {
+    this.members = this.members.filter((s) => s.id !== id);
+    return this;
+  }
+
+  /**
+   * Assigns a pool resource to a service, registering the service if needed.
+   * The service gets its own resource with the pool's availability, so its
+   * capacity plan and labor COS follow the allocation.
+   * @param service - Service to assign to.
+   * @param resourceId - Pool resource ID.
+   * @param allocation - Share of the resource's availability for this service, in (0, 1].
+   * @param costRate - Optional cost per unit, used for the service's labor COS.
+   */
+  assign(
+    service: MajikService,
+    resourceId: string,
+    allocation: number,
+    costRate?: MajikMoney
+  ): this {
+    const resource = this.findResource(resourceId);
+    if (!this.members.includes(service)) this.register(service);
+    if (service.resources.some((r) => r.poolResourceId === resourceId)) {
+      throw new Error(
+        `Resource ${resourceId} is already assigned to service ${service.id}`
+      );
+    }
+
+    service.addResource(
+      resource.name,
+      resource.kind,
+      allocation,
+      resource.availability.map((a) => ({ ...a })),
+      costRate,
+      resourceId
+    );
+    return this;
+  }
+
+  /**
+   * Removes a pool resource from a service.
+   * @param service - Service the resource is assigned to.
+   * @param resourceId - Pool resource ID.
+   */
+  unassign(service: MajikService, resourceId: string): this {
+    const assigned = service.resources.find(
+      (r) => r.poolResourceId === resourceId
+    );
+    if (!assigned) {
+      throw new Error(
+        `Resource ${resourceId} is not assigned to service ${service.id}`
+      );
+    }
+    service.removeResource(assigned.id);
+    return this;
+  }
+
+  /* ------------------ REPORTS ------------------ */
+
+  /**
+   * Returns the allocation of every pool resource across registered services, per month.
+   * Months where a resource has neither availability nor allocations are omitted.
+   * @param month - Optional YYYYMM month. Covers every month with availability if omitted.
+   */
+  getAllocationReport(month?: YYYYMM): ResourceAllocationReport[] {
+    if (month !== undefined && !isValidYYYYMM(month)) {
+      throw new Error("Invalid month");
+    }
+
+    return (month ? [month] : this.months).flatMap((m) =>
+      this.items
+        .map((r) => this.report(r, m))
+        .filter((r) => r.available > 0 || r.allocated > 0)
+    );
+  }
+
+  /**
+   * Returns the reports of resources allocated beyond their availability.
+   * @param month - Optional YYYYMM month.
+   */
+  getOverAllocations(month?: YYYYMM): ResourceAllocationReport[] {
+    return this.getAllocationReport(month).filter((r) => r.overAllocated);
+  }
+
+  /**
+   * Returns the months in which any resource is over-allocated.
+   */
+  get overAllocatedMonths(): YYYYMM[] {
+    return [...new Set(this.getOverAllocations().map((r) => r.month))];
+  }
+
+  /**
+   * Proposes reduced capacity per service and month that removes every over-allocation.
+   * The planned units of each service drawing on an over-allocated resource are scaled by the
+   * resource's availability over its allocated units, using the tightest resource of the month.
+   * Nothing is changed.
+   * @returns One proposal per service and month that needs less capacity, sorted by month.
+   */
+  proposeRebalance(): CapacityRebalanceProposal[] {
+    const cuts = new Map<
+      string,
+      { service: MajikService; month: YYYYMM; keep: number }
+    >();
+
+    this.getOverAllocations().forEach((report) => {
+      const keep = report.available / report.allocated;
+      report.services.forEach((line) => {
+        const key = `${line.serviceId}:${report.month}`;
+        const existing = cuts.get(key);
+        if (existing) {
+          existing.keep = Math.min(existing.keep, keep);
+          return;
+        }
+        const service = this.members.find((s) => s.id === line.serviceId)!;
+        cuts.set(key, { service, month: report.month, keep });
+      });
+    });
+
+    return [...cuts.values()]
+      .map(({ service, month, keep }) => {
+        const entry = service.capacity.find((c) => c.month === month)!;
+        const cut = plannedUnits(entry) * (1 - keep);
+        const proposed = Math.max(0, floorUnits(entry.capacity - cut));
+        return {
+          serviceId: service.id,
+          serviceName: service.name,
+          month,
+          current: entry.capacity,
+          proposed,
+          reduction: roundUnits(entry.capacity - proposed),
+        };
+      })
+      .filter((p) => p.reduction > 0)
+      .sort(
+        (a, b) =>
+          a.month.localeCompare(b.month) ||
+          a.serviceName.localeCompare(b.serviceName)
+      );
+  }
+
+  /**
+   * Sets each proposal's month of its service to the proposed capacity.
+   * Every proposal is checked before any is applied, so a failed check changes nothing.
+   * @param proposals - Proposals to apply. Defaults to `proposeRebalance()`.
+   * @throws If a proposal's service is not registered, its month is not planned, or the proposed
+   * capacity would drop the month below its booked units.
+   */
+  applyRebalance(
+    proposals: CapacityRebalanceProposal[] = this.proposeRebalance()
+  ): this {
+    const changes = proposals.map((p) => {
+      const service = this.members.find((s) => s.id === p.serviceId);
+      if (!service) throw new Error(`Service ${p.serviceId} is not registered`);
+
+      const entry = service.capacity.find((c) => c.month === p.month);
+      if (!entry) {
+        throw new Error(
+          `Month ${p.month} is not in the capacity plan of service ${p.serviceId}`
+        );
+      }
+      if (!Number.isFinite(p.proposed) || p.proposed < 0) {
+        throw new Error("Proposed capacity must be a non-negative number");
+      }
+
+      const booked = service.getBookedUnits(p.month);
+      if (p.proposed + (entry.adjustment ?? 0) < booked) {
+        throw new Error(
+          `Capacity for ${p.month} of service ${p.serviceId} cannot drop below its ${booked} booked units`
+        );
+      }
+      return { service, month: p.month, capacity: p.proposed };
+    });
+
+    changes.forEach(({ service, month, capacity }) =>
+      service.updateCapacityUnits(month, capacity)
+    );
+    return this;
+  }
+
+  /* ------------------ UTIL ------------------ */
+
+  /**
+   * Converts the pool to a plain JSON object. Registered services are not included.
+   * @returns {MajikResourcePoolJSON} - The plain object representation of the pool.
+   */
+  toJSON(): MajikResourcePoolJSON {
+    return {
+      __type: "MajikResourcePool",
+      id: this.id,
+      name: this.name,
+      unit: this.unit,
+      resources: this.items.map((r) => ({
+        ...r,
+        availability: r.availability.map((a) => ({ ...a })),
+      })),
+    };
+  }
+
+  /**
+   * Static method to parse a JSON string or object into a `MajikResourcePool`.
+   * Services are not stored with the pool; register them again after parsing.
+   *
+   * @param json - A JSON string or plain object to be parsed.
+   * @returns {MajikResourcePool} - A new pool with the parsed resources.
+   * @throws Will throw an error if required properties are missing.
+   */
+  static parseFromJSON(
+    json: string | MajikResourcePoolJSON
+  ): MajikResourcePool {
+    const parsed: MajikResourcePoolJSON =
+      typeof json === "string" ? JSON.parse(json) : json;
+
+    if (!parsed?.id) {
+      throw new Error("Missing required property: 'id'");
+    }
+
+    if (!Array.isArray(parsed.resources)) {
+      throw new Error("Missing required property: 'resources'");
+    }
+
+    return new MajikResourcePool(
+      parsed.id,
+      parsed.name,
+      parsed.unit,
+      parsed.resources
+    );
+  }
+
+  /** Months with pool availability or assigned service availability, sorted */
+  private get months(): YYYYMM[] {
+    const months = new Set<YYYYMM>();
+    this.items.forEach((r) => {
+      r.availability.forEach((a) => months.add(a.month));
+      this.links(r.id).forEach(({ resource }) =>
+        resource.availability.forEach((a) => months.add(a.month))
+      );
+    });
+    return [...months].sort();
+  }
+
+  private report(
+    resource: PoolResource,
+    month: YYYYMM
+  ): ResourceAllocationReport {
+    const available =
+      resource.availability.find((a) => a.month === month)?.units ?? 0;
+
+    const lines: ResourceAllocationLine[] = this.links(resource.id)
+      .map(({ service, resource: r }) => ({
+        serviceId: service.id,
+        serviceName: service.name,
+        resourceId: r.id,
+        allocation: r.allocation,
+        units: this.drawnUnits(service, r, month),
+      }))
+      .filter((l) => l.units > 0);
+
+    // Summed before rounding, so a rebalanced month never reports a rounding excess
+    const allocated = roundUnits(lines.reduce((sum, l) => sum + l.units, 0));
+    const services = lines.map((l) => ({ ...l, units: roundUnits(l.units) }));
+    const excess = Math.max(0, roundUnits(allocated - available));
+
+    return {
+      month,
+      resourceId: resource.id,
+      resourceName: resource.name,
+      available,
+      allocated,
+      utilization: available > 0 ? allocated / available : null,
+      overAllocated: excess > 0,
+      excess,
+      services,
+    };
+  }
+
+  /**
+   * Returns the planned units a service draws from one of its resources in a month:
+   * its planned units, split across its resources by allocated units. Capacity entered
+   * by hand, adjustments and applied rebalances all count.
+   */
+  private drawnUnits(
+    service: MajikService,
+    resource: ServiceResource,
+    month: YYYYMM
+  ): number {
+    const total = service.getAllocatedUnits(month);
+    const entry = service.capacity.find((c) => c.month === month);
+    if (total <= 0 || !entry) return 0;
+    return (
+      (service.getAllocatedUnits(month, resource.id) / total) *
+      plannedUnits(entry)
+    );
+  }
+
+  /** Returns the registered services' resources linked to a pool resource */
+  private links(
+    resourceId: string
+  ): { service: MajikService; resource: ServiceResource }[] {
+    return this.members.flatMap((service) =>
+      service.resources
+        .filter((r) => r.poolResourceId === resourceId)
+        .map((resource) => ({ service, resource }))
+    );
+  }
+
+  private findResource(id: string): PoolResource {
+    const resource = this.items.find((r) => r.id === id);
+    if (!resource) throw new Error(`Resource ${id} not found`);
+    return resource;
+  }
+
+  private assertResource(
+    name: string,
+    kind: ResourceKind,
+    availability: ResourceAvailability[]
+  ): void {
+    if (!name?.trim()) throw new Error("Resource name cannot be empty");
+    if (!Object.values(ResourceKind).includes(kind)) {
+      throw new Error("Invalid resource kind");
+    }
+    this.assertAvailability(availability);
+  }
+
+  private assertAvailability(availability: ResourceAvailability[]): void {
+    const months = new Set<string>();
+    availability.forEach(({ month, units }) => {
+      if (!isValidYYYYMM(month)) throw new Error("Invalid month");
+      if (months.has(month)) {
+        throw new Error(`Duplicate availability for ${month}`);
+      }
+      if (!Number.isFinite(units) || units < 0) {
+        throw new Error("Availability units must be a non-negative number");
+      }
+      months.add(month);
+    });
+  }
+}
+
+function sortByMonth(
+  availability: ResourceAvailability[]
+): ResourceAvailability[] {
+  return availability
+    .map((a) => ({ ...a }))
+    .sort((a, b) => a.month.localeCompare(b.month));
+}
+
+/** Units a planned month offers: capacity plus its adjustment */
+function plannedUnits(entry: MonthlyCapacity): number {
+  return Math.max(0, entry.capacity + (entry.adjustment ?? 0));
+}
+
+/** Rounds units down to 2 decimals, so a proposed capacity never exceeds availability */
+function floorUnits(units: number): number {
+  return Math.floor(units * 100 + 1e-9) / 100;
+}
+
+function roundUnits(units: number): number {
+  return Math.round(units * 100) / 100;
+}
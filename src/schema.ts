@@ -0,0 +1,611 @@
+import { MajikMoney } from "@thezelijah/majik-money";
+import { MajikServiceJSON, ServiceJSONError, ServiceMigration } from "./types";
+import {
+  AdjustmentKind,
+  COSBehavior,
+  RateUnit,
+  ResourceKind,
+  RevenueModel,
+  ServiceStatus,
+  ServiceType,
+  ServiceVisibility,
+  TaxBase,
+  TaxKind,
+  TierMode,
+  VariantKind,
+} from "./enums";
+import {
+  createEmptyServiceFinance,
+  isCOSSubtotalConsistent,
+  isValidYYYYMM,
+} from "./utils";
+
+/**
+ * Current version of the `MajikServiceJSON` format.
+ * Documents without `schemaVersion` are treated as version 1.
+ */
+export const SERVICE_SCHEMA_VERSION = 2;
+
+const migrations = new Map<number, ServiceMigration>();
+
+/**
+ * Registers a migration that upgrades documents from `version - 1` to `version`.
+ * Replaces any migration registered for the same version.
+ * @param migration - The migration to register.
+ */
+export function registerServiceMigration(migration: ServiceMigration): void {
+  if (!Number.isInteger(migration.version) || migration.version < 2) {
+    throw new Error("Migration version must be an integer of at least 2");
+  }
+  migrations.set(migration.version, migration);
+}
+
+/**
+ * Returns the registered migrations, sorted by version.
+ */
+export function getServiceMigrations(): ServiceMigration[] {
+  return [...migrations.values()].sort((a, b) => a.version - b.version);
+}
+
+/**
+ * Upgrades a service document to the current schema version.
+ * Runs after money deserialization, so amounts are `MajikMoney` instances.
+ *
+ * @param json - A service document of any supported version.
+ * @returns The document in the current shape, with `schemaVersion` set.
+ * @throws Will throw an error if the document is newer than supported or a migration is missing.
+ */
+export function migrateServiceJSON(
+  json: Record<string, unknown>
+): MajikServiceJSON {
+  const declared = json.schemaVersion ?? 1;
+  if (
+    typeof declared !== "number" ||
+    !Number.isInteger(declared) ||
+    declared < 1
+  ) {
+    throw new Error(`Invalid schemaVersion: ${json.schemaVersion}`);
+  }
+  let version = declared;
+  if (version > SERVICE_SCHEMA_VERSION) {
+    throw new Error(
+      `schemaVersion ${version} is newer than the supported version ${SERVICE_SCHEMA_VERSION}`
+    );
+  }
+
+  let doc = json;
+  while (version < SERVICE_SCHEMA_VERSION) {
+    const migration = migrations.get(version + 1);
+    if (!migration) {
+      throw new Error(
+        `No migration registered to schemaVersion ${version + 1}`
+      );
+    }
+    doc = migration.migrate(doc);
+    version++;
+  }
+
+  return { ...doc, schemaVersion: version } as MajikServiceJSON;
+}
+
+/**
+ * Validates the structure of a (migrated, deserialized) service document.
+ *
+ * @param json - The document to validate.
+ * @returns Path-annotated errors, e.g. `metadata.capacityPlan[2].month`. Empty if valid.
+ */
+export function validateServiceJSON(json: unknown): ServiceJSONError[] {
+  const errors: ServiceJSONError[] = [];
+  const fail = (path: string, message: string) =>
+    errors.push({ path, message });
+
+  if (!isObject(json)) {
+    fail("", "Expected an object");
+    return errors;
+  }
+
+  requireString(json, "id", "", fail);
+  requireString(json, "name", "", fail, true);
+  optionalString(json, "slug", "", fail);
+  requireDate(json, "timestamp", "", fail);
+  if (json.last_update !== undefined)
+    requireDate(json, "last_update", "", fail);
+  optionalEnum(json, "status", ServiceStatus, "", fail);
+  optionalEnum(json, "type", ServiceType, "", fail);
+
+  const metadata = json.metadata;
+  if (!isObject(metadata)) {
+    fail("metadata", "Missing required property");
+  } else {
+    validateMetadata(metadata, fail);
+  }
+
+  const settings = json.settings;
+  if (!isObject(settings)) {
+    fail("settings", "Missing required property");
+  } else {
+    requireEnum(settings, "status", ServiceStatus, "settings", fail);
+    requireEnum(settings, "visibility", ServiceVisibility, "settings", fail);
+    eachItem(settings, "statusHistory", "settings", fail, (entry, path) => {
+      requireEnum(entry, "from", ServiceStatus, path, fail);
+      requireEnum(entry, "to", ServiceStatus, path, fail);
+      requireDate(entry, "timestamp", path, fail);
+    });
+  }
+
+  if (json.exchangeRates !== undefined) {
+    if (!isObject(json.exchangeRates)) {
+      fail("exchangeRates", "Expected an object");
+    } else if (!Array.isArray(json.exchangeRates.rates)) {
+      fail("exchangeRates.rates", "Expected an array");
+    } else {
+      eachItem(
+        json.exchangeRates,
+        "rates",
+        "exchangeRates",
+        fail,
+        (entry, path) => {
+          requireString(entry, "from", path, fail);
+          requireString(entry, "to", path, fail);
+          if (!isFiniteNumber(entry.rate) || entry.rate <= 0) {
+            fail(join(path, "rate"), "Expected a positive number");
+          }
+          optionalMonth(entry, "month", path, fail);
+        }
+      );
+    }
+  }
+
+  return errors;
+}
+
+/* ------------------ BUILT-IN MIGRATIONS ------------------ */
+
+registerServiceMigration({
+  version: 2,
+  description:
+    "Mirror top-level fields into metadata, normalize legacy shapes and add missing finance",
+  migrate: (json) => {
+    const metadata: JSONObject = isObject(json.metadata)
+      ? { ...json.metadata }
+      : {};
+
+    metadata.type ??= json.type;
+    metadata.category ??= json.category;
+    metadata.rate ??= json.rate;
+
+    // Legacy plain-text descriptions
+    if (typeof metadata.description === "string") {
+      metadata.description = { text: metadata.description };
+    }
+    metadata.description ??= { text: "" };
+    metadata.cos ??= [];
+
+    // Legacy capacity entries stored `hours` instead of `capacity`
+    if (Array.isArray(metadata.capacityPlan)) {
+      metadata.capacityPlan = metadata.capacityPlan.map((entry: unknown) => {
+        if (
+          !isObject(entry) ||
+          entry.capacity !== undefined ||
+          entry.hours === undefined
+        ) {
+          return entry;
+        }
+        const { hours, ...rest } = entry;
+        return { ...rest, capacity: hours };
+      });
+    }
+
+    if (!metadata.finance) {
+      const rate = metadata.rate;
+      if (isObject(rate) && isMoney(rate.amount)) {
+        metadata.finance = createEmptyServiceFinance(rate.amount.currency.code);
+      }
+    }
+
+    const settings: JSONObject = isObject(json.settings)
+      ? { ...json.settings }
+      : {};
+    settings.status ??= json.status ?? ServiceStatus.ACTIVE;
+    settings.visibility ??= ServiceVisibility.PRIVATE;
+
+    return { ...json, metadata, settings };
+  },
+});
+
+/* ------------------ VALIDATORS ------------------ */
+
+type Fail = (path: string, message: string) => void;
+type JSONObject = Record<string, unknown>;
+
+function validateMetadata(metadata: JSONObject, fail: Fail): void {
+  const at = "metadata";
+
+  requireEnum(metadata, "type", ServiceType, at, fail);
+  requireString(metadata, "category", at, fail, true);
+  optionalString(metadata, "sku", at, fail);
+  optionalEnum(metadata, "revenueModel", RevenueModel, at, fail);
+
+  if (!isObject(metadata.description)) {
+    fail(`${at}.description`, "Missing required property");
+  } else {
+    requireString(
+      metadata.description,
+      "text",
+      `${at}.description`,
+      fail,
+      true
+    );
+  }
+
+  if (!isObject(metadata.rate)) {
+    fail(`${at}.rate`, "Missing required property");
+  } else {
+    validateRate(metadata.rate, `${at}.rate`, fail);
+  }
+
+  if (!isObject(metadata.finance)) {
+    fail(`${at}.finance`, "Missing required property");
+  }
+
+  if (!Array.isArray(metadata.cos)) {
+    fail(`${at}.cos`, "Expected an array");
+  }
+  eachItem(metadata, "cos", at, fail, (item, path) =>
+    validateCOSItem(item, path, fail)
+  );
+
+  const months = new Set<string>();
+  eachItem(metadata, "capacityPlan", at, fail, (entry, path) => {
+    if (
+      requireMonth(entry, "month", path, fail) &&
+      typeof entry.month === "string"
+    ) {
+      if (months.has(entry.month)) fail(`${path}.month`, "Duplicate month");
+      months.add(entry.month);
+    }
+    if (!isFiniteNumber(entry.capacity)) {
+      fail(`${path}.capacity`, "Expected a number");
+    }
+    optionalNumber(entry, "adjustment", path, fail);
+    optionalNumber(entry, "actualUnits", path, fail, 0);
+    optionalNumber(entry, "loggedUnits", path, fail, 0);
+    if (entry.actualCOS !== undefined)
+      requireMoney(entry, "actualCOS", path, fail);
+  });
+
+  eachItem(metadata, "rateSchedule", at, fail, (entry, path) => {
+    requireMonth(entry, "effectiveFrom", path, fail);
+    if (!isObject(entry.rate)) {
+      fail(`${path}.rate`, "Missing required property");
+    } else {
+      validateRate(entry.rate, `${path}.rate`, fail);
+    }
+  });
+
+  eachItem(metadata, "milestones", at, fail, (m, path) => {
+    requireString(m, "id", path, fail);
+    requireString(m, "name", path, fail, true);
+    requireMonth(m, "month", path, fail);
+    if (!isFiniteNumber(m.share) || m.share <= 0 || m.share > 1) {
+      fail(`${path}.share`, "Expected a number in (0, 1]");
+    }
+  });
+
+  eachItem(metadata, "bookings", at, fail, (b, path) => {
+    requireString(b, "id", path, fail);
+    requireString(b, "client", path, fail, true);
+    requireMonth(b, "month", path, fail);
+    if (!isFiniteNumber(b.units) || b.units <= 0) {
+      fail(`${path}.units`, "Expected a number greater than zero");
+    }
+  });
+
+  eachItem(metadata, "adjustments", at, fail, (a, path) => {
+    requireString(a, "id", path, fail);
+    requireEnum(a, "kind", AdjustmentKind, path, fail);
+    requireString(a, "label", path, fail);
+    requireMoney(a, "amount", path, fail);
+    optionalMonth(a, "month", path, fail);
+    if (a.recurring !== undefined) {
+      if (!isObject(a.recurring)) {
+        fail(`${path}.recurring`, "Expected an object");
+      } else {
+        optionalMonth(a.recurring, "start", `${path}.recurring`, fail);
+        optionalMonth(a.recurring, "end", `${path}.recurring`, fail);
+      }
+    }
+  });
+
+  eachItem(metadata, "taxRules", at, fail, (t, path) => {
+    requireString(t, "id", path, fail);
+    requireString(t, "name", path, fail, true);
+    requireEnum(t, "kind", TaxKind, path, fail);
+    requireEnum(t, "appliesTo", TaxBase, path, fail);
+    if (!isFiniteNumber(t.rate) || t.rate < 0 || t.rate >= 1) {
+      fail(`${path}.rate`, "Expected a number in [0, 1)");
+    }
+    if (typeof t.inclusive !== "boolean") {
+      fail(`${path}.inclusive`, "Expected a boolean");
+    }
+  });
+
+  eachItem(metadata, "timesheet", at, fail, (e, path) => {
+    requireString(e, "id", path, fail);
+    requireDate(e, "date", path, fail);
+    requireMonth(e, "month", path, fail);
+    requireString(e, "resource", path, fail, true);
+    if (!isFiniteNumber(e.hours) || e.hours <= 0) {
+      fail(`${path}.hours`, "Expected a number greater than zero");
+    }
+    if (typeof e.billable !== "boolean") {
+      fail(`${path}.billable`, "Expected a boolean");
+    }
+    optionalNumber(e, "sessions", path, fail, 0);
+  });
+
+  eachItem(metadata, "resources", at, fail, (r, path) => {
+    requireString(r, "id", path, fail);
+    requireString(r, "name", path, fail, true);
+    requireEnum(r, "kind", ResourceKind, path, fail);
+    if (
+      !isFiniteNumber(r.allocation) ||
+      r.allocation <= 0 ||
+      r.allocation > 1
+    ) {
+      fail(`${path}.allocation`, "Expected a number in (0, 1]");
+    }
+    if (r.availability === undefined) {
+      fail(`${path}.availability`, "Missing required property");
+    }
+    eachItem(r, "availability", path, fail, (a, availabilityPath) => {
+      requireMonth(a, "month", availabilityPath, fail);
+      if (!isFiniteNumber(a.units) || a.units < 0) {
+        fail(`${availabilityPath}.units`, "Expected a number >= 0");
+      }
+    });
+    if (r.costRate !== undefined) requireMoney(r, "costRate", path, fail);
+    optionalString(r, "poolResourceId", path, fail);
+  });
+
+  eachItem(metadata, "variants", at, fail, (v, path) => {
+    requireString(v, "id", path, fail);
+    requireString(v, "name", path, fail, true);
+    requireEnum(v, "kind", VariantKind, path, fail);
+    if (!isFiniteNumber(v.share) || v.share < 0 || v.share > 1) {
+      fail(`${path}.share`, "Expected a number in [0, 1]");
+    }
+    if (v.rateDelta !== undefined) requireMoney(v, "rateDelta", path, fail);
+    if (v.rateOverride !== undefined) {
+      requireMoney(v, "rateOverride", path, fail);
+    }
+    if (v.cos === undefined) fail(`${path}.cos`, "Missing required property");
+    eachItem(v, "cos", path, fail, (item, cosPath) =>
+      validateCOSItem(item, cosPath, fail)
+    );
+  });
+
+  if (
+    metadata.hoursPerDay !== undefined &&
+    (!isFiniteNumber(metadata.hoursPerDay) ||
+      metadata.hoursPerDay <= 0 ||
+      metadata.hoursPerDay > 24)
+  ) {
+    fail(`${at}.hoursPerDay`, "Expected a number between 0 and 24");
+  }
+}
+
+function validateCOSItem(item: JSONObject, path: string, fail: Fail): void {
+  requireString(item, "id", path, fail);
+  requireString(item, "item", path, fail, true);
+  requireMoney(item, "unitCost", path, fail);
+  requireMoney(item, "subtotal", path, fail);
+  if (!isFiniteNumber(item.quantity) || item.quantity <= 0) {
+    fail(`${path}.quantity`, "Expected a number greater than zero");
+  } else if (
+    isMoney(item.unitCost) &&
+    isMoney(item.subtotal) &&
+    !isCOSSubtotalConsistent(item.unitCost, item.quantity, item.subtotal)
+  ) {
+    fail(`${path}.subtotal`, "Does not equal unitCost × quantity");
+  }
+  optionalString(item, "unit", path, fail);
+  optionalEnum(item, "behavior", COSBehavior, path, fail);
+  optionalMonth(item, "effectiveFrom", path, fail);
+  optionalMonth(item, "effectiveUntil", path, fail);
+  optionalString(item, "resourceId", path, fail);
+  if (
+    item.effectiveFrom &&
+    item.effectiveUntil &&
+    item.effectiveFrom > item.effectiveUntil
+  ) {
+    fail(`${path}.effectiveUntil`, "Must not be before effectiveFrom");
+  }
+}
+
+function validateRate(rate: JSONObject, path: string, fail: Fail): void {
+  requireMoney(rate, "amount", path, fail);
+  requireEnum(rate, "unit", RateUnit, path, fail);
+  optionalEnum(rate, "tierMode", TierMode, path, fail);
+  eachItem(rate, "tiers", path, fail, (tier, tierPath) => {
+    requireMoney(tier, "amount", tierPath, fail);
+    if (tier.upTo !== null && (!isFiniteNumber(tier.upTo) || tier.upTo <= 0)) {
+      fail(`${tierPath}.upTo`, "Expected a positive number or null");
+    }
+  });
+}
+
+function eachItem(
+  parent: JSONObject,
+  key: string,
+  path: string,
+  fail: Fail,
+  validate: (item: JSONObject, path: string) => void
+): void {
+  const items = parent[key];
+  if (items === undefined) return;
+
+  const at = join(path, key);
+  if (!Array.isArray(items)) {
+    fail(at, "Expected an array");
+    return;
+  }
+
+  items.forEach((item, index) => {
+    const itemPath = `${at}[${index}]`;
+    if (!isObject(item)) {
+      fail(itemPath, "Expected an object");
+    } else {
+      validate(item, itemPath);
+    }
+  });
+}
+
+function requireString(
+  parent: JSONObject,
+  key: string,
+  path: string,
+  fail: Fail,
+  allowEmpty: boolean = false
+): void {
+  const value = parent[key];
+  if (value === undefined || value === null) {
+    fail(join(path, key), "Missing required property");
+  } else if (typeof value !== "string") {
+    fail(join(path, key), "Expected a string");
+  } else if (!allowEmpty && value.trim() === "") {
+    fail(join(path, key), "Must not be empty");
+  }
+}
+
+function optionalString(
+  parent: JSONObject,
+  key: string,
+  path: string,
+  fail: Fail
+): void {
+  const value = parent[key];
+  if (value !== undefined && value !== null && typeof value !== "string") {
+    fail(join(path, key), "Expected a string");
+  }
+}
+
+function optionalNumber(
+  parent: JSONObject,
+  key: string,
+  path: string,
+  fail: Fail,
+  min?: number
+): void {
+  const value = parent[key];
+  if (value === undefined || value === null) return;
+  if (!isFiniteNumber(value) || (min !== undefined && value < min)) {
+    fail(
+      join(path, key),
+      min === undefined ? "Expected a number" : `Expected a number >= ${min}`
+    );
+  }
+}
+
+function requireDate(
+  parent: JSONObject,
+  key: string,
+  path: string,
+  fail: Fail
+): void {
+  const value = parent[key];
+  if (value === undefined || value === null) {
+    fail(join(path, key), "Missing required property");
+  } else if (typeof value !== "string" || isNaN(new Date(value).getTime())) {
+    fail(join(path, key), "Expected an ISO date string");
+  }
+}
+
+function requireMonth(
+  parent: JSONObject,
+  key: string,
+  path: string,
+  fail: Fail
+): boolean {
+  const value = parent[key];
+  if (value === undefined || value === null) {
+    fail(join(path, key), "Missing required property");
+    return false;
+  }
+  if (typeof value !== "string" || !isValidYYYYMM(value)) {
+    fail(join(path, key), "Expected a YYYY-MM month");
+    return false;
+  }
+  return true;
+}
+
+function optionalMonth(
+  parent: JSONObject,
+  key: string,
+  path: string,
+  fail: Fail
+): void {
+  if (parent[key] === undefined || parent[key] === null) return;
+  requireMonth(parent, key, path, fail);
+}
+
+function requireMoney(
+  parent: JSONObject,
+  key: string,
+  path: string,
+  fail: Fail
+): void {
+  const value = parent[key];
+  if (value === undefined || value === null) {
+    fail(join(path, key), "Missing required property");
+  } else if (!isMoney(value)) {
+    fail(join(path, key), "Expected a MajikMoney amount");
+  }
+}
+
+function requireEnum(
+  parent: JSONObject,
+  key: string,
+  values: Record<string, string>,
+  path: string,
+  fail: Fail
+): void {
+  if (parent[key] === undefined || parent[key] === null) {
+    fail(join(path, key), "Missing required property");
+    return;
+  }
+  optionalEnum(parent, key, values, path, fail);
+}
+
+function optionalEnum(
+  parent: JSONObject,
+  key: string,
+  values: Record<string, string>,
+  path: string,
+  fail: Fail
+): void {
+  const value = parent[key];
+  if (value === undefined || value === null) return;
+  if (typeof value !== "string" || !Object.values(values).includes(value)) {
+    fail(
+      join(path, key),
+      `Expected one of: ${Object.values(values).join(", ")}`
+    );
+  }
+}
+
+function isObject(value: unknown): value is JSONObject {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value);
+}
+
+function isMoney(value: unknown): value is MajikMoney {
+  return value instanceof MajikMoney;
+}
+
+function join(path: string, key: string): string {
+  return path ? `${path}.${key}` : key;
+}
@@ -1,9 +1,25 @@
 import { MajikMoney } from "@thezelijah/majik-money";
+import type { MajikService } from "./majik-service";
 import {
+  AdjustmentKind,
+  COSBehavior,
+  ForecastStrategy,
+  InvoiceTaxTreatment,
+  InvoiceUnitBasis,
+  QuoteStatus,
   RateUnit,
+  ResourceKind,
+  RevenueModel,
   ServiceStatus,
   ServiceType,
   ServiceVisibility,
+  TaxBase,
+  TaxKind,
+  TierMode,
+  ValidationIssueCode,
+  ValidationSeverity,
+  VariantKind,
+  Weekday,
 } from "./enums";
 
 export type ObjectType = "class" | "json";
@@ -14,6 +30,70 @@ export type ISODateString = string;
 export type YYYYMM = `${number}${number}${number}${number}-${number}${number}`;
 export type StartDateInput = Date | ISODateString | YYYYMM;
 
+/**
+ * Supplies exchange rates for converting between currencies.
+ */
+export interface ExchangeRateProvider {
+  /**
+   * Returns how many units of `to` one unit of `from` is worth, or undefined if unknown.
+   * @param month - Optional YYYYMM month for period-specific rates.
+   */
+  getRate(from: string, to: string, month?: YYYYMM): number | undefined;
+}
+
+/**
+ * An exchange rate entry. Applies to a single month, or is fixed when `month` is omitted.
+ */
+export interface ExchangeRateEntry {
+  from: string;
+  to: string;
+  rate: number; // units of `to` per unit of `from`
+  month?: YYYYMM;
+}
+
+export interface ExchangeRateTableJSON {
+  __type: "InMemoryExchangeRateProvider";
+  rates: ExchangeRateEntry[];
+}
+
+export type CalendarDate = string; // YYYY-MM-DD
+
+/**
+ * A non-working day. Recurring holidays repeat on the same month and day every year.
+ */
+export interface CalendarHoliday {
+  date: CalendarDate;
+  name?: string;
+  recurring?: boolean;
+}
+
+/**
+ * Overrides the working hours of a single date, ahead of holidays and working days.
+ * 0 hours closes the date; positive hours open it (e.g. a working Saturday) or shorten it.
+ */
+export interface CalendarException {
+  date: CalendarDate;
+  hours: number;
+  note?: string;
+}
+
+export interface WorkingCalendarOptions {
+  name?: string;
+  workingDays?: Weekday[]; // defaults to Monday–Friday
+  hoursPerDay?: number; // defaults to 8
+  holidays?: CalendarHoliday[];
+  exceptions?: CalendarException[];
+}
+
+export interface WorkingCalendarJSON {
+  __type: "MajikWorkingCalendar";
+  name?: string;
+  workingDays: Weekday[];
+  hoursPerDay: number;
+  holidays: CalendarHoliday[];
+  exceptions: CalendarException[];
+}
+
 /**
  * Represents a Cost of Service (COS) item.
  * Similar to COGS for products, e.g., labor, materials, subcontractor fees.
@@ -25,8 +105,20 @@ export interface COSItem {
   quantity: number; // e.g., hours or units of resource used
   subtotal: MajikMoney;
   unit?: string; // e.g., "hour", "day", "session"
+  behavior?: COSBehavior; // defaults to VARIABLE
+  effectiveFrom?: YYYYMM; // first month the cost applies; the month a ONE_TIME cost is incurred
+  effectiveUntil?: YYYYMM; // last month the cost applies
+  resourceId?: string; // set on labor items derived from a service resource
 }
 
+/**
+ * Classification and effective date range of a COS item.
+ */
+export type COSSchedule = Pick<
+  COSItem,
+  "behavior" | "effectiveFrom" | "effectiveUntil"
+>;
+
 /**
  * Represents monthly capacity plan entry.
  */
@@ -34,6 +126,336 @@ export interface MonthlyCapacity {
   month: YYYYMM;
   capacity: number; // total hours/days available
   adjustment?: number; // optional extra or reduced hours
+  actualUnits?: number; // hours/days actually delivered
+  loggedUnits?: number; // billable timesheet time in rate units, rolled up automatically
+  actualCOS?: MajikMoney; // COS actually incurred, if tracked
+}
+
+/**
+ * Represents a billing milestone of a fixed-fee project.
+ */
+export interface ProjectMilestone {
+  id: string;
+  name: string;
+  month: YYYYMM;
+  share: number; // fraction of the fixed fee billed in this month (0-1)
+}
+
+/**
+ * A time entry logged against a service.
+ */
+export interface TimesheetEntry {
+  id: string;
+  date: ISODateString; // day the work was performed
+  month: YYYYMM;
+  hours: number;
+  resource: string; // person or equipment
+  billable: boolean;
+  sessions?: number; // sessions covered, for PER_SESSION rates (defaults to 1)
+  note?: string;
+}
+
+/**
+ * A variant (e.g. rush, onsite) or add-on (e.g. extra revision) of a service.
+ * Variants are sold instead of the standard offering for `share` of each month's units;
+ * add-ons are attached to `share` of the units on top of whatever is sold.
+ */
+export interface ServiceVariant {
+  id: string;
+  name: string;
+  kind: VariantKind;
+  share: number; // in [0, 1]; the shares of all variants add up to at most 1
+  rateDelta?: MajikMoney; // added to the unit rate; the add-on price per unit
+  rateOverride?: MajikMoney; // replaces the unit rate (variants only)
+  cos: COSItem[]; // extra variable costs per unit
+}
+
+export interface ServiceVariantOptions {
+  share?: number; // defaults to 0
+  rateDelta?: MajikMoney;
+  rateOverride?: MajikMoney;
+}
+
+/**
+ * Unit economics of the standard offering (`id: null`), a variant or an add-on.
+ */
+export interface VariantEconomics {
+  id: string | null;
+  name: string;
+  kind: VariantKind | null;
+  share: number;
+  unitRate: MajikMoney;
+  unitCost: MajikMoney;
+  unitProfit: MajikMoney;
+  unitMargin: number;
+}
+
+/**
+ * Units of a month sold as the standard offering (`id: null`), a variant or an add-on.
+ */
+export interface VariantCapacity {
+  id: string | null;
+  name: string;
+  kind: VariantKind | null;
+  units: number;
+}
+
+/**
+ * Units a resource is available in a month, in the service's rate unit (hours or days).
+ */
+export interface ResourceAvailability {
+  month: YYYYMM;
+  units: number;
+}
+
+/**
+ * A person or piece of equipment that delivers the service.
+ * Allocated units (availability × allocation) build the capacity plan;
+ * the cost rate prices the resource's labor COS.
+ */
+export interface ServiceResource {
+  id: string;
+  name: string;
+  kind: ResourceKind;
+  allocation: number; // share of availability allocated to this service, in (0, 1]
+  availability: ResourceAvailability[]; // sorted by month
+  costRate?: MajikMoney; // cost per unit of allocated time
+  poolResourceId?: string; // resource in a shared MajikResourcePool
+}
+
+/**
+ * A month where logged time exceeds the capacity plan.
+ */
+export interface TimesheetOverage {
+  month: YYYYMM;
+  capacity: number; // planned units (capacity + adjustment)
+  logged: number; // logged units, billable and non-billable
+  excess: number;
+}
+
+/**
+ * Represents a reservation of capacity units by a client for a month.
+ */
+export interface ServiceBooking {
+  id: string;
+  client: string;
+  month: YYYYMM;
+  units: number; // hours/days/sessions reserved
+  timestamp: ISODateString;
+  note?: string;
+  quoteId?: string; // set when booked from an accepted quote
+}
+
+/**
+ * A stored finance adjustment (discount, return, allowance, operating expense or tax).
+ * Applies either to a single `month` or to every month of a `recurring` window.
+ */
+export interface FinanceAdjustment {
+  id: string;
+  kind: AdjustmentKind;
+  label: string;
+  amount: MajikMoney;
+  month?: YYYYMM; // one-off month
+  recurring?: { start?: YYYYMM; end?: YYYYMM }; // open-ended when start/end are omitted
+}
+
+/**
+ * A percentage-based tax rule.
+ */
+export interface TaxRule {
+  id: string;
+  name: string;
+  kind: TaxKind;
+  rate: number; // e.g. 0.12 = 12%
+  inclusive: boolean; // true if the tax is already included in the service rate
+  appliesTo: TaxBase;
+}
+
+/**
+ * A computed tax line for a month.
+ */
+export interface TaxLine {
+  ruleId: string;
+  name: string;
+  kind: TaxKind;
+  rate: number;
+  inclusive: boolean;
+  appliesTo: TaxBase;
+  base: MajikMoney;
+  amount: MajikMoney;
+  deductedFrom?: TaxBase; // undefined when collected on top of the rate and passed through
+}
+
+/**
+ * Tax breakdown of a month.
+ */
+export interface TaxBreakdown {
+  month: YYYYMM;
+  lines: TaxLine[];
+  revenueTax: MajikMoney; // deducted from net revenue
+  incomeTax: MajikMoney; // deducted from net profit
+  collected: MajikMoney; // passed through to the client
+  adjustments: MajikMoney; // stored TAX adjustments
+  total: MajikMoney;
+}
+
+/**
+ * Finance snapshot of a single month.
+ */
+export interface ServiceMonthlySnapshot {
+  month: YYYYMM;
+  units: number; // capacity + adjustment
+  unitRate: MajikMoney; // revenue per unit
+  revenue: MajikMoney;
+  cogs: MajikMoney;
+  profit: MajikMoney;
+  margin: number;
+  netRevenue: MajikMoney;
+  netIncome: MajikMoney;
+  tax: TaxBreakdown;
+}
+
+/**
+ * Overrides for a COS item in a what-if scenario.
+ */
+export interface COSItemOverride {
+  id: string;
+  unitCost?: MajikMoney;
+  quantity?: number;
+}
+
+/**
+ * A what-if scenario applied to a clone of a service.
+ * Multipliers are relative (e.g. 1.1 = +10%); absolute values take precedence over multipliers.
+ */
+export interface ServiceScenario {
+  label?: string;
+  rate?: { amount?: number; multiplier?: number };
+  cos?: {
+    unitCostMultiplier?: number;
+    quantityMultiplier?: number;
+    items?: COSItemOverride[];
+  };
+  capacity?: {
+    multiplier?: number;
+    months?: Partial<Record<YYYYMM, number>>;
+  };
+}
+
+/**
+ * Aggregate totals of a scenario.
+ */
+export interface ScenarioTotals {
+  revenue: MajikMoney;
+  cogs: MajikMoney;
+  profit: MajikMoney;
+  margin: number;
+  netRevenue: MajikMoney;
+  netProfit: MajikMoney;
+}
+
+/**
+ * Baseline vs scenario comparison of a single month.
+ */
+export interface ScenarioMonthComparison {
+  month: YYYYMM;
+  baseline: ServiceMonthlySnapshot;
+  scenario: ServiceMonthlySnapshot;
+  delta: {
+    revenue: MajikMoney;
+    cogs: MajikMoney;
+    profit: MajikMoney;
+    margin: number;
+  };
+}
+
+/**
+ * Result of a what-if scenario.
+ */
+export interface ServiceScenarioResult {
+  label: string;
+  baseline: ScenarioTotals;
+  scenario: ScenarioTotals;
+  months: ScenarioMonthComparison[];
+}
+
+/**
+ * Capacity forecast configuration, by strategy.
+ *
+ * - `compound` → `amount` grown by `growthRate` every month
+ * - `seasonal` → `amount` × the calendar month's multiplier (12 values, January first), optionally compounded
+ * - `linear` → `amount` + `increment` per month
+ * - `step` → `amount`, replaced from each step's month onwards
+ * - `moving-average` → rolling average of the last `window` values of `history`
+ * - `exponential-smoothing` → simple exponential smoothing of `history` with factor `alpha`
+ */
+export type CapacityForecast =
+  | {
+      strategy: typeof ForecastStrategy.COMPOUND;
+      amount: number;
+      growthRate?: number;
+    }
+  | {
+      strategy: typeof ForecastStrategy.SEASONAL;
+      amount: number;
+      multipliers: number[];
+      growthRate?: number;
+    }
+  | {
+      strategy: typeof ForecastStrategy.LINEAR;
+      amount: number;
+      increment: number;
+    }
+  | {
+      strategy: typeof ForecastStrategy.STEP;
+      amount: number;
+      steps: { month: YYYYMM; amount: number }[];
+    }
+  | {
+      strategy: typeof ForecastStrategy.MOVING_AVERAGE;
+      history: number[];
+      window?: number;
+    }
+  | {
+      strategy: typeof ForecastStrategy.EXPONENTIAL_SMOOTHING;
+      history: number[];
+      alpha?: number;
+    };
+
+/**
+ * Units and finance figures compared in a variance report.
+ */
+export interface VarianceFigures {
+  units: number;
+  revenue: MajikMoney;
+  cos: MajikMoney;
+  profit: MajikMoney;
+  margin: number;
+}
+
+/**
+ * Planned vs actual comparison of a month. `variance` is `actual - planned`.
+ */
+export interface ServiceVariance {
+  month: YYYYMM;
+  hasActual: boolean;
+  planned: VarianceFigures;
+  actual: VarianceFigures;
+  variance: VarianceFigures;
+}
+
+/**
+ * Planned vs actual comparison across a period.
+ */
+export interface ServiceVarianceReport {
+  start: YYYYMM | null;
+  end: YYYYMM | null;
+  months: ServiceVariance[];
+  totals: {
+    planned: VarianceFigures;
+    actual: VarianceFigures;
+    variance: VarianceFigures;
+  };
 }
 
 /**
@@ -70,12 +492,30 @@ export interface ServiceFinance {
   };
 }
 
+/**
+ * A pricing tier of a service rate.
+ */
+export interface RateTier {
+  upTo: number | null; // inclusive upper bound in units; null for the open-ended last tier
+  amount: MajikMoney; // price per unit within the tier
+}
+
 /**
  * Service rate object: amount + unit.
  */
 export interface ServiceRate {
   amount: MajikMoney; // monetary value
   unit: RateUnit; // billing unit
+  tiers?: RateTier[]; // optional tier table, ordered by upTo
+  tierMode?: TierMode; // defaults to GRADUATED
+}
+
+/**
+ * A rate that applies from a given month onwards.
+ */
+export interface RateScheduleEntry {
+  effectiveFrom: YYYYMM;
+  rate: ServiceRate;
 }
 
 /**
@@ -92,13 +532,48 @@ export interface ServiceMetadata {
   type: ServiceType; // Could later add a ServiceType enum
   category: string;
   rate: ServiceRate; // rate per hour/day/session
+  rateSchedule?: RateScheduleEntry[]; // effective-dated rate changes, sorted by effectiveFrom
+  revenueModel?: RevenueModel; // overrides the model resolved from type + rate unit
+  milestones?: ProjectMilestone[];
   cos: COSItem[];
   capacityPlan?: MonthlyCapacity[];
 
+  /** Time entries logged against the service */
+  timesheet?: TimesheetEntry[];
+
+  /** Hours in a working day, used to convert time to PER_DAY units. Defaults to 8. */
+  hoursPerDay?: number;
+
+  /** People and equipment whose allocations build the capacity plan and labor COS */
+  resources?: ServiceResource[];
+
+  /** Variants and add-ons with their own rate and COS deltas */
+  variants?: ServiceVariant[];
+
+  /** Booking ledger against the capacity plan */
+  bookings?: ServiceBooking[];
+
+  /** Discounts, returns, allowances, operating expenses and taxes */
+  adjustments?: FinanceAdjustment[];
+
+  /** Percentage-based tax rules */
+  taxRules?: TaxRule[];
+
   /** Cached finance snapshot */
   finance: ServiceFinance;
 }
 
+/**
+ * A recorded change of a service's lifecycle status.
+ */
+export interface ServiceStatusTransition {
+  from: ServiceStatus;
+  to: ServiceStatus;
+  timestamp: ISODateString;
+  reason?: string;
+  automatic?: boolean; // set by the booking status sync rather than by a caller
+}
+
 /**
  * Service settings including visibility and status.
  */
@@ -106,11 +581,15 @@ export interface ServiceSettings {
   status: ServiceStatus;
   visibility: ServiceVisibility;
   system?: { isRestricted: boolean; restrictedUntil?: ISODateString };
+
+  /** Chronological log of status transitions */
+  statusHistory?: ServiceStatusTransition[];
 }
 
 export interface MajikServiceJSON {
   __type: "MajikService";
   __object: "json";
+  schemaVersion?: number; // absent in version 1 documents
   id: ServiceID;
   slug: string;
   name: string;
@@ -122,4 +601,449 @@ export interface MajikServiceJSON {
   last_update: ISODateString;
   metadata: ServiceMetadata;
   settings: ServiceSettings;
+  exchangeRates?: ExchangeRateTableJSON; // only in-memory providers are serialized
+}
+
+/**
+ * Criteria for filtering services in a catalog. All given criteria must match.
+ */
+export interface ServiceCatalogFilter {
+  category?: string;
+  type?: ServiceType;
+  status?: ServiceStatus;
+  visibility?: ServiceVisibility;
+}
+
+/**
+ * Finance snapshot of a month across all services of a catalog.
+ */
+export interface CatalogMonthlySnapshot {
+  month: YYYYMM;
+  revenue: MajikMoney;
+  cogs: MajikMoney;
+  profit: MajikMoney;
+  margin: number;
+  netRevenue: MajikMoney;
+  netIncome: MajikMoney;
+  services: { id: ServiceID; name: string; snapshot: ServiceMonthlySnapshot }[];
+}
+
+/**
+ * A person or piece of equipment shared by several services through a resource pool.
+ * Availability is in the pool's unit (hours or days).
+ */
+export interface PoolResource {
+  id: string;
+  name: string;
+  kind: ResourceKind;
+  availability: ResourceAvailability[]; // sorted by month
+}
+
+/**
+ * One service's share of a pool resource in a month.
+ */
+export interface ResourceAllocationLine {
+  serviceId: ServiceID;
+  serviceName: string;
+  resourceId: string; // the service's own resource ID
+  allocation: number;
+  units: number; // the service's planned units drawn from the resource
+}
+
+/**
+ * Allocation of a pool resource across all services in a month.
+ */
+export interface ResourceAllocationReport {
+  month: YYYYMM;
+  resourceId: string;
+  resourceName: string;
+  available: number;
+  allocated: number;
+  utilization: number | null; // allocated / available; null when nothing is available
+  overAllocated: boolean;
+  excess: number; // allocated units beyond availability
+  services: ResourceAllocationLine[];
+}
+
+/**
+ * A proposed capacity for a service's month that removes its share of the month's over-allocations.
+ */
+export interface CapacityRebalanceProposal {
+  serviceId: ServiceID;
+  serviceName: string;
+  month: YYYYMM;
+  current: number; // current capacity
+  proposed: number; // proposed capacity
+  reduction: number; // current - proposed
+}
+
+export interface MajikResourcePoolJSON {
+  __type: "MajikResourcePool";
+  id: string;
+  name: string;
+  unit: RateUnit;
+  resources: PoolResource[];
+}
+
+/**
+ * A service included in a bundle.
+ * `quantity` is in the service's billing terms: units for PER_UNIT, projects for FIXED_PROJECT,
+ * months for FIXED_RECURRING.
+ */
+export interface ServiceBundleComponent {
+  service: MajikService;
+  quantity: number;
+  units?: number; // capacity units one bundle consumes; derived from the revenue model if omitted
+}
+
+/**
+ * How a bundle is priced: a fixed bundle price, or a discount off the components' list price.
+ */
+export interface ServiceBundlePricing {
+  price?: MajikMoney;
+  discount?: number; // share of the list price, in [0, 1)
+}
+
+/**
+ * One component's share of a bundle's figures.
+ * Bundle revenue is allocated to components in proportion to their list price.
+ */
+export interface BundleComponentBreakdown {
+  serviceId: ServiceID;
+  serviceName: string;
+  quantity: number;
+  units: number;
+  listPrice: MajikMoney;
+  revenue: MajikMoney;
+  cos: MajikMoney;
+  profit: MajikMoney;
+  margin: number;
+}
+
+/**
+ * The capacity a number of bundles needs from a component service in a month.
+ */
+export interface BundleCapacityImplication {
+  serviceId: ServiceID;
+  serviceName: string;
+  month: YYYYMM;
+  required: number;
+  remaining: number;
+  shortfall: number;
+}
+
+export interface MajikServiceBundleJSON {
+  __type: "MajikServiceBundle";
+  __object: "json";
+  id: string;
+  name: string;
+  description?: string;
+  currencyCode: string;
+  components: { serviceId: ServiceID; quantity: number; units?: number }[];
+  price?: MajikMoney;
+  discount?: number;
+  timestamp: ISODateString;
+  last_update: ISODateString;
+  listPrice: MajikMoney;
+  revenue: MajikMoney;
+  cos: MajikMoney;
+  profit: MajikMoney;
+  margin: number;
+}
+
+export interface MajikServiceCatalogJSON {
+  __type: "MajikServiceCatalog";
+  __object: "json";
+  id: string;
+  name: string;
+  currencyCode?: string;
+  timestamp: ISODateString;
+  last_update: ISODateString;
+  services: MajikServiceJSON[];
+}
+
+/**
+ * A single month or an inclusive range of months to invoice.
+ */
+export type InvoicePeriod = YYYYMM | { start: YYYYMM; end: YYYYMM };
+
+/**
+ * Invoice number sequence, e.g. prefix "INV-", padding 5 → "INV-00001".
+ */
+export interface InvoiceNumberSequence {
+  prefix: string;
+  next: number;
+  padding: number;
+}
+
+export interface InvoiceLineItem {
+  month: YYYYMM;
+  description: string;
+  quantity: number;
+  unit: RateUnit;
+  unitPrice: MajikMoney;
+  amount: MajikMoney;
+}
+
+export interface InvoiceDiscount {
+  label: string;
+  kind: AdjustmentKind; // DISCOUNT, RETURN or ALLOWANCE
+  month?: YYYYMM; // undefined for invoice-level discounts
+  amount: MajikMoney;
+}
+
+export interface InvoiceTaxLine {
+  ruleId: string;
+  name: string;
+  kind: TaxKind;
+  rate: number;
+  treatment: InvoiceTaxTreatment;
+  base: MajikMoney;
+  amount: MajikMoney;
+}
+
+/**
+ * Options for building an invoice.
+ */
+export interface InvoiceOptions {
+  client?: string;
+  basis?: InvoiceUnitBasis; // defaults to DELIVERED
+  issueDate?: Date | ISODateString; // defaults to now
+  terms?: number; // payment terms in days, defaults to the builder's terms
+  discounts?: { label: string; amount: MajikMoney }[]; // invoice-level discounts
+  notes?: string;
+}
+
+/**
+ * Fields of an invoice document. Totals are derived from these.
+ */
+export interface ServiceInvoiceData {
+  number: string;
+  serviceId: ServiceID;
+  serviceName: string;
+  client?: string;
+  currencyCode: string;
+  start: YYYYMM;
+  end: YYYYMM;
+  basis: InvoiceUnitBasis;
+  issueDate: ISODateString;
+  dueDate: ISODateString;
+  terms: number;
+  lineItems: InvoiceLineItem[];
+  discounts: InvoiceDiscount[];
+  taxes: InvoiceTaxLine[];
+  notes?: string;
+  warnings?: string[]; // e.g. months left off because nothing was delivered
+}
+
+export interface MajikServiceInvoiceJSON extends ServiceInvoiceData {
+  __type: "MajikServiceInvoice";
+  __object: "json";
+  subtotal: MajikMoney;
+  discountTotal: MajikMoney;
+  taxTotal: MajikMoney;
+  withholdingTotal: MajikMoney;
+  total: MajikMoney;
+  amountDue: MajikMoney;
+}
+
+export interface MajikServiceInvoiceBuilderJSON {
+  __type: "MajikServiceInvoiceBuilder";
+  sequence: InvoiceNumberSequence;
+  terms: number;
+}
+
+/**
+ * What a quote covers: a quantity in one month, or a window of months.
+ * A window uses `unitsPerMonth`, or each month's planned units if omitted.
+ */
+export type QuoteScope =
+  | { month: YYYYMM; units: number }
+  | { start: YYYYMM; end: YYYYMM; unitsPerMonth?: number };
+
+export interface QuoteLine {
+  month: YYYYMM;
+  units: number;
+  amount: MajikMoney;
+}
+
+/**
+ * A quote-specific discount: a fixed `amount`, or a `rate` of the subtotal.
+ */
+export interface QuoteDiscount {
+  label: string;
+  amount: MajikMoney;
+  rate?: number;
+}
+
+export interface QuoteOptions {
+  validDays?: number; // days until expiry, defaults to 30
+  expiresAt?: Date | ISODateString; // overrides validDays
+  discounts?: { label: string; amount?: MajikMoney; rate?: number }[];
+  notes?: string;
+}
+
+/**
+ * Fields of a quote document. Totals are derived from these.
+ */
+export interface ServiceQuoteData {
+  id: string;
+  serviceId: ServiceID;
+  serviceName: string;
+  client: string;
+  description: ServiceMetadata["description"];
+  rate: ServiceRate;
+  revenueModel: RevenueModel;
+  currencyCode: string;
+  lines: QuoteLine[];
+  discounts: QuoteDiscount[];
+  status: QuoteStatus;
+  createdAt: ISODateString;
+  expiresAt: ISODateString;
+  sentAt?: ISODateString;
+  acceptedAt?: ISODateString;
+  notes?: string;
+}
+
+export interface MajikServiceQuoteJSON extends ServiceQuoteData {
+  __type: "MajikServiceQuote";
+  __object: "json";
+  subtotal: MajikMoney;
+  discountTotal: MajikMoney;
+  total: MajikMoney;
+}
+
+/**
+ * A parsed CSV record and the 1-based line it starts on.
+ */
+export interface CSVRecord {
+  line: number;
+  fields: string[];
+}
+
+/**
+ * A CSV row that failed validation. Row 1 is the header.
+ * `row` is the line the record starts on, so it matches the file even when quoted fields span lines.
+ */
+export interface CSVRowError {
+  row: number;
+  message: string;
 }
+
+export interface CSVImportOptions {
+  partial?: boolean; // apply the valid rows even if some rows fail; defaults to false
+}
+
+export interface CSVImportResult {
+  rows: number; // data rows read, excluding the header and blank lines
+  imported: number; // rows applied to the service
+  applied: boolean; // false when errors blocked the import
+  errors: CSVRowError[];
+}
+
+/**
+ * A structural problem in a service document, e.g. `{ path: "metadata.cos[0].subtotal", ... }`.
+ */
+export interface ServiceJSONError {
+  path: string;
+  message: string;
+}
+
+/**
+ * Upgrades a service document from `version - 1` to `version`.
+ * Receives deserialized documents, so amounts are `MajikMoney` instances.
+ */
+export interface ServiceMigration {
+  version: number;
+  description: string;
+  migrate: (json: Record<string, unknown>) => Record<string, unknown>;
+}
+
+/**
+ * A problem found by `MajikService.validate()`.
+ */
+export interface ServiceValidationIssue {
+  code: ValidationIssueCode;
+  severity: ValidationSeverity;
+  path: string; // e.g. "metadata.capacityPlan[2].capacity"
+  message: string;
+}
+
+/**
+ * Payloads of the change events emitted by `MajikService`, keyed by event name.
+ * Scheduled rate changes carry `effectiveFrom`; before/after are then the rates in force for that month.
+ */
+export interface ServiceChangeEvents {
+  "rate:changed": {
+    before: ServiceRate;
+    after: ServiceRate;
+    effectiveFrom?: YYYYMM;
+  };
+  "cos:added": { before: undefined; after: COSItem };
+  "cos:removed": { before: COSItem; after: undefined };
+  "cos:updated": { before: COSItem; after: COSItem };
+  "capacity:updated": { before: MonthlyCapacity[]; after: MonthlyCapacity[] };
+  "timesheet:added": { before: undefined; after: TimesheetEntry };
+  "timesheet:removed": { before: TimesheetEntry; after: undefined };
+  "resource:added": { before: undefined; after: ServiceResource };
+  "resource:removed": { before: ServiceResource; after: undefined };
+  "resource:updated": { before: ServiceResource; after: ServiceResource };
+  "variant:added": { before: undefined; after: ServiceVariant };
+  "variant:removed": { before: ServiceVariant; after: undefined };
+  "variant:updated": { before: ServiceVariant; after: ServiceVariant };
+  "status:changed": {
+    before: ServiceStatus;
+    after: ServiceStatus;
+    reason?: string;
+  };
+  "details:changed": { before: ServiceDetails; after: ServiceDetails };
+  "booking:added": { before: undefined; after: ServiceBooking };
+  "booking:removed": { before: ServiceBooking; after: undefined };
+  "milestone:added": { before: undefined; after: ProjectMilestone };
+  "milestone:removed": { before: ProjectMilestone; after: undefined };
+  "adjustment:added": { before: undefined; after: FinanceAdjustment };
+  "adjustment:removed": { before: FinanceAdjustment; after: undefined };
+  "taxRule:added": { before: undefined; after: TaxRule };
+  "taxRule:removed": { before: TaxRule; after: undefined };
+}
+
+/**
+ * Identifying fields of a service, reported by `details:changed`.
+ * `revenueModel` is the override set with `setRevenueModel()`, if any.
+ */
+export interface ServiceDetails {
+  name: string;
+  category: string;
+  type: ServiceType;
+  revenueModel?: RevenueModel;
+}
+
+export type ServiceChangeEventName = keyof ServiceChangeEvents;
+
+/**
+ * A single change event with its name.
+ */
+export type ServiceChangeEvent = {
+  [K in ServiceChangeEventName]: { type: K } & ServiceChangeEvents[K];
+}[ServiceChangeEventName];
+
+/**
+ * Every event a `MajikService` emits. `change` fires once per mutation, or once per `batch()`,
+ * with all (coalesced) change events.
+ */
+export interface ServiceEvents extends ServiceChangeEvents {
+  change: { events: ServiceChangeEvent[] };
+}
+
+export type ServiceEventName = keyof ServiceEvents;
+
+export type ServiceEventListener<K extends ServiceEventName> = (
+  payload: ServiceEvents[K]
+) => void;
+
+/**
+ * Subscribed listeners, keyed by event name.
+ */
+export type ServiceEventListeners = {
+  [K in ServiceEventName]?: Set<ServiceEventListener<K>>;
+};
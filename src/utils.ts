@@ -1,6 +1,29 @@
 import { customAlphabet } from "nanoid";
-import { ServiceFinance, StartDateInput, ValueRatio, YYYYMM } from "./types";
+import {
+  CapacityForecast,
+  COSItem,
+  CSVRecord,
+  FinanceAdjustment,
+  MonthlyCapacity,
+  RateTier,
+  ServiceFinance,
+  ServiceChangeEvent,
+  ServiceRate,
+  StartDateInput,
+  TimesheetEntry,
+  ValueRatio,
+  YYYYMM,
+} from "./types";
 import { MajikMoney } from "@thezelijah/majik-money";
+import {
+  COSBehavior,
+  ForecastStrategy,
+  RateUnit,
+  RevenueModel,
+  ServiceStatus,
+  ServiceType,
+  TierMode,
+} from "./enums";
 
 /**
  * Generates a URL-friendly slug from the name,
@@ -44,7 +67,7 @@ export function autogenerateID(prefix: string = "majik"): string {
 }
 
 export function isValidYYYYMM(month: string): month is YYYYMM {
-  return /^\d{4}-0[1-9]|1[0-2]$/.test(month);
+  return /^\d{4}-(0[1-9]|1[0-2])$/.test(month);
 }
 
 export function createZeroValueRatio(currencyCode: string): ValueRatio {
@@ -172,3 +195,483 @@ export function normalizeStartDate(input?: StartDateInput): Date {
 
   throw new Error("Invalid startDate format");
 }
+
+/**
+ * Allowed lifecycle transitions for a service status.
+ * A `DISCONTINUED` service can only be reactivated, never reverted to `DRAFT`.
+ */
+export const SERVICE_STATUS_TRANSITIONS: Readonly<
+  Record<ServiceStatus, readonly ServiceStatus[]>
+> = {
+  [ServiceStatus.DRAFT]: [ServiceStatus.ACTIVE, ServiceStatus.DISCONTINUED],
+  [ServiceStatus.ACTIVE]: [
+    ServiceStatus.DRAFT,
+    ServiceStatus.FULLY_BOOKED,
+    ServiceStatus.DISCONTINUED,
+  ],
+  [ServiceStatus.FULLY_BOOKED]: [
+    ServiceStatus.ACTIVE,
+    ServiceStatus.DISCONTINUED,
+  ],
+  [ServiceStatus.DISCONTINUED]: [ServiceStatus.ACTIVE],
+};
+
+export function canTransitionStatus(
+  from: ServiceStatus,
+  to: ServiceStatus
+): boolean {
+  return SERVICE_STATUS_TRANSITIONS[from]?.includes(to) ?? false;
+}
+
+/**
+ * Resolves the default revenue model for a service type and rate unit.
+ * Fixed rates are billed once per project for `PROJECT_BASED` services
+ * and once per planned month otherwise; every other unit is billed per unit.
+ */
+export function resolveRevenueModel(
+  type: ServiceType,
+  unit: RateUnit
+): RevenueModel {
+  if (unit !== RateUnit.FIXED) return RevenueModel.PER_UNIT;
+  return type === ServiceType.PROJECT_BASED
+    ? RevenueModel.FIXED_PROJECT
+    : RevenueModel.FIXED_RECURRING;
+}
+
+/**
+ * Validates a rate tier table.
+ * Tiers must be ordered by ascending `upTo`, only the last tier may be open-ended,
+ * and every tier must share the given currency.
+ */
+export function assertValidRateTiers(
+  tiers: RateTier[],
+  currencyCode: string
+): void {
+  if (!Array.isArray(tiers) || tiers.length === 0) {
+    throw new Error("Rate tiers must be a non-empty array");
+  }
+
+  let previous = 0;
+
+  tiers.forEach((tier, index) => {
+    const isLast = index === tiers.length - 1;
+
+    if (tier.upTo === null) {
+      if (!isLast) throw new Error("Only the last rate tier can be open-ended");
+    } else if (!Number.isFinite(tier.upTo) || tier.upTo <= previous) {
+      throw new Error("Rate tier bounds must be positive and ascending");
+    } else {
+      previous = tier.upTo;
+    }
+
+    if (!tier.amount) throw new Error("Each rate tier must have an amount");
+    if (tier.amount.currency.code !== currencyCode) {
+      throw new Error("Currency mismatch in rate tiers");
+    }
+  });
+}
+
+/**
+ * Prices a number of units through a rate.
+ * Uses the tier table if present, otherwise `amount × units`.
+ * Units beyond the last bounded tier are priced at that tier's amount.
+ *
+ * @param rate - The service rate.
+ * @param units - Units to price.
+ * @returns The total price for the units.
+ */
+export function priceUnits(rate: ServiceRate, units: number): MajikMoney {
+  const tiers = rate.tiers ?? [];
+  if (tiers.length === 0 || units <= 0) return rate.amount.multiply(units);
+
+  if (rate.tierMode === TierMode.VOLUME) {
+    const tier =
+      tiers.find((t) => t.upTo === null || units <= t.upTo) ??
+      tiers[tiers.length - 1];
+    return tier.amount.multiply(units);
+  }
+
+  let total = MajikMoney.zero(rate.amount.currency.code);
+  let floor = 0;
+
+  for (const tier of tiers) {
+    const ceiling = tier.upTo ?? Infinity;
+    total = total.add(tier.amount.multiply(Math.min(units, ceiling) - floor));
+    floor = ceiling;
+    if (units <= ceiling) return total;
+  }
+
+  return total.add(tiers[tiers.length - 1].amount.multiply(units - floor));
+}
+
+/**
+ * Returns true if a finance adjustment applies to the given month.
+ */
+export function adjustmentAppliesTo(
+  adjustment: FinanceAdjustment,
+  month: YYYYMM
+): boolean {
+  if (adjustment.month) return adjustment.month === month;
+  if (!adjustment.recurring) return false;
+
+  const { start, end } = adjustment.recurring;
+  return (!start || month >= start) && (!end || month <= end);
+}
+
+/**
+ * Returns true if a COS item is within its effective date range for the given month.
+ */
+export function isCOSItemEffective(item: COSItem, month: YYYYMM): boolean {
+  if (item.effectiveFrom && month < item.effectiveFrom) return false;
+  if (item.effectiveUntil && month > item.effectiveUntil) return false;
+  return true;
+}
+
+/**
+ * Returns true if a COS subtotal equals unit cost × quantity.
+ */
+export function isCOSSubtotalConsistent(
+  unitCost: MajikMoney,
+  quantity: number,
+  subtotal: MajikMoney
+): boolean {
+  return (
+    subtotal.currency.code === unitCost.currency.code &&
+    subtotal.subtract(unitCost.multiply(quantity)).isZero()
+  );
+}
+
+/**
+ * Returns true if a COS item scales with capacity units.
+ */
+export function isVariableCOS(item: COSItem): boolean {
+  return (item.behavior ?? COSBehavior.VARIABLE) === COSBehavior.VARIABLE;
+}
+
+/**
+ * Builds a capacity plan from a forecast strategy.
+ * Months are generated in UTC starting from `startDate`, and units are rounded to whole numbers.
+ *
+ * @param months - Number of months to generate.
+ * @param forecast - Forecast strategy and parameters.
+ * @param startDate - Date | ISO date | YYYYMM. Defaults to current month.
+ * @returns The generated monthly capacity entries.
+ */
+export function forecastCapacity(
+  months: number,
+  forecast: CapacityForecast,
+  startDate?: StartDateInput
+): MonthlyCapacity[] {
+  if (!Number.isInteger(months) || months <= 0) {
+    throw new Error("Months must be a positive integer");
+  }
+
+  const start = normalizeStartDate(startDate);
+  const units = forecastUnits(months, forecast, start);
+
+  return units.map((value, i) => ({
+    month: offsetMonthsToYYYYMM(start, i),
+    capacity: Math.max(0, Math.round(value)),
+  }));
+}
+
+function assertAmount(amount: number): void {
+  if (!Number.isFinite(amount) || amount < 0) {
+    throw new Error("Amount must be a non-negative number");
+  }
+}
+
+function assertHistory(history: number[]): void {
+  if (!Array.isArray(history) || history.length === 0) {
+    throw new Error("Forecast history must be a non-empty array");
+  }
+  history.forEach(assertAmount);
+}
+
+function forecastUnits(
+  months: number,
+  forecast: CapacityForecast,
+  start: Date
+): number[] {
+  const indexes = Array.from({ length: months }, (_, i) => i);
+
+  switch (forecast.strategy) {
+    case ForecastStrategy.COMPOUND: {
+      const growthRate = forecast.growthRate ?? 0;
+      assertAmount(forecast.amount);
+      if (growthRate < 0) throw new Error("Growth rate cannot be negative");
+      return indexes.map((i) => forecast.amount * Math.pow(1 + growthRate, i));
+    }
+
+    case ForecastStrategy.SEASONAL: {
+      const growthRate = forecast.growthRate ?? 0;
+      assertAmount(forecast.amount);
+      if (growthRate < 0) throw new Error("Growth rate cannot be negative");
+      if (
+        forecast.multipliers?.length !== 12 ||
+        forecast.multipliers.some((m) => !Number.isFinite(m) || m < 0)
+      ) {
+        throw new Error("Seasonal multipliers must be 12 non-negative numbers");
+      }
+      return indexes.map((i) => {
+        const calendarMonth = (start.getUTCMonth() + i) % 12;
+        return (
+          forecast.amount *
+          forecast.multipliers[calendarMonth] *
+          Math.pow(1 + growthRate, i)
+        );
+      });
+    }
+
+    case ForecastStrategy.LINEAR: {
+      assertAmount(forecast.amount);
+      if (!Number.isFinite(forecast.increment)) {
+        throw new Error("Increment must be a number");
+      }
+      return indexes.map((i) => forecast.amount + forecast.increment * i);
+    }
+
+    case ForecastStrategy.STEP: {
+      assertAmount(forecast.amount);
+      const steps = [...(forecast.steps ?? [])].sort((a, b) =>
+        a.month.localeCompare(b.month)
+      );
+      steps.forEach((step) => {
+        if (!isValidYYYYMM(step.month)) {
+          throw new Error(`Invalid month: ${step.month}`);
+        }
+        assertAmount(step.amount);
+      });
+      return indexes.map((i) => {
+        const month = offsetMonthsToYYYYMM(start, i);
+        const step = steps.filter((s) => s.month <= month).pop();
+        return step ? step.amount : forecast.amount;
+      });
+    }
+
+    case ForecastStrategy.MOVING_AVERAGE: {
+      assertHistory(forecast.history);
+      const window = forecast.window ?? 3;
+      if (!Number.isInteger(window) || window <= 0) {
+        throw new Error("Window must be a positive integer");
+      }
+      const series = [...forecast.history];
+      return indexes.map(() => {
+        const recent = series.slice(-window);
+        const next = recent.reduce((sum, v) => sum + v, 0) / recent.length;
+        series.push(next);
+        return next;
+      });
+    }
+
+    case ForecastStrategy.EXPONENTIAL_SMOOTHING: {
+      assertHistory(forecast.history);
+      const alpha = forecast.alpha ?? 0.5;
+      if (!Number.isFinite(alpha) || alpha <= 0 || alpha > 1) {
+        throw new Error("Alpha must be between 0 and 1");
+      }
+      const level = forecast.history
+        .slice(1)
+        .reduce((l, v) => alpha * v + (1 - alpha) * l, forecast.history[0]);
+      return indexes.map(() => level);
+    }
+
+    default:
+      throw new Error("Invalid forecast strategy");
+  }
+}
+
+/** Currency used when neither a rate nor a price sets one */
+export const DEFAULT_CURRENCY_CODE = "PHP";
+
+export const DEFAULT_HOURS_PER_DAY = 8;
+
+/**
+ * Converts time entries to units of a rate unit:
+ * hours for PER_HOUR, days for PER_DAY, sessions for PER_SESSION, and hours otherwise.
+ *
+ * @param entries - Time entries to convert.
+ * @param unit - Rate unit of the service.
+ * @param hoursPerDay - Hours in a working day. Defaults to 8.
+ * @returns The total units.
+ */
+export function timeEntriesToUnits(
+  entries: TimesheetEntry[],
+  unit: RateUnit,
+  hoursPerDay: number = DEFAULT_HOURS_PER_DAY
+): number {
+  if (unit === RateUnit.PER_SESSION) {
+    return entries.reduce((sum, e) => sum + (e.sessions ?? 1), 0);
+  }
+
+  const hours = entries.reduce((sum, e) => sum + e.hours, 0);
+  return unit === RateUnit.PER_DAY ? hours / hoursPerDay : hours;
+}
+
+/**
+ * Formats rows as CSV (RFC 4180). Fields containing commas, quotes or line breaks are quoted.
+ *
+ * @param rows - Rows of fields. `undefined` becomes an empty field.
+ * @returns CSV text with CRLF line endings.
+ */
+export function toCSV(rows: (string | number | undefined)[][]): string {
+  const field = (value: string | number | undefined): string => {
+    const text = value === undefined ? "" : String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+  return rows.map((row) => row.map(field).join(",")).join("\r\n");
+}
+
+/**
+ * Parses CSV text (RFC 4180) into rows of fields.
+ * Supports quoted fields, escaped quotes and CRLF or LF line endings.
+ * Blank lines are kept as a single empty field so row numbers stay aligned.
+ *
+ * @param text - CSV text.
+ * @returns Rows of raw string fields.
+ * @throws Will throw an error if a quoted field is not closed.
+ */
+export function parseCSV(text: string): string[][] {
+  return parseCSVRecords(text).map((r) => r.fields);
+}
+
+/**
+ * Parses CSV text like `parseCSV()`, keeping the line each record starts on.
+ * Line numbers differ from record numbers when quoted fields contain line breaks.
+ *
+ * @param text - CSV text.
+ * @returns Records with their 1-based start line.
+ * @throws Will throw an error if a quoted field is not closed.
+ */
+export function parseCSVRecords(text: string): CSVRecord[] {
+  const rows: CSVRecord[] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  let line = 1;
+  let start = 1;
+
+  const endRow = () => {
+    row.push(field);
+    rows.push({ line: start, fields: row });
+    row = [];
+    field = "";
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        if (char === "\n" || (char === "\r" && text[i + 1] !== "\n")) line++;
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      endRow();
+      start = ++line;
+    } else {
+      field += char;
+    }
+  }
+
+  if (quoted) throw new Error("Unterminated quoted field in CSV");
+  if (field !== "" || row.length > 0) endRow();
+
+  return rows;
+}
+
+/**
+ * Coalesces change events so each rate month, COS item, time entry, resource, variant, booking,
+ * milestone, adjustment, tax rule, the capacity plan, the status and the details appear at most once,
+ * with the first `before` and the last `after`.
+ * An item added and removed in the same batch, or a status changed back, disappears.
+ *
+ * @param events - Events in the order they were emitted.
+ * @returns The coalesced events, in order of first occurrence.
+ */
+export function coalesceServiceEvents(
+  events: ServiceChangeEvent[]
+): ServiceChangeEvent[] {
+  const merged = new Map<string, ServiceChangeEvent | null>();
+
+  events.forEach((event) => {
+    const key = serviceEventKey(event);
+    const previous = merged.get(key);
+    if (!previous) {
+      merged.set(key, event);
+      return;
+    }
+
+    const before = previous.before;
+    const after = event.after;
+
+    const [kind, change] = event.type.split(":");
+    if (["added", "removed", "updated"].includes(change)) {
+      const type =
+        before === undefined
+          ? `${kind}:added`
+          : after === undefined
+          ? `${kind}:removed`
+          : `${kind}:updated`;
+      merged.set(
+        key,
+        before === undefined && after === undefined
+          ? null
+          : ({ type, before, after } as ServiceChangeEvent)
+      );
+      return;
+    }
+
+    if (event.type === "status:changed" && before === after) {
+      merged.set(key, null);
+      return;
+    }
+
+    merged.set(key, { ...event, before } as ServiceChangeEvent);
+  });
+
+  return [...merged.values()].filter(
+    (e): e is ServiceChangeEvent => e !== null
+  );
+}
+
+function serviceEventKey(event: ServiceChangeEvent): string {
+  switch (event.type) {
+    case "rate:changed":
+      return `rate:${event.effectiveFrom ?? ""}`;
+    case "cos:added":
+    case "timesheet:added":
+    case "resource:added":
+    case "variant:added":
+    case "booking:added":
+    case "milestone:added":
+    case "adjustment:added":
+    case "taxRule:added":
+      return `${event.type.split(":")[0]}:${event.after.id}`;
+    case "cos:removed":
+    case "cos:updated":
+    case "timesheet:removed":
+    case "resource:removed":
+    case "resource:updated":
+    case "variant:removed":
+    case "variant:updated":
+    case "booking:removed":
+    case "milestone:removed":
+    case "adjustment:removed":
+    case "taxRule:removed":
+      return `${event.type.split(":")[0]}:${event.before.id}`;
+    default:
+      return event.type;
+  }
+}
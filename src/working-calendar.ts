@@ -0,0 +1,332 @@
+import {
+  CalendarDate,
+  CalendarException,
+  CalendarHoliday,
+  MonthlyCapacity,
+  StartDateInput,
+  WorkingCalendarJSON,
+  WorkingCalendarOptions,
+  YYYYMM,
+} from "./types";
+import { RateUnit, Weekday } from "./enums";
+import {
+  DEFAULT_HOURS_PER_DAY,
+  isValidYYYYMM,
+  normalizeStartDate,
+  offsetMonthsToYYYYMM,
+} from "./utils";
+
+const WEEKDAYS: Weekday[] = [
+  Weekday.MONDAY,
+  Weekday.TUESDAY,
+  Weekday.WEDNESDAY,
+  Weekday.THURSDAY,
+  Weekday.FRIDAY,
+];
+
+/**
+ * A working calendar: weekly working days, hours per day, holidays and per-date exceptions.
+ * Derives monthly capacity in hours or days. One calendar can be shared by many services.
+ *
+ * A date's hours are resolved from its exception first, then holidays, then the working week.
+ * `Date` arguments are read by their UTC date, so pass YYYY-MM-DD strings for local calendar days.
+ */
+export class MajikWorkingCalendar {
+  readonly name?: string;
+
+  private days = new Set<Weekday>(WEEKDAYS);
+  private hours: number = DEFAULT_HOURS_PER_DAY;
+  /** Keyed by YYYY-MM-DD, or MM-DD for recurring holidays */
+  private holidayMap = new Map<string, CalendarHoliday>();
+  private exceptionMap = new Map<CalendarDate, CalendarException>();
+
+  /**
+   * Creates a new working calendar.
+   * @param options - Name, working days (Monday–Friday by default), hours per day (8 by default),
+   * holidays and exceptions.
+   */
+  constructor(options: WorkingCalendarOptions = {}) {
+    this.name = options.name;
+    if (options.workingDays) this.setWorkingDays(options.workingDays);
+    if (options.hoursPerDay !== undefined) {
+      this.setHoursPerDay(options.hoursPerDay);
+    }
+    (options.holidays ?? []).forEach((h) =>
+      this.addHoliday(h.date, h.name, h.recurring)
+    );
+    (options.exceptions ?? []).forEach((e) =>
+      this.setException(e.date, e.hours, e.note)
+    );
+  }
+
+  /** Returns the working days of the week, Sunday first */
+  get workingDays(): Weekday[] {
+    return [...this.days].sort((a, b) => a - b);
+  }
+
+  /** Returns the hours in a regular working day */
+  get hoursPerDay(): number {
+    return this.hours;
+  }
+
+  /** Returns all holidays, sorted by date */
+  get holidays(): CalendarHoliday[] {
+    return [...this.holidayMap.values()]
+      .map((h) => ({ ...h }))
+      .sort((a, b) => a.date.localeCompare(b.date));
+  }
+
+  /** Returns all exceptions, sorted by date */
+  get exceptions(): CalendarException[] {
+    return [...this.exceptionMap.values()]
+      .map((e) => ({ ...e }))
+      .sort((a, b) => a.date.localeCompare(b.date));
+  }
+
+  /**
+   * Sets the working days of the week.
+   * @param days - Weekdays worked, e.g. `[Weekday.MONDAY, ..., Weekday.FRIDAY]`.
+   */
+  setWorkingDays(days: Weekday[]): this {
+    days.forEach((d) => {
+      if (!Object.values(Weekday).includes(d)) {
+        throw new Error(`Invalid weekday: ${d}`);
+      }
+    });
+    this.days = new Set(days);
+    return this;
+  }
+
+  /**
+   * Sets the hours in a regular working day.
+   * @param hours - Hours per day (must be positive, at most 24).
+   */
+  setHoursPerDay(hours: number): this {
+    if (!Number.isFinite(hours) || hours <= 0 || hours > 24) {
+      throw new Error("Hours per day must be between 0 and 24");
+    }
+    this.hours = hours;
+    return this;
+  }
+
+  /**
+   * Adds a holiday, replacing any holiday on the same date.
+   * @param date - YYYY-MM-DD date or Date.
+   * @param name - Optional holiday name.
+   * @param recurring - Repeat on the same month and day every year. Defaults to false.
+   */
+  addHoliday(
+    date: CalendarDate | Date,
+    name?: string,
+    recurring: boolean = false
+  ): this {
+    const day = toCalendarDate(date);
+    this.holidayMap.set(recurring ? day.slice(5) : day, {
+      date: day,
+      name,
+      recurring: recurring || undefined,
+    });
+    return this;
+  }
+
+  /**
+   * Removes a holiday, one-off or recurring.
+   * @param date - YYYY-MM-DD date or Date the holiday was added with.
+   */
+  removeHoliday(date: CalendarDate | Date): this {
+    const day = toCalendarDate(date);
+    this.holidayMap.delete(day);
+    if (this.holidayMap.get(day.slice(5))?.date === day) {
+      this.holidayMap.delete(day.slice(5));
+    }
+    return this;
+  }
+
+  /**
+   * Overrides the working hours of a single date.
+   * @param date - YYYY-MM-DD date or Date.
+   * @param hours - Hours worked on that date (0 closes it, at most 24).
+   * @param note - Optional note, e.g. "Company offsite".
+   */
+  setException(date: CalendarDate | Date, hours: number, note?: string): this {
+    if (!Number.isFinite(hours) || hours < 0 || hours > 24) {
+      throw new Error("Exception hours must be between 0 and 24");
+    }
+    const day = toCalendarDate(date);
+    this.exceptionMap.set(day, { date: day, hours, note });
+    return this;
+  }
+
+  /**
+   * Removes the exception on a date.
+   * @param date - YYYY-MM-DD date or Date.
+   */
+  removeException(date: CalendarDate | Date): this {
+    this.exceptionMap.delete(toCalendarDate(date));
+    return this;
+  }
+
+  /* ------------------ QUERIES ------------------ */
+
+  /**
+   * Returns the holiday on a date, if any.
+   * @param date - YYYY-MM-DD date or Date.
+   */
+  getHoliday(date: CalendarDate | Date): CalendarHoliday | undefined {
+    const day = toCalendarDate(date);
+    const holiday =
+      this.holidayMap.get(day) ?? this.holidayMap.get(day.slice(5));
+    return holiday ? { ...holiday } : undefined;
+  }
+
+  /**
+   * Returns the working hours on a date.
+   * @param date - YYYY-MM-DD date or Date.
+   */
+  getHours(date: CalendarDate | Date): number {
+    const day = toCalendarDate(date);
+
+    const exception = this.exceptionMap.get(day);
+    if (exception) return exception.hours;
+
+    if (this.getHoliday(day)) return 0;
+
+    const weekday = new Date(`${day}T00:00:00Z`).getUTCDay() as Weekday;
+    return this.days.has(weekday) ? this.hours : 0;
+  }
+
+  /**
+   * Returns true if any hours are worked on a date.
+   * @param date - YYYY-MM-DD date or Date.
+   */
+  isWorkingDay(date: CalendarDate | Date): boolean {
+    return this.getHours(date) > 0;
+  }
+
+  /**
+   * Returns the total working hours in a month.
+   * @param month - YYYYMM month.
+   */
+  getWorkingHours(month: YYYYMM): number {
+    if (!isValidYYYYMM(month)) throw new Error("Invalid month");
+
+    const [year, mm] = month.split("-").map(Number);
+    const length = new Date(Date.UTC(year, mm, 0)).getUTCDate();
+
+    let hours = 0;
+    for (let d = 1; d <= length; d++) {
+      hours += this.getHours(`${month}-${String(d).padStart(2, "0")}`);
+    }
+    return hours;
+  }
+
+  /**
+   * Returns the working days in a month, in full-day equivalents.
+   * Shortened days count as a fraction of `hoursPerDay`.
+   * @param month - YYYYMM month.
+   */
+  getWorkingDays(month: YYYYMM): number {
+    return roundUnits(this.getWorkingHours(month) / this.hours);
+  }
+
+  /**
+   * Returns a month's capacity in the units of a rate: hours for PER_HOUR, days for PER_DAY.
+   * @param month - YYYYMM month.
+   * @param unit - Rate unit of the service.
+   * @throws Will throw an error for rate units that are not time-based.
+   */
+  getCapacityUnits(month: YYYYMM, unit: RateUnit): number {
+    if (unit === RateUnit.PER_HOUR) {
+      return roundUnits(this.getWorkingHours(month));
+    }
+    if (unit === RateUnit.PER_DAY) return this.getWorkingDays(month);
+
+    throw new Error(
+      `Cannot derive ${unit} capacity from a working calendar; use ${RateUnit.PER_HOUR} or ${RateUnit.PER_DAY}`
+    );
+  }
+
+  /**
+   * Generates monthly capacity entries from the calendar.
+   *
+   * @param months - Number of months to generate from the start date.
+   * @param unit - Rate unit of the service: PER_HOUR or PER_DAY.
+   * @param startDate - Date | ISO date | YYYYMM. Defaults to current month.
+   * @returns The generated monthly capacity entries.
+   */
+  generateCapacity(
+    months: number,
+    unit: RateUnit,
+    startDate?: StartDateInput
+  ): MonthlyCapacity[] {
+    if (!Number.isInteger(months) || months <= 0) {
+      throw new Error("Months must be a positive integer");
+    }
+
+    const start = normalizeStartDate(startDate);
+
+    return Array.from({ length: months }, (_, i) => {
+      const month = offsetMonthsToYYYYMM(start, i);
+      return { month, capacity: this.getCapacityUnits(month, unit) };
+    });
+  }
+
+  /* ------------------ UTIL ------------------ */
+
+  /**
+   * Converts the calendar to a plain JSON object.
+   * @returns {WorkingCalendarJSON} - The plain object representation of the calendar.
+   */
+  toJSON(): WorkingCalendarJSON {
+    return {
+      __type: "MajikWorkingCalendar",
+      name: this.name,
+      workingDays: this.workingDays,
+      hoursPerDay: this.hours,
+      holidays: this.holidays,
+      exceptions: this.exceptions,
+    };
+  }
+
+  /**
+   * Static method to parse a JSON string or object into a `MajikWorkingCalendar`.
+   *
+   * @param json - A JSON string or plain object to be parsed.
+   * @returns {MajikWorkingCalendar} - A new calendar with the parsed settings.
+   * @throws Will throw an error if the working days are missing or any value is invalid.
+   */
+  static parseFromJSON(
+    json: string | WorkingCalendarJSON
+  ): MajikWorkingCalendar {
+    const parsed: WorkingCalendarJSON =
+      typeof json === "string" ? JSON.parse(json) : json;
+
+    if (!Array.isArray(parsed?.workingDays)) {
+      throw new Error("Missing required property: 'workingDays'");
+    }
+
+    return new MajikWorkingCalendar(parsed);
+  }
+}
+
+function toCalendarDate(date: CalendarDate | Date): CalendarDate {
+  if (date instanceof Date) {
+    if (isNaN(date.getTime())) throw new Error("Invalid date");
+    // UTC, like logTime() and every other month and date in the library
+    return date.toISOString().slice(0, 10);
+  }
+
+  const parsed = new Date(`${date}T00:00:00Z`);
+  if (
+    !/^\d{4}-\d{2}-\d{2}$/.test(date) ||
+    isNaN(parsed.getTime()) ||
+    parsed.toISOString().slice(0, 10) !== date
+  ) {
+    throw new Error(`Invalid date: ${date}; expected YYYY-MM-DD`);
+  }
+  return date;
+}
+
+function roundUnits(units: number): number {
+  return Math.round(units * 100) / 100;
+}
@@ -0,0 +1,75 @@
+import { describe, expect, it } from "vitest";
+import { COSBehavior } from "../src";
+import { hourly, php } from "./helpers";
+
+const plan = () =>
+  hourly(100, [
+    { month: "2025-01", capacity: 10 },
+    { month: "2025-02", capacity: 20 },
+    { month: "2025-03", capacity: 20 },
+  ])
+    .addCOS("Tools", php(20))
+    .addCOS("Office", php(300), 1, undefined, {
+      behavior: COSBehavior.FIXED_MONTHLY,
+    });
+
+describe("actuals", () => {
+  it("prices delivered units and derives COS from them", () => {
+    const service = plan().recordActual("2025-01", 12);
+
+    expect(service.hasActual("2025-01")).toBe(true);
+    expect(service.getActualUnits("2025-01")).toBe(12);
+    expect(service.getActualRevenue("2025-01").toMajor()).toBe(1200);
+    expect(service.getActualCOS("2025-01").toMajor()).toBe(540);
+    expect(service.getActualProfit("2025-01").toMajor()).toBe(660);
+  });
+
+  it("uses a recorded actual COS as is", () => {
+    const service = plan().recordActual("2025-01", 12, php(800));
+
+    expect(service.getActualCOS("2025-01").toMajor()).toBe(800);
+    expect(service.getActualProfit("2025-01").toMajor()).toBe(400);
+  });
+
+  it("reports the variance as actual less planned", () => {
+    const variance = plan().recordActual("2025-01", 8).getVariance("2025-01");
+
+    expect(variance.planned.revenue.toMajor()).toBe(1000);
+    expect(variance.variance.units).toBe(-2);
+    expect(variance.variance.revenue.toMajor()).toBe(-200);
+    expect(variance.variance.cos.toMajor()).toBe(-40);
+    expect(variance.variance.profit.toMajor()).toBe(-160);
+  });
+
+  it("totals months with actuals within the report period", () => {
+    const report = plan()
+      .recordActual("2025-01", 8)
+      .recordActual("2025-02", 25)
+      .recordActual("2025-03", 20)
+      .getVarianceReport("2025-01", "2025-02");
+
+    expect(report.months.map((m) => m.month)).toEqual(["2025-01", "2025-02"]);
+    expect(report.totals.planned.units).toBe(30);
+    expect(report.totals.actual.units).toBe(33);
+    expect(report.totals.variance.revenue.toMajor()).toBe(300);
+  });
+
+  it("clears actuals and rejects unplanned months", () => {
+    const service = plan().recordActual("2025-01", 8).clearActual("2025-01");
+
+    expect(service.hasActual("2025-01")).toBe(false);
+    expect(service.getVarianceReport().months).toHaveLength(0);
+    expect(() => service.recordActual("2025-06", 1)).toThrow(/not found/);
+    expect(() => service.recordActual("2025-01", -1)).toThrow(/non-negative/);
+  });
+
+  it("keeps actuals with their month when the period is recomputed", () => {
+    const service = plan()
+      .recordActual("2025-02", 18, php(500))
+      .recomputeCapacityPeriod("2025-02", "2025-04");
+
+    expect(service.getActualUnits("2025-02")).toBe(18);
+    expect(service.getActualCOS("2025-02").toMajor()).toBe(500);
+    expect(service.hasActual("2025-03")).toBe(false);
+  });
+});
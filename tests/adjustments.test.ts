@@ -0,0 +1,131 @@
+import { describe, expect, it } from "vitest";
+import { MajikMoney } from "@thezelijah/majik-money";
+import { AdjustmentKind, MajikService } from "../src";
+import { hourly, php } from "./helpers";
+
+const plan = () =>
+  hourly(100, [
+    { month: "2025-01", capacity: 10 },
+    { month: "2025-02", capacity: 20 },
+  ]).addCOS("Tools", php(20));
+
+describe("finance adjustments", () => {
+  it("deducts stored discounts, returns and allowances from net revenue", () => {
+    const service = plan()
+      .addAdjustment(AdjustmentKind.DISCOUNT, "Loyalty", php(100), "2025-01")
+      .addAdjustment(AdjustmentKind.RETURN, "Refund", php(50), "2025-01")
+      .addRecurringAdjustment(
+        AdjustmentKind.ALLOWANCE,
+        "Service credit",
+        php(10),
+        "2025-02"
+      );
+
+    expect(service.getNetRevenue("2025-01").toMajor()).toBe(850);
+    expect(service.getNetRevenue("2025-02").toMajor()).toBe(1990);
+    expect(service.netRevenue.toMajor()).toBe(2840);
+  });
+
+  it("applies recurring adjustments within their window only", () => {
+    const service = plan().addRecurringAdjustment(
+      AdjustmentKind.ALLOWANCE,
+      "Service credit",
+      php(10),
+      "2025-02",
+      "2025-03"
+    );
+
+    expect(service.getAdjustments("2025-01")).toHaveLength(0);
+    expect(service.getAdjustments("2025-03")).toHaveLength(1);
+    expect(service.getAdjustments("2025-04")).toHaveLength(0);
+  });
+
+  it("deducts operating expenses and tax adjustments from net profit", () => {
+    const service = plan()
+      .addAdjustment(AdjustmentKind.DISCOUNT, "Loyalty", php(150), "2025-01")
+      .addAdjustment(
+        AdjustmentKind.OPERATING_EXPENSE,
+        "Rent",
+        php(100),
+        "2025-01"
+      )
+      .addAdjustment(AdjustmentKind.TAX, "Local tax", php(50), "2025-01");
+
+    // 1000 revenue - 150 discount - 200 COS - 100 expenses - 50 tax
+    expect(service.getNetProfit("2025-01").toMajor()).toBe(500);
+    expect(service.getNetIncome("2025-01").toMajor()).toBe(500);
+  });
+
+  it("deducts ad-hoc arguments on top of stored adjustments", () => {
+    const service = plan().addAdjustment(
+      AdjustmentKind.DISCOUNT,
+      "Loyalty",
+      php(100),
+      "2025-01"
+    );
+
+    expect(service.getNetRevenue("2025-01", php(50)).toMajor()).toBe(850);
+    expect(service.getNetProfit("2025-01", php(100), php(25)).toMajor()).toBe(
+      575
+    );
+  });
+
+  it("restores net figures when an adjustment is removed", () => {
+    const service = plan().addAdjustment(
+      AdjustmentKind.DISCOUNT,
+      "Loyalty",
+      php(100),
+      "2025-01"
+    );
+    service.removeAdjustment(service.adjustments[0].id);
+
+    expect(service.getNetRevenue("2025-01").toMajor()).toBe(1000);
+    expect(() => service.removeAdjustment("missing")).toThrow(/not found/);
+  });
+
+  it("rejects invalid adjustments", () => {
+    const service = plan();
+
+    expect(() =>
+      service.addAdjustment(AdjustmentKind.DISCOUNT, " ", php(10), "2025-01")
+    ).toThrow(/label/);
+    expect(() =>
+      service.addAdjustment(
+        AdjustmentKind.DISCOUNT,
+        "Promo",
+        php(-10),
+        "2025-01"
+      )
+    ).toThrow(/negative/);
+    expect(() =>
+      service.addAdjustment(
+        AdjustmentKind.DISCOUNT,
+        "Promo",
+        MajikMoney.fromMajor(10, "USD"),
+        "2025-01"
+      )
+    ).toThrow();
+    expect(() =>
+      service.addRecurringAdjustment(
+        AdjustmentKind.ALLOWANCE,
+        "Credit",
+        php(10),
+        "2025-03",
+        "2025-02"
+      )
+    ).toThrow(/Start month/);
+  });
+
+  it("keeps adjustments through toJSON and parseFromJSON", () => {
+    const service = plan().addAdjustment(
+      AdjustmentKind.DISCOUNT,
+      "Loyalty",
+      php(100),
+      "2025-01"
+    );
+    const parsed = MajikService.parseFromJSON(JSON.stringify(service.toJSON()));
+
+    expect(parsed.adjustments).toHaveLength(1);
+    expect(parsed.getNetRevenue("2025-01").toMajor()).toBe(900);
+  });
+});
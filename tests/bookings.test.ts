@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest";
+import { ServiceStatus } from "../src";
+import { hourly } from "./helpers";
+
+// Months far in the future are always open for booking
+const plan = () =>
+  hourly(100, [
+    { month: "2099-01", capacity: 10 },
+    { month: "2099-02", capacity: 20 },
+  ]);
+
+describe("booking ledger", () => {
+  it("tracks booked and remaining units per month", () => {
+    const service = plan().addBooking("Acme", "2099-01", 4);
+
+    expect(service.getBookedUnits("2099-01")).toBe(4);
+    expect(service.getRemainingCapacity("2099-01")).toBe(6);
+    expect(service.getUtilization("2099-01")).toBe(0.4);
+  });
+
+  it("rejects bookings beyond remaining capacity or outside the plan", () => {
+    const service = plan().addBooking("Acme", "2099-01", 8);
+
+    expect(() => service.addBooking("Beta", "2099-01", 3)).toThrow(
+      /exceeds remaining capacity/
+    );
+    expect(() => service.addBooking("Beta", "2099-03", 1)).toThrow(
+      /not in the capacity plan/
+    );
+  });
+
+  it("rejects capacity cuts below the booked units", () => {
+    const service = plan().addBooking("Acme", "2099-01", 8);
+
+    expect(() => service.updateCapacityUnits("2099-01", 5)).toThrow(/booked/);
+    expect(() => service.removeCapacity("2099-01")).toThrow(/booked/);
+    expect(service.getCapacityUnits("2099-01")).toBe(10);
+  });
+});
+
+describe("automatic FULLY_BOOKED status", () => {
+  it("switches once every open month is full, and back when capacity frees up", () => {
+    const service = plan()
+      .addBooking("Acme", "2099-01", 10)
+      .addBooking("Acme", "2099-02", 20);
+
+    expect(service.status).toBe(ServiceStatus.FULLY_BOOKED);
+    expect(service.statusHistory.at(-1)?.automatic).toBe(true);
+
+    service.removeBooking(service.bookings[1].id);
+    expect(service.status).toBe(ServiceStatus.ACTIVE);
+  });
+
+  it("stays ACTIVE while any open month has room", () => {
+    const service = plan().addBooking("Acme", "2099-01", 10);
+    expect(service.status).toBe(ServiceStatus.ACTIVE);
+  });
+
+  it("keeps a FULLY_BOOKED status set by hand", () => {
+    const service = plan().addBooking("Acme", "2099-01", 1);
+    service.markFullyBooked("Closed for new work");
+
+    service.removeBooking(service.bookings[0].id);
+    expect(service.status).toBe(ServiceStatus.FULLY_BOOKED);
+  });
+
+  it("leaves draft and discontinued services alone", () => {
+    const service = plan().revertToDraft();
+    service.addBooking("Acme", "2099-01", 10).addBooking("Acme", "2099-02", 20);
+    expect(service.status).toBe(ServiceStatus.DRAFT);
+  });
+});
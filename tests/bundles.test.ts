@@ -0,0 +1,223 @@
+import { describe, expect, it } from "vitest";
+import { MajikMoney } from "@thezelijah/majik-money";
+import {
+  MajikServiceBundle,
+  MonthlyCapacity,
+  RateUnit,
+  ServiceType,
+} from "../src";
+import { hourly, php, service } from "./helpers";
+
+const usd = (amount: number) => MajikMoney.fromMajor(amount, "USD");
+
+// Months far in the future are always open for booking
+const january: MonthlyCapacity[] = [{ month: "2099-01", capacity: 40 }];
+
+function components() {
+  const setup = service(
+    { amount: php(50000), unit: RateUnit.FIXED },
+    january,
+    ServiceType.PROJECT_BASED
+  ).addCOS("Hardware", php(100));
+  const support = service({ amount: php(10000), unit: RateUnit.FIXED }, [
+    { month: "2099-01", capacity: 20 },
+  ]);
+  const training = service({ amount: php(2000), unit: RateUnit.PER_SESSION }, [
+    { month: "2099-01", capacity: 10 },
+  ]).addCOS("Venue", php(500));
+  return { setup, support, training };
+}
+
+/** Setup (1 project) + 3 months support (6 hours per bundle) + 4 training sessions */
+function starter() {
+  const { setup, support, training } = components();
+  const bundle = MajikServiceBundle.initialize("Starter Package")
+    .add(setup, 1)
+    .add(support, 3, 6)
+    .add(training, 4);
+  return { bundle, setup, support, training };
+}
+
+describe("bundle pricing", () => {
+  it("sums the components' list prices in their billing terms", () => {
+    const { bundle } = starter();
+
+    expect(bundle.listPrice.toMajor()).toBe(50000 + 3 * 10000 + 4 * 2000);
+    expect(bundle.revenue.toMajor()).toBe(88000);
+  });
+
+  it("applies a discount or a fixed price, one at a time", () => {
+    const { bundle } = starter();
+
+    bundle.setDiscount(0.15);
+    expect(bundle.revenue.toMajor()).toBe(74800);
+    expect(bundle.discountAmount.toMajor()).toBe(13200);
+
+    bundle.setPrice(php(80000));
+    expect(bundle.discount).toBeUndefined();
+    expect(bundle.revenue.toMajor()).toBe(80000);
+
+    bundle.clearPricing();
+    expect(bundle.revenue.toMajor()).toBe(88000);
+  });
+
+  it("rejects invalid pricing", () => {
+    const { bundle, setup } = starter();
+
+    expect(() => bundle.setDiscount(1)).toThrow(/Discount/);
+    expect(() => bundle.setPrice(php(-1))).toThrow(/negative/);
+    expect(
+      () =>
+        new MajikServiceBundle(undefined, "Both", [], {
+          price: php(100),
+          discount: 0.1,
+        })
+    ).toThrow(/either a price or a discount/);
+    expect(() => bundle.add(setup, 1)).toThrow(/already in the bundle/);
+    expect(() => bundle.setQuantity(setup.id, 0)).toThrow(/Quantity/);
+  });
+});
+
+describe("bundle finance", () => {
+  it("costs each component's variable unit cost × the units it consumes", () => {
+    const { bundle } = starter();
+    bundle.setDiscount(0.15);
+
+    // Setup consumes its 40 planned units, training its 4 sessions
+    expect(bundle.cos.toMajor()).toBe(40 * 100 + 4 * 500);
+    expect(bundle.profit.toMajor()).toBe(74800 - 6000);
+    expect(bundle.margin).toBeCloseTo(68800 / 74800);
+  });
+
+  it("allocates revenue to components in proportion to list price", () => {
+    const { bundle } = starter();
+    bundle.setDiscount(0.15);
+
+    const breakdown = bundle.getBreakdown();
+
+    expect(breakdown.map((b) => b.revenue.toMajor())).toEqual([
+      42500, 25500, 6800,
+    ]);
+    expect(breakdown[0]).toMatchObject({ quantity: 1, units: 40 });
+    expect(breakdown[0].margin).toBeCloseTo((42500 - 4000) / 42500);
+    expect(breakdown[1].cos.toMajor()).toBe(0);
+  });
+});
+
+describe("bundle capacity", () => {
+  it("derives the units one bundle consumes unless overridden", () => {
+    const { bundle, setup, support, training } = starter();
+
+    expect(bundle.capacityRequirements).toEqual([
+      { serviceId: setup.id, units: 40 },
+      { serviceId: support.id, units: 6 },
+      { serviceId: training.id, units: 4 },
+    ]);
+
+    bundle.setQuantity(support.id, 3);
+    // Three average months of the support plan
+    expect(bundle.capacityRequirements[1].units).toBe(60);
+  });
+
+  it("reports shortfalls against the remaining capacity", () => {
+    const { bundle, training } = starter();
+    training.addBooking("Acme", "2099-01", 4);
+
+    expect(
+      bundle
+        .getCapacityImplications("2099-01", 2)
+        .map((i) => [i.required, i.remaining, i.shortfall])
+    ).toEqual([
+      [80, 40, 40],
+      [12, 20, 0],
+      [8, 6, 2],
+    ]);
+  });
+
+  it("counts the whole bundles the tightest component supports", () => {
+    const { bundle, setup } = starter();
+
+    expect(bundle.maxBundles("2099-01")).toBe(1);
+
+    bundle.setQuantity(setup.id, 1, 10);
+    expect(bundle.maxBundles("2099-01")).toBe(2);
+    expect(bundle.maxBundles("2099-02")).toBe(0);
+  });
+});
+
+describe("bundle currency", () => {
+  it("requires every component and the price to share a currency", () => {
+    const { bundle } = starter();
+    const foreign = service({ amount: usd(40), unit: RateUnit.PER_HOUR });
+
+    expect(() => bundle.add(foreign, 1)).toThrow(/priced in USD/);
+    expect(() => bundle.setPrice(usd(1500))).toThrow(/Currency mismatch/);
+    expect(() =>
+      MajikServiceBundle.initialize("Empty").setPrice(usd(100)).add(hourly(), 1)
+    ).toThrow(/Currency mismatch with bundle price/);
+  });
+
+  it("rejects totals once a component changes currency", () => {
+    const { bundle } = starter();
+    const extra = hourly();
+    bundle.add(extra, 2);
+
+    extra.setRate({ amount: usd(40), unit: RateUnit.PER_HOUR });
+
+    expect(() => bundle.revenue).toThrow(/must share a currency/);
+    expect(() => bundle.toJSON()).toThrow(/must share a currency/);
+  });
+});
+
+describe("bundle JSON", () => {
+  it("round-trips, resolving components against the given services", () => {
+    const { bundle, setup, support, training } = starter();
+    bundle.setDiscount(0.15);
+
+    const json = bundle.toJSON();
+    const restored = MajikServiceBundle.parseFromJSON(JSON.stringify(json), [
+      setup,
+      support,
+      training,
+    ]);
+
+    expect(json.components.map((c) => c.serviceId)).toEqual([
+      setup.id,
+      support.id,
+      training.id,
+    ]);
+    expect(restored.id).toBe(bundle.id);
+    expect(restored.discount).toBe(0.15);
+    expect(restored.revenue.toMajor()).toBe(74800);
+    expect(restored.capacityRequirements).toEqual(bundle.capacityRequirements);
+  });
+
+  it("restores a fixed price", () => {
+    const { bundle, setup, support, training } = starter();
+    bundle.setPrice(php(80000));
+
+    const restored = MajikServiceBundle.parseFromJSON(bundle.toJSON(), [
+      setup,
+      support,
+      training,
+    ]);
+
+    expect(restored.price?.toMajor()).toBe(80000);
+  });
+
+  it("rejects missing services and a different stored currency", () => {
+    const { bundle, setup, support, training } = starter();
+    const json = bundle.toJSON();
+
+    expect(() =>
+      MajikServiceBundle.parseFromJSON(json, [setup, support])
+    ).toThrow(/not found/);
+    expect(() =>
+      MajikServiceBundle.parseFromJSON({ ...json, currencyCode: "USD" }, [
+        setup,
+        support,
+        training,
+      ])
+    ).toThrow(/priced in PHP/);
+  });
+});
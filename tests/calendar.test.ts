@@ -0,0 +1,135 @@
+import { describe, expect, it } from "vitest";
+import { MajikWorkingCalendar, RateUnit, Weekday } from "../src";
+import { hourly, php, service } from "./helpers";
+
+// January 2025 has 23 weekdays, February 20 and March 21
+const office = () =>
+  new MajikWorkingCalendar({ name: "PH Office", hoursPerDay: 8 });
+
+describe("working calendar", () => {
+  it("counts weekday hours by default", () => {
+    const calendar = office();
+
+    expect(calendar.getWorkingHours("2025-01")).toBe(184);
+    expect(calendar.getWorkingDays("2025-02")).toBe(20);
+    expect(calendar.isWorkingDay("2025-03-15")).toBe(false);
+  });
+
+  it("resolves exceptions before holidays before the working week", () => {
+    const calendar = office()
+      .addHoliday("2025-12-25", "Christmas Day", true)
+      .setException("2025-12-24", 4, "Half day")
+      .setException("2025-03-15", 8, "Working Saturday");
+
+    expect(calendar.getHours("2026-12-25")).toBe(0);
+    expect(calendar.getHoliday("2026-12-25")?.name).toBe("Christmas Day");
+    expect(calendar.getWorkingHours("2025-12")).toBe(21 * 8 + 4);
+    expect(calendar.getWorkingDays("2025-12")).toBe(21.5);
+    expect(calendar.getWorkingDays("2025-03")).toBe(22);
+
+    calendar.setException("2025-12-25", 8, "On call");
+    expect(calendar.getHours("2025-12-25")).toBe(8);
+  });
+
+  it("honors custom working days", () => {
+    const calendar = office().setWorkingDays([
+      Weekday.MONDAY,
+      Weekday.TUESDAY,
+      Weekday.WEDNESDAY,
+      Weekday.THURSDAY,
+    ]);
+
+    // January 2025 has 5 Fridays
+    expect(calendar.getWorkingDays("2025-01")).toBe(18);
+  });
+
+  it("reads Date arguments by their UTC date", () => {
+    const calendar = office().addHoliday(
+      new Date(Date.UTC(2025, 11, 25)),
+      "Christmas Day"
+    );
+
+    expect(calendar.holidays[0].date).toBe("2025-12-25");
+    // 23:30 on the 24th at UTC-2 is the 25th in UTC
+    expect(calendar.getHours(new Date("2025-12-24T23:30:00-02:00"))).toBe(0);
+    expect(calendar.getHours(new Date("2025-12-25T23:59:00Z"))).toBe(0);
+    expect(calendar.getHours(new Date("2025-12-26T00:00:00Z"))).toBe(8);
+  });
+
+  it("rejects invalid dates", () => {
+    expect(() => office().addHoliday("2025-02-30")).toThrow(/Invalid date/);
+    expect(() => office().setException("2025-1-05", 4)).toThrow(/Invalid date/);
+    expect(() => office().getHours(new Date("nope"))).toThrow(/Invalid date/);
+  });
+
+  it("round-trips through JSON", () => {
+    const calendar = office()
+      .addHoliday("2025-12-25", "Christmas Day", true)
+      .setException("2025-12-24", 4);
+    const parsed = MajikWorkingCalendar.parseFromJSON(
+      JSON.stringify(calendar.toJSON())
+    );
+
+    expect(parsed.toJSON()).toEqual(calendar.toJSON());
+    expect(parsed.getWorkingHours("2026-12")).toBe(
+      calendar.getWorkingHours("2026-12")
+    );
+  });
+});
+
+describe("calendar capacity", () => {
+  it("generates hours for PER_HOUR and days for PER_DAY services", () => {
+    const calendar = office().setException("2025-02-14", 4);
+
+    const hours = hourly().generateCapacityFromCalendar(calendar, 2, "2025-01");
+    const days = service({
+      amount: php(800),
+      unit: RateUnit.PER_DAY,
+    }).generateCapacityFromCalendar(calendar, 2, "2025-01");
+
+    expect(hours.capacity.map((c) => c.capacity)).toEqual([184, 156]);
+    expect(days.capacity.map((c) => c.capacity)).toEqual([23, 19.5]);
+  });
+
+  it("rejects rate units that are not time-based", () => {
+    const perSession = service({
+      amount: php(500),
+      unit: RateUnit.PER_SESSION,
+    });
+
+    expect(() =>
+      perSession.generateCapacityFromCalendar(office(), 1, "2025-01")
+    ).toThrow(/Cannot derive/);
+  });
+
+  it("re-derives planned months, keeping adjustments", () => {
+    const calendar = office();
+    const plan = hourly()
+      .generateCapacityFromCalendar(calendar, 2, "2025-01")
+      .updateCapacityAdjustment("2025-01", 10);
+
+    calendar.addHoliday("2025-01-01", "New Year's Day");
+    plan.applyCalendar(calendar);
+
+    expect(plan.capacity[0]).toMatchObject({ capacity: 176, adjustment: 10 });
+    expect(plan.capacity[1].capacity).toBe(160);
+  });
+
+  it("refuses to drop a month below its booked units", () => {
+    const calendar = office();
+    const plan = hourly().generateCapacityFromCalendar(calendar, 1, "2099-02");
+    plan.addBooking("Acme", "2099-02", plan.getCapacityUnits("2099-02"));
+
+    // 10 February 2099 is a Tuesday
+    calendar.setException("2099-02-10", 0);
+
+    expect(() => plan.applyCalendar(calendar)).toThrow(/booked units/);
+    expect(plan.getRemainingCapacity("2099-02")).toBe(0);
+  });
+
+  it("requires an existing plan to re-derive", () => {
+    expect(() => hourly().applyCalendar(office())).toThrow(
+      /No existing capacity plan/
+    );
+  });
+});
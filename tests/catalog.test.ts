@@ -0,0 +1,91 @@
+import { describe, expect, it } from "vitest";
+import { MajikMoney } from "@thezelijah/majik-money";
+import {
+  InMemoryExchangeRateProvider,
+  MajikServiceCatalog,
+  MonthlyCapacity,
+  RateUnit,
+  ServiceStatus,
+} from "../src";
+import { hourly, php, service } from "./helpers";
+
+const plan: MonthlyCapacity[] = [
+  { month: "2025-01", capacity: 10 },
+  { month: "2025-02", capacity: 20 },
+];
+
+function catalog(): MajikServiceCatalog {
+  const design = hourly(100, plan)
+    .setCategory("Design")
+    .addCOS("Tools", php(20));
+  const dev = hourly(200, plan).setCategory("Development");
+  return MajikServiceCatalog.initialize("Studio").add(design).add(dev);
+}
+
+describe("service catalog", () => {
+  it("sums finance figures across services", () => {
+    const studio = catalog();
+
+    expect(studio.grossRevenue.toMajor()).toBe(9000);
+    expect(studio.grossCost.toMajor()).toBe(600);
+    expect(studio.grossProfit.toMajor()).toBe(8400);
+    expect(studio.getRevenue("2025-01").toMajor()).toBe(3000);
+    expect(studio.getCOS("2025-01").toMajor()).toBe(200);
+    expect(studio.getMargin("2025-01")).toBeCloseTo(2800 / 3000);
+  });
+
+  it("combines monthly snapshots with each service's own", () => {
+    const snapshot = catalog().getMonthlySnapshot("2025-02");
+
+    expect(snapshot.revenue.toMajor()).toBe(6000);
+    expect(snapshot.cogs.toMajor()).toBe(400);
+    expect(snapshot.services.map((s) => s.snapshot.revenue.toMajor())).toEqual([
+      2000, 4000,
+    ]);
+  });
+
+  it("reports services in another currency at the reporting currency", () => {
+    const consulting = service(
+      { amount: MajikMoney.fromMajor(10, "USD"), unit: RateUnit.PER_HOUR },
+      [{ month: "2025-01", capacity: 10 }]
+    ).setExchangeRateProvider(
+      new InMemoryExchangeRateProvider([{ from: "USD", to: "PHP", rate: 56 }])
+    );
+    const studio = catalog().add(consulting);
+
+    expect(studio.reportingCurrency).toBe("PHP");
+    expect(studio.getRevenue("2025-01").toMajor()).toBe(3000 + 5600);
+  });
+
+  it("filters, looks up and rejects duplicates", () => {
+    const studio = catalog();
+    const [design] = studio.services;
+    design.setStatus(ServiceStatus.ACTIVE);
+
+    expect(studio.categories).toEqual(["Design", "Development"]);
+    expect(studio.filter({ category: "Design" }).size).toBe(1);
+    expect(studio.filter({ status: ServiceStatus.ACTIVE }).size).toBe(1);
+    expect(studio.getById(design.id)).toBe(design);
+    expect(() => studio.add(design)).toThrow(/already exists/);
+    expect(studio.remove(design.id).size).toBe(1);
+    expect(() => studio.remove(design.id)).toThrow(/not found/);
+  });
+
+  it("round-trips through JSON", () => {
+    const studio = catalog();
+    const parsed = MajikServiceCatalog.parseFromJSON(
+      JSON.stringify(studio.toJSON())
+    );
+
+    expect(parsed.id).toBe(studio.id);
+    expect(parsed.size).toBe(2);
+    expect(parsed.grossRevenue.toMajor()).toBe(9000);
+  });
+
+  it("falls back to the default currency when empty", () => {
+    const empty = MajikServiceCatalog.initialize("Empty");
+
+    expect(empty.grossRevenue.isZero()).toBe(true);
+    expect(empty.reportingCurrency).toBe(empty.grossRevenue.currency.code);
+  });
+});
@@ -0,0 +1,92 @@
+import { describe, expect, it } from "vitest";
+import { COSBehavior } from "../src";
+import { hourly, php } from "./helpers";
+
+const plan = () =>
+  hourly(100, [
+    { month: "2025-01", capacity: 10 },
+    { month: "2025-02", capacity: 20 },
+    { month: "2025-03", capacity: 20 },
+  ]);
+
+describe("COS behaviors", () => {
+  it("charges variable COS per planned unit", () => {
+    const service = plan().addCOS("Tools", php(20));
+
+    expect(service.getUnitCost("2025-01").toMajor()).toBe(20);
+    expect(service.getCOS("2025-01").toMajor()).toBe(200);
+    expect(service.getCOS("2025-02").toMajor()).toBe(400);
+  });
+
+  it("charges fixed monthly COS once per planned month", () => {
+    const service = plan()
+      .addCOS("Tools", php(20))
+      .addCOS("Office", php(300), 1, undefined, {
+        behavior: COSBehavior.FIXED_MONTHLY,
+      });
+
+    expect(service.getFixedCost("2025-01").toMajor()).toBe(300);
+    expect(service.getCOS("2025-01").toMajor()).toBe(500);
+    expect(service.getProfit("2025-01").toMajor()).toBe(500);
+    expect(service.getFixedCost("2025-04").toMajor()).toBe(0);
+  });
+
+  it("charges one-time COS in its effective month or the first planned month", () => {
+    const service = plan()
+      .addCOS("Setup", php(500), 1, undefined, {
+        behavior: COSBehavior.ONE_TIME,
+      })
+      .addCOS("Audit", php(250), 2, undefined, {
+        behavior: COSBehavior.ONE_TIME,
+        effectiveFrom: "2025-03",
+      });
+
+    expect(service.getCOS("2025-01").toMajor()).toBe(500);
+    expect(service.getCOS("2025-02").toMajor()).toBe(0);
+    expect(service.getCOS("2025-03").toMajor()).toBe(500);
+    expect(service.grossCost.toMajor()).toBe(1000);
+  });
+
+  it("applies COS within its effective date range only", () => {
+    const service = plan().addCOS("License", php(10), 1, undefined, {
+      effectiveFrom: "2025-02",
+      effectiveUntil: "2025-02",
+    });
+
+    expect(service.getCOS("2025-01").toMajor()).toBe(0);
+    expect(service.getCOS("2025-02").toMajor()).toBe(200);
+    expect(service.getCOS("2025-03").toMajor()).toBe(0);
+  });
+
+  it("recomputes the subtotal and schedule on update", () => {
+    const service = plan().addCOS("Tools", php(20));
+    const id = service.cos[0].id;
+
+    service.updateCOS(id, {
+      quantity: 2,
+      behavior: COSBehavior.FIXED_MONTHLY,
+    });
+
+    expect(service.cos[0].subtotal.toMajor()).toBe(40);
+    expect(service.getCOS("2025-01").toMajor()).toBe(40);
+  });
+
+  it("rejects invalid schedules and quantities", () => {
+    const service = plan();
+
+    expect(() => service.addCOS("Tools", php(20), 0)).toThrow(
+      /greater than zero/
+    );
+    expect(() =>
+      service.addCOS("Tools", php(20), 1, undefined, {
+        behavior: "Weekly" as COSBehavior,
+      })
+    ).toThrow(/Invalid COS behavior/);
+    expect(() =>
+      service.addCOS("Tools", php(20), 1, undefined, {
+        effectiveFrom: "2025-03",
+        effectiveUntil: "2025-02",
+      })
+    ).toThrow(/effectiveFrom must be <= effectiveUntil/);
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, expect, it } from "vitest";
+import { parseCSV, parseCSVRecords, toCSV } from "../src";
+import { hourly, php } from "./helpers";
+
+describe("CSV parsing", () => {
+  it("round-trips quoted fields", () => {
+    const rows = [
+      ["item", "note"],
+      ["Tools, misc", 'He said "hi"'],
+    ];
+    expect(parseCSV(toCSV(rows))).toEqual(rows);
+  });
+
+  it("keeps the start line of records with line breaks", () => {
+    const records = parseCSVRecords('a,b\n"line 1\nline 2",x\nc,d\n');
+    expect(records.map((r) => r.line)).toEqual([1, 2, 4]);
+    expect(records[1].fields).toEqual(["line 1\nline 2", "x"]);
+  });
+
+  it("rejects unclosed quotes", () => {
+    expect(() => parseCSV('a,"b\n')).toThrow();
+  });
+});
+
+describe("capacity CSV import", () => {
+  it("replaces the plan from valid rows", () => {
+    const service = hourly();
+    const result = service.importCapacityCSV(
+      "month,capacity,adjustment\n2025-01,10,\n2025-02,20,-2\n"
+    );
+
+    expect(result).toEqual({ rows: 2, imported: 2, applied: true, errors: [] });
+    expect(service.getCapacityUnits("2025-02")).toBe(18);
+  });
+
+  it("reports failed rows by line and applies nothing", () => {
+    const service = hourly().setCapacity([{ month: "2025-01", capacity: 5 }]);
+    const result = service.importCapacityCSV(
+      "month,capacity\n2025-01,10\n2025-02,abc\n"
+    );
+
+    expect(result.applied).toBe(false);
+    expect(result.errors).toEqual([
+      { row: 3, message: 'Invalid capacity: "abc"' },
+    ]);
+    expect(service.getCapacityUnits("2025-01")).toBe(5);
+  });
+
+  it("applies the valid rows of a partial import", () => {
+    const service = hourly();
+    const result = service.importCapacityCSV(
+      "month,capacity\n2025-01,10\n2025-02,abc\n",
+      { partial: true }
+    );
+
+    expect(result).toMatchObject({ rows: 2, imported: 1, applied: true });
+    expect(service.capacity.map((c) => c.month)).toEqual(["2025-01"]);
+  });
+
+  it("skips a partial import without valid rows", () => {
+    const service = hourly().setCapacity([{ month: "2025-01", capacity: 5 }]);
+    const result = service.importCapacityCSV("month,capacity\nbad,1\n", {
+      partial: true,
+    });
+
+    expect(result.applied).toBe(false);
+    expect(service.getCapacityUnits("2025-01")).toBe(5);
+  });
+
+  it("requires the month and capacity columns", () => {
+    const result = hourly().importCapacityCSV("month\n2025-01\n");
+    expect(result.applied).toBe(false);
+    expect(result.errors[0].row).toBe(1);
+  });
+});
+
+describe("COS CSV export and import", () => {
+  it("restores the exported items", () => {
+    const source = hourly()
+      .addCOS("Tools, misc", php(20), 2, "hour")
+      .addCOS("Hosting", php(500));
+    const target = hourly();
+
+    const result = target.importCOSCSV(source.exportCOSCSV());
+
+    expect(result.applied).toBe(true);
+    expect(
+      target.cos.map((c) => [c.id, c.item, c.quantity, c.subtotal.toMajor()])
+    ).toEqual(
+      source.cos.map((c) => [c.id, c.item, c.quantity, c.subtotal.toMajor()])
+    );
+  });
+});
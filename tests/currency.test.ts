@@ -0,0 +1,98 @@
+import { describe, expect, it } from "vitest";
+import { MajikMoney } from "@thezelijah/majik-money";
+import { InMemoryExchangeRateProvider } from "../src";
+import { hourly, php } from "./helpers";
+
+const usd = (amount: number) => MajikMoney.fromMajor(amount, "USD");
+
+const rates = () =>
+  new InMemoryExchangeRateProvider([
+    { from: "USD", to: "PHP", rate: 56 },
+    { from: "USD", to: "PHP", rate: 58, month: "2025-02" },
+    { from: "JPY", to: "PHP", rate: 0.38 },
+  ]);
+
+const plan = () =>
+  hourly(100, [
+    { month: "2025-01", capacity: 10 },
+    { month: "2025-02", capacity: 10 },
+  ]).setExchangeRateProvider(rates());
+
+describe("exchange rate provider", () => {
+  it("prefers the month's rate, then the fixed rate, then the inverse", () => {
+    const table = rates();
+
+    expect(table.getRate("USD", "PHP", "2025-02")).toBe(58);
+    expect(table.getRate("USD", "PHP", "2025-03")).toBe(56);
+    expect(table.getRate("PHP", "USD", "2025-02")).toBeCloseTo(1 / 58);
+    expect(table.getRate("EUR", "PHP")).toBeUndefined();
+  });
+
+  it("round-trips through JSON", () => {
+    const table = InMemoryExchangeRateProvider.parseFromJSON(
+      JSON.stringify(rates().toJSON())
+    );
+
+    expect(table.entries).toHaveLength(3);
+    expect(table.getRate("USD", "PHP", "2025-02")).toBe(58);
+  });
+});
+
+describe("convertMoney", () => {
+  it("scales minor units between currencies with different decimals", () => {
+    const service = plan();
+
+    expect(
+      service.convertMoney(MajikMoney.fromMajor(1000, "JPY")).toMajor()
+    ).toBe(380);
+    expect(service.convertMoney(php(38), "JPY").toMajor()).toBe(100);
+  });
+
+  it("converts at the month's rate", () => {
+    const service = plan();
+
+    expect(service.convertMoney(usd(10), "PHP", "2025-01").toMajor()).toBe(560);
+    expect(service.convertMoney(usd(10), "PHP", "2025-02").toMajor()).toBe(580);
+  });
+
+  it("converts foreign COS at each month's rate", () => {
+    const service = plan().addCOS("Hosting", usd(1));
+
+    expect(service.getCOS("2025-01").toMajor()).toBe(560);
+    expect(service.getCOS("2025-02").toMajor()).toBe(580);
+  });
+
+  it("requires a provider and a known pair", () => {
+    const service = hourly(100);
+
+    expect(() => service.convertMoney(usd(1))).toThrow(
+      /without an exchange rate provider/
+    );
+    expect(() => service.addCOS("Hosting", usd(1))).toThrow(
+      /Currency mismatch/
+    );
+    expect(() =>
+      plan().convertMoney(MajikMoney.fromMajor(1, "EUR"), "PHP", "2025-01")
+    ).toThrow(/No exchange rate for EUR to PHP in 2025-01/);
+  });
+});
+
+describe("currency views", () => {
+  it("report finance figures converted month by month", () => {
+    const view = plan().toCurrency("USD");
+
+    expect(view.getRevenue("2025-01").toMajor()).toBeCloseTo(1000 / 56, 2);
+    expect(view.getRevenue("2025-02").toMajor()).toBeCloseTo(1000 / 58, 2);
+    expect(view.grossRevenue.toMajor()).toBeCloseTo(
+      view.getRevenue("2025-01").toMajor() +
+        view.getRevenue("2025-02").toMajor(),
+      2
+    );
+  });
+
+  it("require a provider for another currency", () => {
+    expect(() => hourly(100).toCurrency("USD")).toThrow(
+      /exchange rate provider/
+    );
+  });
+});
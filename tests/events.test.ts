@@ -0,0 +1,154 @@
+import { describe, expect, it } from "vitest";
+import {
+  AdjustmentKind,
+  RevenueModel,
+  ServiceChangeEvent,
+  ServiceStatus,
+  ServiceType,
+  TaxKind,
+} from "../src";
+import { hourly, php } from "./helpers";
+
+// Months far in the future are always open for booking
+const plan = () =>
+  hourly(100, [
+    { month: "2099-01", capacity: 10 },
+    { month: "2099-02", capacity: 20 },
+  ]);
+
+/** Records the events of every `change` notification */
+function record(service: ReturnType<typeof hourly>): ServiceChangeEvent[][] {
+  const batches: ServiceChangeEvent[][] = [];
+  service.on("change", ({ events }) => batches.push(events));
+  return batches;
+}
+
+const types = (events: ServiceChangeEvent[]) => events.map((e) => e.type);
+
+describe("change events", () => {
+  it("fires typed listeners with before and after values", () => {
+    const service = hourly();
+    const seen: string[] = [];
+    const unsubscribe = service.on("details:changed", ({ before, after }) =>
+      seen.push(`${before.name} -> ${after.name}`)
+    );
+
+    service.setName("Advisory");
+    unsubscribe();
+    service.setName("Audit");
+
+    expect(seen).toEqual(["Consulting -> Advisory"]);
+  });
+
+  it("emits details:changed for name, category, type and revenue model changes", () => {
+    const service = hourly();
+    const batches = record(service);
+
+    service
+      .setCategory("Advisory")
+      .setType(ServiceType.PROJECT_BASED)
+      .setRevenueModel(RevenueModel.FIXED_RECURRING);
+
+    expect(batches.flat().map((e) => e.type)).toEqual([
+      "details:changed",
+      "details:changed",
+      "details:changed",
+    ]);
+    expect(batches[2][0]).toMatchObject({
+      before: { revenueModel: undefined },
+      after: { revenueModel: RevenueModel.FIXED_RECURRING },
+    });
+  });
+
+  it("skips details:changed when nothing changed", () => {
+    const service = hourly();
+    const batches = record(service);
+
+    service.setName(service.name).setCategory(service.category);
+
+    expect(batches).toEqual([]);
+  });
+
+  it("emits booking events, delivering an automatic status change with them", () => {
+    const service = plan().addBooking("Acme", "2099-02", 20);
+    const batches = record(service);
+
+    service.addBooking("Acme", "2099-01", 10);
+    service.removeBooking(service.bookings[0].id);
+
+    expect(batches.map(types)).toEqual([
+      ["booking:added", "status:changed"],
+      ["booking:removed", "status:changed"],
+    ]);
+    expect(batches[0][1]).toMatchObject({
+      before: ServiceStatus.ACTIVE,
+      after: ServiceStatus.FULLY_BOOKED,
+    });
+  });
+
+  it("emits milestone, adjustment and tax rule events", () => {
+    const service = hourly();
+    const batches = record(service);
+
+    service
+      .addMilestone("Kickoff", "2025-01", 0.5)
+      .addAdjustment(AdjustmentKind.DISCOUNT, "Promo", php(50), "2025-01")
+      .addTaxRule("VAT", TaxKind.VAT, 0.12);
+    service
+      .removeMilestone(service.milestones[0].id)
+      .removeAdjustment(service.adjustments[0].id)
+      .removeTaxRule(service.taxRules[0].id);
+
+    expect(batches.flat().map((e) => e.type)).toEqual([
+      "milestone:added",
+      "adjustment:added",
+      "taxRule:added",
+      "milestone:removed",
+      "adjustment:removed",
+      "taxRule:removed",
+    ]);
+    expect(batches[0][0].after).toMatchObject({ name: "Kickoff", share: 0.5 });
+  });
+
+  it("emits one removed event per item when clearing, in one notification", () => {
+    const service = hourly()
+      .addTaxRule("VAT", TaxKind.VAT, 0.12)
+      .addTaxRule("WHT", TaxKind.WITHHOLDING, 0.02);
+    const batches = record(service);
+
+    service.clearTaxRules();
+
+    expect(batches.map(types)).toEqual([
+      ["taxRule:removed", "taxRule:removed"],
+    ]);
+  });
+
+  it("coalesces events within a batch", () => {
+    const service = hourly();
+    const batches = record(service);
+
+    service.batch((s) => {
+      s.setName("Advisory").setName("Audit");
+      s.addTaxRule("VAT", TaxKind.VAT, 0.12);
+      s.removeTaxRule(s.taxRules[0].id);
+    });
+
+    expect(batches).toHaveLength(1);
+    expect(batches[0]).toEqual([
+      {
+        type: "details:changed",
+        before: expect.objectContaining({ name: "Consulting" }),
+        after: expect.objectContaining({ name: "Audit" }),
+      },
+    ]);
+  });
+
+  it("does not emit for description changes", () => {
+    const service = hourly();
+    const batches = record(service);
+
+    service.setDescriptionText("Hands-on advisory");
+
+    expect(batches).toEqual([]);
+  });
+});
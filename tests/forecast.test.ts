@@ -0,0 +1,122 @@
+import { describe, expect, it } from "vitest";
+import { forecastCapacity, ForecastStrategy } from "../src";
+import { hourly } from "./helpers";
+
+const units = (plan: { capacity: number }[]) => plan.map((p) => p.capacity);
+
+describe("capacity forecasts", () => {
+  it("compounds growth from the start month in UTC", () => {
+    const plan = forecastCapacity(
+      3,
+      { strategy: ForecastStrategy.COMPOUND, amount: 100, growthRate: 0.1 },
+      "2025-11"
+    );
+
+    expect(plan.map((p) => p.month)).toEqual(["2025-11", "2025-12", "2026-01"]);
+    expect(units(plan)).toEqual([100, 110, 121]);
+  });
+
+  it("applies seasonal multipliers by calendar month", () => {
+    const multipliers = Array.from({ length: 12 }, (_, i) => (i === 0 ? 2 : 1));
+    const plan = forecastCapacity(
+      3,
+      { strategy: ForecastStrategy.SEASONAL, amount: 50, multipliers },
+      "2025-12"
+    );
+
+    expect(units(plan)).toEqual([50, 100, 50]);
+  });
+
+  it("grows linearly and never goes below zero", () => {
+    const plan = forecastCapacity(
+      4,
+      { strategy: ForecastStrategy.LINEAR, amount: 20, increment: -8 },
+      "2025-01"
+    );
+
+    expect(units(plan)).toEqual([20, 12, 4, 0]);
+  });
+
+  it("switches amounts at each step month", () => {
+    const plan = forecastCapacity(
+      4,
+      {
+        strategy: ForecastStrategy.STEP,
+        amount: 10,
+        steps: [
+          { month: "2025-04", amount: 30 },
+          { month: "2025-02", amount: 20 },
+        ],
+      },
+      "2025-01"
+    );
+
+    expect(units(plan)).toEqual([10, 20, 20, 30]);
+  });
+
+  it("rolls a moving average forward", () => {
+    const plan = forecastCapacity(
+      2,
+      {
+        strategy: ForecastStrategy.MOVING_AVERAGE,
+        history: [10, 20, 30],
+        window: 3,
+      },
+      "2025-01"
+    );
+
+    // 20, then the average of 20, 30 and 20
+    expect(units(plan)).toEqual([20, 23]);
+  });
+
+  it("smooths history exponentially", () => {
+    const plan = forecastCapacity(
+      2,
+      {
+        strategy: ForecastStrategy.EXPONENTIAL_SMOOTHING,
+        history: [10, 20],
+        alpha: 0.5,
+      },
+      "2025-01"
+    );
+
+    expect(units(plan)).toEqual([15, 15]);
+  });
+
+  it("rejects invalid inputs", () => {
+    expect(() =>
+      forecastCapacity(0, { strategy: ForecastStrategy.COMPOUND, amount: 1 })
+    ).toThrow(/positive integer/);
+    expect(() =>
+      forecastCapacity(1, {
+        strategy: ForecastStrategy.SEASONAL,
+        amount: 1,
+        multipliers: [1, 1],
+      })
+    ).toThrow(/12 non-negative/);
+    expect(() =>
+      forecastCapacity(1, {
+        strategy: ForecastStrategy.MOVING_AVERAGE,
+        history: [],
+      })
+    ).toThrow(/non-empty/);
+    expect(() =>
+      forecastCapacity(1, {
+        strategy: ForecastStrategy.EXPONENTIAL_SMOOTHING,
+        history: [1],
+        alpha: 0,
+      })
+    ).toThrow(/Alpha/);
+  });
+
+  it("replaces a service's capacity plan", () => {
+    const service = hourly(100).forecastCapacityPlan(
+      2,
+      { strategy: ForecastStrategy.LINEAR, amount: 10, increment: 5 },
+      "2025-01"
+    );
+
+    expect(service.capacity.map((c) => c.capacity)).toEqual([10, 15]);
+    expect(service.getRevenue("2025-02").toMajor()).toBe(1500);
+  });
+});
@@ -0,0 +1,27 @@
+import { MajikMoney } from "@thezelijah/majik-money";
+import {
+  MajikService,
+  MonthlyCapacity,
+  RateUnit,
+  ServiceRate,
+  ServiceType,
+} from "../src";
+
+export const php = (amount: number) => MajikMoney.fromMajor(amount, "PHP");
+
+/** A time-based service billed per hour */
+export function hourly(
+  amount: number = 100,
+  plan: MonthlyCapacity[] = []
+): MajikService {
+  return service({ amount: php(amount), unit: RateUnit.PER_HOUR }, plan);
+}
+
+export function service(
+  rate: ServiceRate,
+  plan: MonthlyCapacity[] = [],
+  type: ServiceType = ServiceType.TIME_BASED
+): MajikService {
+  const created = MajikService.initialize("Consulting", type, rate);
+  return plan.length > 0 ? created.setCapacity(plan) : created;
+}
@@ -0,0 +1,149 @@
+import { describe, expect, it } from "vitest";
+import {
+  AdjustmentKind,
+  InvoiceTaxTreatment,
+  InvoiceUnitBasis,
+  MajikServiceInvoice,
+  MajikServiceInvoiceBuilder,
+  RateUnit,
+  TaxBase,
+  TaxKind,
+} from "../src";
+import { hourly, php } from "./helpers";
+
+const plan = () =>
+  hourly(100, [
+    { month: "2025-01", capacity: 10 },
+    { month: "2025-02", capacity: 20 },
+  ]);
+
+const issueDate = "2025-03-01T00:00:00.000Z";
+
+describe("invoice numbering", () => {
+  it("consumes one padded number per invoice", () => {
+    const builder = new MajikServiceInvoiceBuilder({
+      prefix: "ACME-",
+      next: 7,
+    });
+    const service = plan();
+
+    expect(
+      builder.build(service, "2025-01", { basis: InvoiceUnitBasis.PLANNED })
+        .number
+    ).toBe("ACME-00007");
+    expect(builder.nextNumber).toBe("ACME-00008");
+  });
+
+  it("continues the sequence after a JSON round-trip", () => {
+    const builder = new MajikServiceInvoiceBuilder({ next: 3, padding: 2 }, 15);
+    const restored = MajikServiceInvoiceBuilder.parseFromJSON(
+      JSON.stringify(builder.toJSON())
+    );
+
+    expect(restored.nextNumber).toBe("INV-03");
+    expect(restored.terms).toBe(15);
+  });
+
+  it("does not consume a number when a build fails", () => {
+    const builder = new MajikServiceInvoiceBuilder();
+
+    expect(() =>
+      builder.build(plan(), { start: "2025-02", end: "2025-01" })
+    ).toThrow(/start must not be after end/);
+    expect(builder.nextNumber).toBe("INV-00001");
+  });
+});
+
+describe("invoice lines and totals", () => {
+  it("bills delivered units and warns about months without actuals", () => {
+    const invoice = new MajikServiceInvoiceBuilder().build(
+      plan().recordActual("2025-01", 8),
+      { start: "2025-01", end: "2025-02" },
+      { issueDate }
+    );
+
+    expect(invoice.lineItems).toHaveLength(1);
+    expect(invoice.lineItems[0].quantity).toBe(8);
+    expect(invoice.lineItems[0].unitPrice.toMajor()).toBe(100);
+    expect(invoice.subtotal.toMajor()).toBe(800);
+    expect(invoice.warnings).toEqual([
+      "2025-02: no delivered units recorded, not billed",
+    ]);
+  });
+
+  it("computes discounts, added VAT, withholding and the due date", () => {
+    const service = plan()
+      .addAdjustment(AdjustmentKind.DISCOUNT, "Loyalty", php(100), "2025-01")
+      .addTaxRule("VAT", TaxKind.VAT, 0.12)
+      .addTaxRule("EWT", TaxKind.WITHHOLDING, 0.02)
+      .addTaxRule("Income", TaxKind.OTHER, 0.25, TaxBase.INCOME);
+    const invoice = new MajikServiceInvoiceBuilder().build(service, "2025-01", {
+      basis: InvoiceUnitBasis.PLANNED,
+      issueDate,
+      discounts: [{ label: "Promo", amount: php(100) }],
+    });
+
+    expect(invoice.discountTotal.toMajor()).toBe(200);
+    expect(invoice.taxableAmount.toMajor()).toBe(800);
+    expect(invoice.taxes.map((t) => t.treatment)).toEqual([
+      InvoiceTaxTreatment.ADDED,
+      InvoiceTaxTreatment.WITHHELD,
+    ]);
+    expect(invoice.total.toMajor()).toBeCloseTo(896, 2);
+    expect(invoice.amountDue.toMajor()).toBeCloseTo(880, 2);
+    expect(invoice.dueDate).toBe("2025-03-31T00:00:00.000Z");
+  });
+
+  it("applies stored adjustments only for billed months", () => {
+    const service = plan()
+      .recordActual("2025-01", 10)
+      .addAdjustment(AdjustmentKind.DISCOUNT, "Launch", php(50), "2025-01")
+      .addAdjustment(AdjustmentKind.DISCOUNT, "Goodwill", php(300), "2025-02");
+    const invoice = new MajikServiceInvoiceBuilder().build(
+      service,
+      { start: "2025-01", end: "2025-02" },
+      { issueDate }
+    );
+
+    expect(invoice.discounts.map((d) => d.label)).toEqual(["Launch"]);
+    expect(invoice.total.toMajor()).toBe(950);
+    expect(invoice.warnings).toContain(
+      "2025-02: stored adjustments not applied, not billed"
+    );
+  });
+
+  it("prices each month with the model of the rate in force", () => {
+    const service = plan().setRate(
+      { amount: php(5000), unit: RateUnit.FIXED },
+      "2025-02"
+    );
+    const invoice = new MajikServiceInvoiceBuilder().build(
+      service,
+      { start: "2025-01", end: "2025-02" },
+      { basis: InvoiceUnitBasis.PLANNED, issueDate }
+    );
+    const [january, february] = invoice.lineItems;
+
+    expect(january.unit).toBe(RateUnit.PER_HOUR);
+    expect(january.quantity).toBe(10);
+    expect(february.unit).toBe(RateUnit.FIXED);
+    expect(february.quantity).toBe(1);
+    expect(february.amount.toMajor()).toBe(5000);
+  });
+
+  it("round-trips through JSON with its totals", () => {
+    const invoice = new MajikServiceInvoiceBuilder().build(plan(), "2025-02", {
+      basis: InvoiceUnitBasis.PLANNED,
+      issueDate,
+      client: "Acme",
+    });
+    const restored = MajikServiceInvoice.parseFromJSON(
+      JSON.stringify(invoice.toJSON())
+    );
+
+    expect(restored.number).toBe(invoice.number);
+    expect(restored.client).toBe("Acme");
+    expect(restored.total.toMajor()).toBe(2000);
+    expect(Object.isFrozen(restored)).toBe(true);
+  });
+});
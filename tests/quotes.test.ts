@@ -0,0 +1,154 @@
+import { describe, expect, it } from "vitest";
+import {
+  MajikServiceQuote,
+  QuoteStatus,
+  RateUnit,
+  ServiceStatus,
+  ServiceType,
+} from "../src";
+import { hourly, php, service } from "./helpers";
+
+// Months far in the future are always open for booking
+const plan = () =>
+  hourly(100, [
+    { month: "2099-01", capacity: 10 },
+    { month: "2099-02", capacity: 20 },
+  ]);
+
+const accepted = (quote: MajikServiceQuote) => quote.send().accept();
+
+describe("quote pricing", () => {
+  it("prices a window of planned units and applies discounts", () => {
+    const quote = plan().createQuote(
+      "Acme",
+      { start: "2099-01", end: "2099-02" },
+      { discounts: [{ label: "Early bird", rate: 0.1 }] }
+    );
+
+    expect(quote.status).toBe(QuoteStatus.DRAFT);
+    expect(quote.lines.map((l) => l.amount.toMajor())).toEqual([1000, 2000]);
+    expect(quote.totalUnits).toBe(30);
+    expect(quote.discountTotal.toMajor()).toBe(300);
+    expect(quote.total.toMajor()).toBe(2700);
+  });
+
+  it("quotes a fixed project fee in full across the quoted units", () => {
+    const project = service(
+      { amount: php(9000), unit: RateUnit.FIXED },
+      [],
+      ServiceType.PROJECT_BASED
+    );
+    const quote = project.createQuote("Acme", {
+      start: "2099-01",
+      end: "2099-02",
+      unitsPerMonth: 15,
+    });
+
+    expect(quote.lines.map((l) => l.amount.toMajor())).toEqual([4500, 4500]);
+    expect(quote.total.toMajor()).toBe(9000);
+  });
+
+  it("keeps its rate snapshot when the service's rate changes", () => {
+    const service = plan();
+    const quote = service.createQuote("Acme", { month: "2099-01", units: 5 });
+
+    service.setRateAmount(150, "2099-01");
+    expect(quote.rate.amount.toMajor()).toBe(100);
+    expect(quote.total.toMajor()).toBe(500);
+  });
+
+  it("rejects empty scopes, excessive discounts and discontinued services", () => {
+    const service = plan();
+
+    expect(() =>
+      service.createQuote("Acme", { month: "2099-01", units: 0 })
+    ).toThrow(/no units/);
+    expect(() =>
+      service.createQuote(
+        "Acme",
+        { month: "2099-01", units: 1 },
+        { discounts: [{ label: "Too much", amount: php(200) }] }
+      )
+    ).toThrow(/cannot exceed/);
+    expect(() =>
+      service
+        .setStatus(ServiceStatus.DISCONTINUED)
+        .createQuote("Acme", { month: "2099-01", units: 1 })
+    ).toThrow(/discontinued/);
+  });
+});
+
+describe("quote lifecycle", () => {
+  it("moves from draft to sent to accepted as new quotes", () => {
+    const draft = plan().createQuote("Acme", { month: "2099-01", units: 5 });
+    const sent = draft.send();
+    const done = sent.accept();
+
+    expect(draft.status).toBe(QuoteStatus.DRAFT);
+    expect(sent.status).toBe(QuoteStatus.SENT);
+    expect(done.status).toBe(QuoteStatus.ACCEPTED);
+    expect(() => draft.accept()).toThrow(/must be Sent/);
+  });
+
+  it("cannot be accepted after it expires", () => {
+    const sent = plan()
+      .createQuote("Acme", { month: "2099-01", units: 5 }, { validDays: 7 })
+      .send();
+    const later = new Date(Date.now() + 8 * 24 * 60 * 60 * 1000);
+
+    expect(sent.statusAt(later)).toBe(QuoteStatus.EXPIRED);
+    expect(() => sent.accept(later)).toThrow(/expired/);
+  });
+
+  it("round-trips through JSON", () => {
+    const quote = plan().createQuote("Acme", { month: "2099-01", units: 5 });
+    const restored = MajikServiceQuote.parseFromJSON(
+      JSON.stringify(quote.toJSON())
+    );
+
+    expect(restored.id).toBe(quote.id);
+    expect(restored.total.toMajor()).toBe(500);
+  });
+});
+
+describe("booking quotes", () => {
+  it("books every line of an accepted quote", () => {
+    const service = plan();
+    const quote = accepted(
+      service.createQuote("Acme", { start: "2099-01", end: "2099-02" })
+    );
+
+    service.bookQuote(quote);
+    expect(service.getBookedUnits("2099-01")).toBe(10);
+    expect(service.getBookedUnits("2099-02")).toBe(20);
+    expect(() => service.bookQuote(quote)).toThrow(/already booked/);
+  });
+
+  it("books nothing when any line does not fit", () => {
+    const service = plan().addBooking("Beta", "2099-02", 15);
+    const quote = accepted(
+      service.createQuote("Acme", {
+        start: "2099-01",
+        end: "2099-02",
+        unitsPerMonth: 8,
+      })
+    );
+
+    expect(() => service.bookQuote(quote)).toThrow(
+      /exceeds remaining capacity for 2099-02/
+    );
+    expect(service.getBookedUnits("2099-01")).toBe(0);
+    expect(service.bookings).toHaveLength(1);
+  });
+
+  it("only books accepted quotes of the same service", () => {
+    const service = plan();
+    const draft = service.createQuote("Acme", { month: "2099-01", units: 1 });
+    const other = accepted(
+      plan().createQuote("Acme", { month: "2099-01", units: 1 })
+    );
+
+    expect(() => service.bookQuote(draft)).toThrow(/Only accepted/);
+    expect(() => service.bookQuote(other)).toThrow(/another service/);
+  });
+});
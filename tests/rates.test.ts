@@ -0,0 +1,97 @@
+import { describe, expect, it } from "vitest";
+import { RateUnit, ServiceType, TierMode } from "../src";
+import { hourly, php, service } from "./helpers";
+
+const plan = () =>
+  hourly(100, [
+    { month: "2025-01", capacity: 10 },
+    { month: "2025-02", capacity: 20 },
+  ]);
+
+describe("rate schedule", () => {
+  it("prices each month with the rate in force", () => {
+    const service = plan().scheduleRate(
+      { amount: php(150), unit: RateUnit.PER_HOUR },
+      "2025-02"
+    );
+
+    expect(service.getRateForMonth("2025-01").amount.toMajor()).toBe(100);
+    expect(service.getRevenue("2025-01").toMajor()).toBe(1000);
+    expect(service.getRevenue("2025-02").toMajor()).toBe(3000);
+    expect(service.rate.amount.toMajor()).toBe(100);
+  });
+
+  it("reverts to the earlier rate when a scheduled rate is removed", () => {
+    const service = plan()
+      .setRateAmount(150, "2025-02")
+      .removeScheduledRate("2025-02");
+
+    expect(service.getRevenue("2025-02").toMajor()).toBe(2000);
+    expect(service.rateSchedule).toHaveLength(0);
+  });
+});
+
+describe("rate setters", () => {
+  it("replace the base rate while the service has no history", () => {
+    const service = hourly(100)
+      .setRateAmount(120)
+      .setRateUnit(RateUnit.PER_DAY);
+
+    expect(service.rate.amount.toMajor()).toBe(120);
+    expect(service.rate.unit).toBe(RateUnit.PER_DAY);
+    expect(service.rateSchedule).toHaveLength(0);
+  });
+
+  it("require a month once months are planned or changes are scheduled", () => {
+    const service = plan();
+
+    expect(() => service.setRateAmount(120)).toThrow(/effectiveFrom/);
+    expect(() => service.setRateUnit(RateUnit.PER_DAY)).toThrow(
+      /effectiveFrom/
+    );
+    expect(() => service.clearRateTiers()).toThrow(/effectiveFrom/);
+    expect(service.rate.amount.toMajor()).toBe(100);
+    expect(service.rate.unit).toBe(RateUnit.PER_HOUR);
+  });
+
+  it("schedule from the rate in force that month", () => {
+    const service = plan()
+      .setRateAmount(150, "2025-02")
+      .setRateUnit(RateUnit.PER_DAY, "2025-02");
+    const rate = service.getRateForMonth("2025-02");
+
+    expect(rate.amount.toMajor()).toBe(150);
+    expect(rate.unit).toBe(RateUnit.PER_DAY);
+    expect(service.getRateForMonth("2025-01").unit).toBe(RateUnit.PER_HOUR);
+  });
+
+  it("keep a past month's revenue when tiers change", () => {
+    const usage = service(
+      { amount: php(100), unit: RateUnit.PER_UNIT },
+      [
+        { month: "2025-01", capacity: 15 },
+        { month: "2025-02", capacity: 15 },
+      ],
+      ServiceType.USAGE_BASED
+    );
+    const base = usage.rate;
+
+    usage.setRateTiers(
+      [
+        { upTo: 10, amount: php(100) },
+        { upTo: null, amount: php(80) },
+      ],
+      TierMode.GRADUATED,
+      "2025-02"
+    );
+
+    expect(usage.getRevenue("2025-01").toMajor()).toBe(1500);
+    expect(usage.getRevenue("2025-02").toMajor()).toBe(1400);
+    expect(base.tiers).toBeUndefined();
+    expect(usage.hasRateTiers()).toBe(false);
+
+    usage.clearRateTiers("2025-03");
+    expect(usage.getRevenue("2025-02").toMajor()).toBe(1400);
+    expect(usage.getRateForMonth("2025-03").tiers).toBeUndefined();
+  });
+});
@@ -0,0 +1,139 @@
+import { describe, expect, it } from "vitest";
+import { MajikResourcePool, RateUnit, ResourceKind } from "../src";
+import { hourly } from "./helpers";
+
+// Months far in the future are always open for booking
+function shared() {
+  const pool = new MajikResourcePool(
+    undefined,
+    "Consultants",
+    RateUnit.PER_HOUR
+  );
+  const ana = pool.addResource("Ana", ResourceKind.PERSON, [
+    { month: "2099-01", units: 160 },
+    { month: "2099-02", units: 100 },
+  ]);
+  const audit = hourly().setName("Audit");
+  const advisory = hourly().setName("Advisory");
+  pool.assign(audit, ana, 0.6).assign(advisory, ana, 0.6);
+  return { pool, ana, audit, advisory };
+}
+
+describe("allocation reports", () => {
+  it("flags resources allocated beyond their availability", () => {
+    const { pool } = shared();
+
+    expect(pool.overAllocatedMonths).toEqual(["2099-01", "2099-02"]);
+    expect(pool.getOverAllocations("2099-01")).toEqual([
+      expect.objectContaining({
+        resourceName: "Ana",
+        available: 160,
+        allocated: 192,
+        utilization: 1.2,
+        excess: 32,
+      }),
+    ]);
+  });
+
+  it("counts capacity entered by hand", () => {
+    const pool = new MajikResourcePool(undefined, "Consultants");
+    const ana = pool.addResource("Ana", ResourceKind.PERSON, [
+      { month: "2099-01", units: 160 },
+    ]);
+    const audit = hourly().setName("Audit");
+    pool.assign(audit, ana, 0.5).assign(hourly().setName("Advisory"), ana, 0.5);
+    expect(pool.overAllocatedMonths).toEqual([]);
+
+    audit.updateCapacityUnits("2099-01", 100);
+
+    const [report] = pool.getOverAllocations("2099-01");
+    expect(report.allocated).toBe(180);
+    expect(report.services.map((l) => [l.serviceName, l.units])).toEqual([
+      ["Audit", 100],
+      ["Advisory", 80],
+    ]);
+  });
+});
+
+describe("capacity rebalancing", () => {
+  it("proposes the same share of capacity from every service, per month", () => {
+    const { pool } = shared();
+
+    expect(pool.proposeRebalance()).toEqual([
+      expect.objectContaining({
+        serviceName: "Advisory",
+        month: "2099-01",
+        current: 96,
+        proposed: 80,
+        reduction: 16,
+      }),
+      expect.objectContaining({ serviceName: "Audit", month: "2099-01" }),
+      expect.objectContaining({
+        serviceName: "Advisory",
+        month: "2099-02",
+        current: 60,
+        proposed: 50,
+        reduction: 10,
+      }),
+      expect.objectContaining({ serviceName: "Audit", month: "2099-02" }),
+    ]);
+  });
+
+  it("rounds proposals down so the resource is never over-allocated", () => {
+    const pool = new MajikResourcePool(undefined, "Consultants");
+    const ana = pool.addResource("Ana", ResourceKind.PERSON, [
+      { month: "2099-01", units: 160 },
+    ]);
+    const audit = hourly().setName("Audit");
+    pool.assign(audit, ana, 0.5).assign(hourly().setName("Advisory"), ana, 0.5);
+    audit.updateCapacityUnits("2099-01", 100);
+
+    expect(
+      pool.proposeRebalance().map((p) => [p.serviceName, p.proposed])
+    ).toEqual([
+      ["Advisory", 71.11],
+      ["Audit", 88.88],
+    ]);
+
+    pool.applyRebalance();
+    expect(pool.overAllocatedMonths).toEqual([]);
+  });
+
+  it("applies proposals to the capacity plans, not the allocations", () => {
+    const { pool, audit, advisory } = shared();
+
+    pool.applyRebalance();
+
+    expect(pool.overAllocatedMonths).toEqual([]);
+    expect(pool.proposeRebalance()).toEqual([]);
+    expect(audit.capacity.map((c) => c.capacity)).toEqual([80, 50]);
+    expect(advisory.getCapacityUnits("2099-02")).toBe(50);
+    expect(audit.resources[0].allocation).toBe(0.6);
+  });
+
+  it("checks every proposal before applying any", () => {
+    const { pool, audit, advisory } = shared();
+    audit.addBooking("Acme", "2099-01", 90);
+
+    expect(() => pool.applyRebalance()).toThrow(/90 booked units/);
+    expect(advisory.getCapacityUnits("2099-01")).toBe(96);
+    expect(audit.getCapacityUnits("2099-01")).toBe(96);
+  });
+
+  it("rejects proposals for unregistered services or unplanned months", () => {
+    const { pool, audit } = shared();
+    const [proposal] = pool.proposeRebalance();
+
+    expect(() =>
+      pool.applyRebalance([{ ...proposal, serviceId: "unknown" }])
+    ).toThrow(/not registered/);
+    expect(() =>
+      pool.applyRebalance([
+        { ...proposal, serviceId: audit.id, month: "2099-03" },
+      ])
+    ).toThrow(/not in the capacity plan/);
+    expect(() => pool.applyRebalance([{ ...proposal, proposed: -1 }])).toThrow(
+      /non-negative/
+    );
+  });
+});
@@ -0,0 +1,151 @@
+import { describe, expect, it } from "vitest";
+import { MajikService, ResourceKind, ServiceEventName } from "../src";
+import { hourly, php } from "./helpers";
+
+function count(service: MajikService, ...names: ServiceEventName[]) {
+  const counts = { value: 0 };
+  names.forEach((name) => service.on(name, () => counts.value++));
+  return counts;
+}
+
+describe("resource sync", () => {
+  it("plans the months resources are available in", () => {
+    const service = hourly()
+      .addResource("Ana", ResourceKind.PERSON, 0.5, [
+        { month: "2025-01", units: 160 },
+      ])
+      .addResource("Ben", ResourceKind.PERSON, 1, [
+        { month: "2025-01", units: 40 },
+        { month: "2025-02", units: 40 },
+      ]);
+
+    expect(service.capacity).toEqual([
+      { month: "2025-01", capacity: 120 },
+      { month: "2025-02", capacity: 40 },
+    ]);
+  });
+
+  it("keeps hand-entered months and the adjustments of re-planned months", () => {
+    const service = hourly(100, [
+      { month: "2025-01", capacity: 40 },
+      { month: "2025-02", capacity: 10, adjustment: -2 },
+    ]);
+
+    service.addResource("Ana", ResourceKind.PERSON, 0.5, [
+      { month: "2025-02", units: 160 },
+    ]);
+
+    expect(service.capacity).toEqual([
+      { month: "2025-01", capacity: 40 },
+      { month: "2025-02", capacity: 80, adjustment: -2 },
+    ]);
+  });
+
+  it("leaves the plan alone without availability or resources", () => {
+    const service = hourly(100, [{ month: "2025-01", capacity: 40 }]);
+
+    service.addResource("Ana", ResourceKind.PERSON, 1);
+    expect(service.getCapacityUnits("2025-01")).toBe(40);
+
+    service.removeResource(service.resources[0].id);
+    expect(service.getCapacityUnits("2025-01")).toBe(40);
+  });
+
+  it("drops months no resource is available in any more", () => {
+    const service = hourly()
+      .addResource("Ana", ResourceKind.PERSON, 1, [
+        { month: "2025-01", units: 40 },
+      ])
+      .addResource("Ben", ResourceKind.PERSON, 1, [
+        { month: "2025-02", units: 40 },
+      ]);
+
+    service.removeResource(service.resources[0].id);
+
+    expect(service.capacity.map((c) => c.month)).toEqual(["2025-02"]);
+  });
+
+  it("throws and changes nothing when bookings no longer fit", () => {
+    const service = hourly()
+      .addResource("Ana", ResourceKind.PERSON, 1, [
+        { month: "2099-01", units: 40 },
+      ])
+      .addBooking("Acme", "2099-01", 30);
+    const ana = service.resources[0].id;
+
+    expect(() => service.setResourceAllocation(ana, 0.5)).toThrow(/booked/);
+    expect(service.resources[0].allocation).toBe(1);
+    expect(service.getCapacityUnits("2099-01")).toBe(40);
+  });
+});
+
+describe("labor COS", () => {
+  function staffed(): MajikService {
+    return hourly().addResource(
+      "Ana",
+      ResourceKind.PERSON,
+      0.5,
+      [
+        { month: "2025-01", units: 160 },
+        { month: "2025-02", units: 160 },
+        { month: "2025-03", units: 120 },
+      ],
+      php(200)
+    );
+  }
+
+  it("creates one fixed-monthly item per run of equal units", () => {
+    const service = staffed();
+
+    expect(
+      service.cos.map((c) => [c.effectiveFrom, c.effectiveUntil, c.quantity])
+    ).toEqual([
+      ["2025-01", "2025-02", 80],
+      ["2025-03", "2025-03", 60],
+    ]);
+    expect(service.getFixedCost("2025-01").toMajor()).toBe(16000);
+  });
+
+  it("updates items in place, keeping ids and edits", () => {
+    const service = staffed();
+    const [first] = service.cos;
+    service.updateCOS(first.id, { item: "Ana (senior labor)" });
+
+    service.setResourceAllocation(service.resources[0].id, 0.25);
+
+    expect(service.cos[0].id).toBe(first.id);
+    expect(service.cos[0].item).toBe("Ana (senior labor)");
+    expect(service.cos[0].quantity).toBe(40);
+  });
+
+  it("emits no COS events when nothing changed", () => {
+    const service = staffed();
+    const events = count(service, "cos:added", "cos:removed", "cos:updated");
+
+    service.setResourceAvailability(service.resources[0].id, "2025-01", 160);
+
+    expect(events.value).toBe(0);
+  });
+
+  it("delivers the resource and labor COS changes in one notification", () => {
+    const service = staffed();
+    const batches: string[][] = [];
+    service.on("change", ({ events }) =>
+      batches.push(events.map((e) => e.type))
+    );
+
+    service.removeResource(service.resources[0].id);
+
+    expect(batches).toEqual([
+      ["resource:removed", "cos:removed", "cos:removed"],
+    ]);
+  });
+
+  it("removes the labor COS of a removed resource", () => {
+    const service = staffed().addCOS("Tools", php(20));
+
+    service.removeResource(service.resources[0].id);
+
+    expect(service.cos.map((c) => c.item)).toEqual(["Tools"]);
+  });
+});
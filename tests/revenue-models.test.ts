@@ -0,0 +1,86 @@
+import { describe, expect, it } from "vitest";
+import { MonthlyCapacity, RateUnit, RevenueModel, ServiceType } from "../src";
+import { php, service } from "./helpers";
+
+const twoMonths: MonthlyCapacity[] = [
+  { month: "2025-01", capacity: 40 },
+  { month: "2025-02", capacity: 60 },
+];
+
+describe("revenue models", () => {
+  it("resolves the model from the type and rate unit", () => {
+    const fixed = { amount: php(10000), unit: RateUnit.FIXED };
+
+    expect(service(fixed, [], ServiceType.PROJECT_BASED).revenueModel).toBe(
+      RevenueModel.FIXED_PROJECT
+    );
+    expect(service(fixed).revenueModel).toBe(RevenueModel.FIXED_RECURRING);
+    expect(
+      service(
+        { amount: php(5), unit: RateUnit.PER_UNIT },
+        [],
+        ServiceType.USAGE_BASED
+      ).revenueModel
+    ).toBe(RevenueModel.PER_UNIT);
+  });
+
+  it("bills a fixed project fee once, spread over planned units", () => {
+    const project = service(
+      { amount: php(10000), unit: RateUnit.FIXED },
+      twoMonths,
+      ServiceType.PROJECT_BASED
+    );
+
+    expect(project.getRevenue("2025-01").toMajor()).toBe(4000);
+    expect(project.getRevenue("2025-02").toMajor()).toBe(6000);
+    expect(project.grossRevenue.toMajor()).toBe(10000);
+  });
+
+  it("bills a fixed project by milestone and spreads COS the same way", () => {
+    const project = service(
+      { amount: php(10000), unit: RateUnit.FIXED },
+      twoMonths,
+      ServiceType.PROJECT_BASED
+    )
+      .addCOS("Design", php(10))
+      .addMilestone("Kickoff", "2025-02", 0.25)
+      .addMilestone("Launch", "2025-02", 0.75);
+
+    expect(project.getRevenue("2025-01").toMajor()).toBe(0);
+    expect(project.getRevenue("2025-02").toMajor()).toBe(10000);
+    expect(project.getCOS("2025-01").toMajor()).toBe(0);
+    expect(project.getCOS("2025-02").toMajor()).toBe(1000);
+  });
+
+  it("rejects milestone shares above the fee", () => {
+    const project = service(
+      { amount: php(10000), unit: RateUnit.FIXED },
+      twoMonths,
+      ServiceType.PROJECT_BASED
+    ).addMilestone("Kickoff", "2025-01", 0.6);
+
+    expect(() => project.addMilestone("Launch", "2025-02", 0.5)).toThrow(
+      /cannot exceed 100%/
+    );
+  });
+
+  it("bills a recurring fee once per planned month", () => {
+    const retainer = service({ amount: php(5000), unit: RateUnit.FIXED }, [
+      ...twoMonths,
+      { month: "2025-03", capacity: 0 },
+    ]);
+
+    expect(retainer.getRevenue("2025-01").toMajor()).toBe(5000);
+    expect(retainer.getRevenue("2025-03").toMajor()).toBe(0);
+    expect(retainer.grossRevenue.toMajor()).toBe(10000);
+  });
+
+  it("honors an explicit model override", () => {
+    const usage = service(
+      { amount: php(5000), unit: RateUnit.FIXED },
+      twoMonths
+    ).setRevenueModel(RevenueModel.PER_UNIT);
+
+    expect(usage.getRevenue("2025-01").toMajor()).toBe(200000);
+  });
+});
@@ -0,0 +1,130 @@
+import { describe, expect, it } from "vitest";
+import { COSBehavior, RateUnit, ServiceType } from "../src";
+import { hourly, php, service } from "./helpers";
+
+const plan = () =>
+  hourly(100, [
+    { month: "2025-01", capacity: 10 },
+    { month: "2025-02", capacity: 20 },
+  ])
+    .addCOS("Tools", php(20))
+    .addCOS("Office", php(300), 1, undefined, {
+      behavior: COSBehavior.FIXED_MONTHLY,
+    });
+
+describe("break-even", () => {
+  it("finds the units where per-unit revenue covers COS", () => {
+    expect(plan().getBreakEvenCapacity("2025-01")).toBe(3.75);
+  });
+
+  it("has no break-even volume for fixed-fee models", () => {
+    const retainer = service({ amount: php(5000), unit: RateUnit.FIXED }, [
+      { month: "2025-01", capacity: 10 },
+    ]);
+
+    expect(retainer.getBreakEvenCapacity("2025-01")).toBeNull();
+  });
+
+  it("searches tiered rates for the break-even volume", () => {
+    const usage = service(
+      {
+        amount: php(100),
+        unit: RateUnit.PER_UNIT,
+        tiers: [
+          { upTo: 10, amount: php(100) },
+          { upTo: null, amount: php(50) },
+        ],
+      },
+      [{ month: "2025-01", capacity: 10 }],
+      ServiceType.USAGE_BASED
+    )
+      .addCOS("Tools", php(20))
+      .addCOS("Office", php(500), 1, undefined, {
+        behavior: COSBehavior.FIXED_MONTHLY,
+      });
+
+    expect(usage.getBreakEvenCapacity("2025-01")).toBeCloseTo(6.25, 6);
+  });
+
+  it("returns null when each unit loses money", () => {
+    const service = plan().addCOS("Subcontractor", php(90));
+
+    expect(service.getBreakEvenCapacity("2025-01")).toBeNull();
+  });
+
+  it("spreads COS over the units for the break-even rate", () => {
+    const service = plan();
+
+    expect(service.getBreakEvenRate("2025-01")!.toMajor()).toBe(50);
+    // (600 variable + 600 fixed) / 30 units
+    expect(service.getBreakEvenRate()!.toMajor()).toBe(40);
+    expect(hourly(100).getBreakEvenRate()).toBeNull();
+  });
+});
+
+describe("scenarios", () => {
+  it("compares a scenario with the baseline without touching the service", () => {
+    const service = plan();
+    const result = service.simulate({
+      label: "Price rise",
+      rate: { multiplier: 1.1 },
+    });
+
+    expect(result.label).toBe("Price rise");
+    expect(result.baseline.revenue.toMajor()).toBe(3000);
+    expect(result.scenario.revenue.toMajor()).toBe(3300);
+    expect(result.months[0].delta.revenue.toMajor()).toBe(100);
+    expect(service.rate.amount.toMajor()).toBe(100);
+    expect(service.grossRevenue.toMajor()).toBe(3000);
+  });
+
+  it("overrides COS and capacity", () => {
+    const service = plan();
+    const tools = service.cos[0].id;
+    const clone = service.applyScenario({
+      cos: { items: [{ id: tools, unitCost: php(10) }] },
+      capacity: { months: { "2025-02": 40 } },
+    });
+
+    expect(clone.getCOS("2025-01").toMajor()).toBe(400);
+    expect(clone.getRevenue("2025-02").toMajor()).toBe(4000);
+    expect(service.getRevenue("2025-02").toMajor()).toBe(2000);
+  });
+
+  it("allows zero multipliers and rejects negative ones", () => {
+    const service = plan();
+
+    expect(
+      service
+        .applyScenario({ capacity: { multiplier: 0 } })
+        .grossRevenue.isZero()
+    ).toBe(true);
+    expect(() => service.applyScenario({ rate: { multiplier: -1 } })).toThrow(
+      /non-negative/
+    );
+  });
+
+  it("scales every tier and scheduled rate with a rate multiplier", () => {
+    const usage = service(
+      {
+        amount: php(100),
+        unit: RateUnit.PER_UNIT,
+        tiers: [
+          { upTo: 10, amount: php(100) },
+          { upTo: null, amount: php(80) },
+        ],
+      },
+      [
+        { month: "2025-01", capacity: 15 },
+        { month: "2025-02", capacity: 15 },
+      ],
+      ServiceType.USAGE_BASED
+    ).setRateAmount(50, "2025-02");
+    const clone = usage.applyScenario({ rate: { multiplier: 2 } });
+
+    expect(clone.getRevenue("2025-01").toMajor()).toBe(2800);
+    expect(clone.getRateForMonth("2025-02").tiers![1].amount.toMajor()).toBe(
+      160
+    );
+  });
+});
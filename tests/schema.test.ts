@@ -0,0 +1,134 @@
+import { describe, expect, it } from "vitest";
+import {
+  isValidYYYYMM,
+  MajikService,
+  migrateServiceJSON,
+  RateUnit,
+  SERVICE_SCHEMA_VERSION,
+  ServiceStatus,
+  ServiceType,
+  validateServiceJSON,
+} from "../src";
+import { php } from "./helpers";
+
+function service(): MajikService {
+  return MajikService.initialize(
+    "Consulting",
+    ServiceType.TIME_BASED,
+    { amount: php(100), unit: RateUnit.PER_HOUR },
+    "Advisory"
+  )
+    .setCapacity([{ month: "2025-01", capacity: 10 }])
+    .addCOS("Tools", php(20));
+}
+
+/** A version 1 document: no schemaVersion, top-level fields and a plain-text description */
+function legacyDocument(): Record<string, unknown> {
+  const json = JSON.parse(JSON.stringify(service().toJSON()));
+  delete json.schemaVersion;
+  json.category = json.metadata.category;
+  json.status = json.settings.status;
+  delete json.metadata.category;
+  delete json.settings.status;
+  json.metadata.description = "Legacy description";
+  json.metadata.capacityPlan = [{ month: "2025-01", hours: 10 }];
+  return json;
+}
+
+describe("schema migration", () => {
+  it("stamps new documents with the current version", () => {
+    expect(service().toJSON().schemaVersion).toBe(SERVICE_SCHEMA_VERSION);
+  });
+
+  it("upgrades version 1 documents", () => {
+    const migrated = migrateServiceJSON(legacyDocument());
+
+    expect(migrated.schemaVersion).toBe(SERVICE_SCHEMA_VERSION);
+    expect(migrated.metadata.category).toBe("Advisory");
+    expect(migrated.metadata.description).toEqual({
+      text: "Legacy description",
+    });
+    expect(migrated.settings.status).toBe(ServiceStatus.ACTIVE);
+    expect(migrated.metadata.capacityPlan).toEqual([
+      { month: "2025-01", capacity: 10 },
+    ]);
+  });
+
+  it("parses version 1 documents into working services", () => {
+    const parsed = MajikService.parseFromJSON(JSON.stringify(legacyDocument()));
+
+    expect(parsed.category).toBe("Advisory");
+    expect(parsed.getRevenue("2025-01").toMajor()).toBe(1000);
+  });
+
+  it("rejects documents from a newer or invalid version", () => {
+    expect(() =>
+      migrateServiceJSON({ schemaVersion: SERVICE_SCHEMA_VERSION + 1 })
+    ).toThrow(/newer than the supported version/);
+    expect(() => migrateServiceJSON({ schemaVersion: "2" })).toThrow(
+      /Invalid schemaVersion/
+    );
+  });
+
+  it("round-trips through JSON", () => {
+    const original = service();
+    const parsed = MajikService.parseFromJSON(JSON.stringify(original));
+
+    expect(parsed.id).toBe(original.id);
+    expect(parsed.capacity).toEqual(original.capacity);
+    expect(parsed.cos.map((c) => c.id)).toEqual(original.cos.map((c) => c.id));
+    expect(parsed.grossProfit.toMajor()).toBe(original.grossProfit.toMajor());
+  });
+});
+
+describe("schema validation", () => {
+  it("reports invalid fields by path", () => {
+    const json = JSON.parse(JSON.stringify(service().toJSON()));
+    json.metadata.capacityPlan[0].month = "January";
+
+    const errors = validateServiceJSON(migrateServiceJSON(json));
+    expect(errors.map((e) => e.path)).toContain(
+      "metadata.capacityPlan[0].month"
+    );
+  });
+
+  it.each([
+    "2025-012",
+    "x12",
+    "garbage-10",
+    "2025-05abc",
+    "2025-13",
+    "2025-00",
+  ])("rejects the malformed month %s", (month: string) => {
+    const json = JSON.parse(JSON.stringify(service().toJSON()));
+    json.metadata.capacityPlan[0].month = month;
+
+    expect(isValidYYYYMM(month)).toBe(false);
+    expect(() => MajikService.parseFromJSON(json)).toThrow(
+      /metadata\.capacityPlan\[0\]\.month/
+    );
+  });
+
+  it("accepts every calendar month", () => {
+    ["2025-01", "2025-09", "2025-10", "2025-12"].forEach((month) =>
+      expect(isValidYYYYMM(month)).toBe(true)
+    );
+  });
+
+  it("rejects COS items with a non-positive quantity or inconsistent subtotal", () => {
+    const json = JSON.parse(JSON.stringify(service().toJSON()));
+    json.metadata.cos[0].quantity = 0;
+    expect(() => MajikService.parseFromJSON(json)).toThrow(
+      /metadata\.cos\[0\]\.quantity/
+    );
+
+    const original = service();
+    const [tools] = original.cos;
+    expect(() => original.setCOS([{ ...tools, quantity: 0 }])).toThrow(
+      /positive quantity/
+    );
+    expect(() => original.setCOS([{ ...tools, subtotal: php(999) }])).toThrow(
+      /subtotal = unitCost × quantity/
+    );
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, expect, it } from "vitest";
+import {
+  canTransitionStatus,
+  MajikService,
+  SERVICE_STATUS_TRANSITIONS,
+  ServiceStatus,
+} from "../src";
+import { hourly } from "./helpers";
+
+describe("status transitions", () => {
+  it("follows the transition table", () => {
+    Object.values(ServiceStatus).forEach((from) =>
+      Object.values(ServiceStatus).forEach((to) =>
+        expect(canTransitionStatus(from, to)).toBe(
+          SERVICE_STATUS_TRANSITIONS[from].includes(to)
+        )
+      )
+    );
+  });
+
+  it("rejects reverting a discontinued service to draft", () => {
+    const service = hourly().discontinue("Retired");
+
+    expect(service.canTransitionTo(ServiceStatus.DRAFT)).toBe(false);
+    expect(() => service.revertToDraft()).toThrow(
+      "Invalid status transition: Discontinued -> Draft"
+    );
+    expect(service.status).toBe(ServiceStatus.DISCONTINUED);
+  });
+
+  it("reactivates a discontinued service", () => {
+    const service = hourly().discontinue().activate();
+    expect(service.status).toBe(ServiceStatus.ACTIVE);
+  });
+
+  it("treats setting the current status as a no-op", () => {
+    const service = hourly().activate();
+    expect(service.statusHistory).toHaveLength(0);
+  });
+});
+
+describe("status history", () => {
+  it("logs each transition with its reason", () => {
+    const service = hourly().revertToDraft("Reworking").activate("Launched");
+
+    expect(
+      service.statusHistory.map(({ from, to, reason }) => ({
+        from,
+        to,
+        reason,
+      }))
+    ).toEqual([
+      {
+        from: ServiceStatus.ACTIVE,
+        to: ServiceStatus.DRAFT,
+        reason: "Reworking",
+      },
+      {
+        from: ServiceStatus.DRAFT,
+        to: ServiceStatus.ACTIVE,
+        reason: "Launched",
+      },
+    ]);
+    service.statusHistory.forEach((t) =>
+      expect(Number.isNaN(Date.parse(t.timestamp))).toBe(false)
+    );
+  });
+
+  it("round-trips through toJSON and parseFromJSON", () => {
+    const service = hourly().markFullyBooked("Sold out").discontinue();
+    const parsed = MajikService.parseFromJSON(JSON.stringify(service.toJSON()));
+
+    expect(parsed.status).toBe(ServiceStatus.DISCONTINUED);
+    expect(parsed.statusHistory).toEqual(service.statusHistory);
+  });
+});
+
+describe("status fields", () => {
+  it("keeps settings.status and status in sync", () => {
+    const service = hourly().revertToDraft();
+    expect(service.settings.status).toBe(ServiceStatus.DRAFT);
+    expect(service.status).toBe(ServiceStatus.DRAFT);
+
+    service.setStatus(ServiceStatus.ACTIVE);
+    expect(service.settings.status).toBe(ServiceStatus.ACTIVE);
+    expect(service.status).toBe(ServiceStatus.ACTIVE);
+  });
+
+  it("keeps them in sync after parsing", () => {
+    const json = hourly().discontinue().toJSON();
+    const parsed = MajikService.parseFromJSON(json);
+
+    expect(parsed.settings.status).toBe(parsed.status);
+    expect(parsed.toJSON().status).toBe(ServiceStatus.DISCONTINUED);
+  });
+});
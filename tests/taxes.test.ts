@@ -0,0 +1,98 @@
+import { describe, expect, it } from "vitest";
+import { AdjustmentKind, TaxBase, TaxKind } from "../src";
+import { hourly, php } from "./helpers";
+
+const plan = (amount: number) =>
+  hourly(amount, [{ month: "2025-01", capacity: 10 }]);
+
+describe("tax rules", () => {
+  it("deducts inclusive revenue taxes from net revenue", () => {
+    const service = plan(112).addTaxRule(
+      "VAT",
+      TaxKind.VAT,
+      0.12,
+      TaxBase.REVENUE,
+      true
+    );
+
+    expect(service.getRevenue("2025-01").toMajor()).toBe(1120);
+    expect(service.getNetRevenue("2025-01").toMajor()).toBeCloseTo(1000, 2);
+    expect(service.getTaxBreakdown("2025-01").revenueTax.toMajor()).toBeCloseTo(
+      120,
+      2
+    );
+  });
+
+  it("splits several inclusive taxes from the same tax-inclusive base", () => {
+    const service = plan(115)
+      .addTaxRule("VAT", TaxKind.VAT, 0.12, TaxBase.REVENUE, true)
+      .addTaxRule("Local", TaxKind.OTHER, 0.03, TaxBase.REVENUE, true);
+    const [vat, local] = service.getTaxBreakdown("2025-01").lines;
+
+    expect(vat.amount.toMajor()).toBeCloseTo(120, 2);
+    expect(local.amount.toMajor()).toBeCloseTo(30, 2);
+    expect(service.getNetRevenue("2025-01").toMajor()).toBeCloseTo(1000, 2);
+  });
+
+  it("collects exclusive VAT on top of the rate and passes it through", () => {
+    const service = plan(100).addTaxRule("VAT", TaxKind.VAT, 0.12);
+    const breakdown = service.getTaxBreakdown("2025-01");
+
+    expect(breakdown.collected.toMajor()).toBeCloseTo(120, 2);
+    expect(breakdown.lines[0].deductedFrom).toBeUndefined();
+    expect(service.getNetRevenue("2025-01").toMajor()).toBe(1000);
+    expect(service.getNetProfit("2025-01").toMajor()).toBe(1000);
+  });
+
+  it("charges other exclusive revenue taxes against net profit", () => {
+    const service = plan(100).addTaxRule("Percentage", TaxKind.OTHER, 0.03);
+
+    expect(service.getNetRevenue("2025-01").toMajor()).toBe(1000);
+    expect(service.getNetProfit("2025-01").toMajor()).toBeCloseTo(970, 2);
+  });
+
+  it("withholds income taxes from positive pre-tax income only", () => {
+    const service = plan(100)
+      .addCOS("Tools", php(20))
+      .addTaxRule("Withholding", TaxKind.WITHHOLDING, 0.1, TaxBase.INCOME);
+
+    // 1000 revenue - 200 COS = 800 pre-tax income
+    expect(service.getTaxBreakdown("2025-01").incomeTax.toMajor()).toBeCloseTo(
+      80,
+      2
+    );
+    expect(service.getNetProfit("2025-01").toMajor()).toBeCloseTo(720, 2);
+
+    service.addAdjustment(
+      AdjustmentKind.OPERATING_EXPENSE,
+      "Rent",
+      php(1000),
+      "2025-01"
+    );
+    expect(service.getTaxBreakdown("2025-01").incomeTax.toMajor()).toBe(0);
+  });
+
+  it("totals tax lines and stored tax adjustments", () => {
+    const service = plan(100)
+      .addTaxRule("VAT", TaxKind.VAT, 0.12)
+      .addTaxRule("Withholding", TaxKind.WITHHOLDING, 0.1, TaxBase.INCOME)
+      .addAdjustment(AdjustmentKind.TAX, "Filing fee", php(5), "2025-01");
+    const breakdown = service.getTaxBreakdown("2025-01");
+
+    expect(breakdown.adjustments.toMajor()).toBe(5);
+    expect(breakdown.total.toMajor()).toBeCloseTo(225, 2);
+  });
+
+  it("rejects invalid rules and unknown IDs", () => {
+    const service = plan(100);
+
+    expect(() => service.addTaxRule("VAT", TaxKind.VAT, 1)).toThrow(
+      /between 0 and 1/
+    );
+    expect(() => service.addTaxRule(" ", TaxKind.VAT, 0.12)).toThrow(/empty/);
+    expect(() => service.addTaxRule("VAT", "Sales" as TaxKind, 0.12)).toThrow(
+      /Invalid Tax kind/
+    );
+    expect(() => service.removeTaxRule("missing")).toThrow(/not found/);
+  });
+});
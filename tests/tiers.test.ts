@@ -0,0 +1,112 @@
+import { describe, expect, it } from "vitest";
+import { MajikMoney } from "@thezelijah/majik-money";
+import {
+  assertValidRateTiers,
+  priceUnits,
+  RateTier,
+  RateUnit,
+  ServiceType,
+  TierMode,
+} from "../src";
+import { php, service } from "./helpers";
+
+const tiers: RateTier[] = [
+  { upTo: 10, amount: php(100) },
+  { upTo: 20, amount: php(80) },
+  { upTo: null, amount: php(50) },
+];
+
+describe("tiered pricing", () => {
+  it("prices graduated tiers band by band", () => {
+    const rate = { amount: php(100), unit: RateUnit.PER_UNIT, tiers };
+
+    expect(priceUnits(rate, 5).toMajor()).toBe(500);
+    expect(priceUnits(rate, 15).toMajor()).toBe(1400);
+    expect(priceUnits(rate, 25).toMajor()).toBe(2050);
+  });
+
+  it("prices volume tiers at the tier the total falls in", () => {
+    const rate = {
+      amount: php(100),
+      unit: RateUnit.PER_UNIT,
+      tiers,
+      tierMode: TierMode.VOLUME,
+    };
+
+    expect(priceUnits(rate, 10).toMajor()).toBe(1000);
+    expect(priceUnits(rate, 15).toMajor()).toBe(1200);
+    expect(priceUnits(rate, 25).toMajor()).toBe(1250);
+  });
+
+  it("prices units beyond the last bounded tier at that tier", () => {
+    const rate = {
+      amount: php(100),
+      unit: RateUnit.PER_UNIT,
+      tiers: tiers.slice(0, 2),
+    };
+
+    expect(priceUnits(rate, 25).toMajor()).toBe(2200);
+  });
+
+  it("falls back to the flat amount without tiers", () => {
+    expect(
+      priceUnits({ amount: php(100), unit: RateUnit.PER_UNIT }, 3).toMajor()
+    ).toBe(300);
+  });
+
+  it("prices each month's units through the service's tiers", () => {
+    const usage = service(
+      { amount: php(100), unit: RateUnit.PER_UNIT, tiers },
+      [
+        { month: "2025-01", capacity: 15 },
+        { month: "2025-02", capacity: 5 },
+      ],
+      ServiceType.USAGE_BASED
+    );
+
+    expect(usage.hasRateTiers()).toBe(true);
+    expect(usage.getRevenue("2025-01").toMajor()).toBe(1400);
+    expect(usage.getRevenue("2025-02").toMajor()).toBe(500);
+  });
+});
+
+describe("tier validation", () => {
+  it("rejects empty, unordered or open-ended middle tiers", () => {
+    expect(() => assertValidRateTiers([], "PHP")).toThrow(/non-empty/);
+    expect(() =>
+      assertValidRateTiers(
+        [
+          { upTo: 20, amount: php(100) },
+          { upTo: 10, amount: php(80) },
+        ],
+        "PHP"
+      )
+    ).toThrow(/ascending/);
+    expect(() =>
+      assertValidRateTiers(
+        [
+          { upTo: null, amount: php(100) },
+          { upTo: 10, amount: php(80) },
+        ],
+        "PHP"
+      )
+    ).toThrow(/open-ended/);
+  });
+
+  it("rejects tiers in another currency", () => {
+    expect(() =>
+      assertValidRateTiers(
+        [{ upTo: null, amount: MajikMoney.fromMajor(1, "USD") }],
+        "PHP"
+      )
+    ).toThrow(/Currency mismatch/);
+  });
+
+  it("rejects an unknown tier mode on the service", () => {
+    const usage = service({ amount: php(100), unit: RateUnit.PER_UNIT });
+
+    expect(() => usage.setRateTiers(tiers, "Stepped" as TierMode)).toThrow(
+      /Invalid Tier mode/
+    );
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, expect, it } from "vitest";
+import { RateUnit } from "../src";
+import { hourly, php, service } from "./helpers";
+
+const plan = () =>
+  hourly(100, [
+    { month: "2025-01", capacity: 10 },
+    { month: "2025-02", capacity: 10 },
+  ]);
+
+describe("timesheet", () => {
+  it("rolls billable hours up into the month's actual units", () => {
+    const service = plan()
+      .logTime("2025-01-06T09:00:00Z", 4, "Ana")
+      .logTime("2025-01-07T09:00:00Z", 3, "Ben")
+      .logTime("2025-01-08T09:00:00Z", 2, "Ben", false);
+
+    expect(service.getLoggedHours("2025-01")).toBe(9);
+    expect(service.getDeliveredUnits("2025-01")).toBe(7);
+    expect(service.getActualUnits("2025-01")).toBe(7);
+    expect(service.getActualRevenue("2025-01").toMajor()).toBe(700);
+    expect(service.hasActual("2025-02")).toBe(false);
+  });
+
+  it("files entries under their UTC month", () => {
+    const service = plan().logTime("2025-01-31T23:30:00Z", 1, "Ana");
+
+    expect(service.timesheet[0].month).toBe("2025-01");
+  });
+
+  it("converts hours to days and sessions for other rate units", () => {
+    const daily = service({ amount: php(800), unit: RateUnit.PER_DAY }, [
+      { month: "2025-01", capacity: 5 },
+    ]).logTime("2025-01-06T09:00:00Z", 12, "Ana");
+    const sessions = service({ amount: php(500), unit: RateUnit.PER_SESSION }, [
+      { month: "2025-01", capacity: 5 },
+    ])
+      .logTime("2025-01-06T09:00:00Z", 2, "Ana", true, undefined, 2)
+      .logTime("2025-01-07T09:00:00Z", 1, "Ana");
+
+    expect(daily.getDeliveredUnits("2025-01")).toBe(1.5);
+    expect(daily.setHoursPerDay(6).getActualUnits("2025-01")).toBe(2);
+    expect(sessions.getActualUnits("2025-01")).toBe(3);
+  });
+
+  it("lets recorded actuals take precedence over logged time", () => {
+    const service = plan()
+      .logTime("2025-01-06T09:00:00Z", 4, "Ana")
+      .recordActual("2025-01", 9);
+
+    expect(service.getActualUnits("2025-01")).toBe(9);
+
+    service.clearActual("2025-01");
+    expect(service.getActualUnits("2025-01")).toBe(4);
+  });
+
+  it("rolls time up into months planned after it was logged", () => {
+    const service = hourly(100).logTime("2025-03-03T09:00:00Z", 5, "Ana");
+
+    expect(service.hasActual("2025-03")).toBe(false);
+
+    service.setCapacity([{ month: "2025-03", capacity: 10 }]);
+    expect(service.getActualUnits("2025-03")).toBe(5);
+  });
+
+  it("drops rolled-up units when entries are removed", () => {
+    const service = plan().logTime("2025-01-06T09:00:00Z", 4, "Ana");
+
+    service.removeTimeEntry(service.timesheet[0].id);
+    expect(service.hasActual("2025-01")).toBe(false);
+    expect(() => service.removeTimeEntry("missing")).toThrow(/not found/);
+  });
+
+  it("flags months where logged time exceeds the plan", () => {
+    const service = plan()
+      .logTime("2025-01-06T09:00:00Z", 12, "Ana")
+      .logTime("2025-03-03T09:00:00Z", 1, "Ana");
+
+    expect(service.getTimesheetOverages()).toEqual([
+      { month: "2025-01", capacity: 10, logged: 12, excess: 2 },
+      { month: "2025-03", capacity: 0, logged: 1, excess: 1 },
+    ]);
+  });
+
+  it("rejects invalid entries", () => {
+    const service = plan();
+
+    expect(() => service.logTime("not a date", 1, "Ana")).toThrow(
+      /Invalid date/
+    );
+    expect(() => service.logTime("2025-01-06", 0, "Ana")).toThrow(
+      /greater than zero/
+    );
+    expect(() => service.logTime("2025-01-06", 1, " ")).toThrow(/Resource/);
+  });
+});
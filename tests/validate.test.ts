@@ -0,0 +1,89 @@
+import { describe, expect, it } from "vitest";
+import { ValidationIssueCode, ValidationSeverity, YYYYMM } from "../src";
+import { hourly, php } from "./helpers";
+
+const plan = () =>
+  hourly(100, [
+    { month: "2025-01", capacity: 10 },
+    { month: "2025-02", capacity: 20 },
+  ]).addCOS("Tools", php(20));
+
+const codes = (service: ReturnType<typeof plan>) =>
+  service.validate().map((i) => i.code);
+
+describe("validate", () => {
+  it("returns no issues for a valid service", () => {
+    expect(plan().validate()).toEqual([]);
+  });
+
+  it.each(["2025-012", "x12", "garbage-10", "2025-05abc", "2025-13"])(
+    "reports the malformed month %s",
+    (month: string) => {
+      const service = plan();
+      service.metadata.capacityPlan![0].month = month as YYYYMM;
+
+      expect(service.validate()).toContainEqual({
+        code: ValidationIssueCode.INVALID_MONTH,
+        severity: ValidationSeverity.ERROR,
+        path: "metadata.capacityPlan[0].month",
+        message: `Invalid month: ${month}`,
+      });
+    }
+  );
+
+  it("reports duplicate months and negative units", () => {
+    const service = plan();
+    const [january, february] = service.metadata.capacityPlan!;
+    february.month = "2025-01";
+    january.capacity = -1;
+
+    expect(codes(service)).toEqual(
+      expect.arrayContaining([
+        ValidationIssueCode.DUPLICATE_CAPACITY_MONTH,
+        ValidationIssueCode.NEGATIVE_CAPACITY,
+      ])
+    );
+
+    january.capacity = 5;
+    january.adjustment = -6;
+    expect(codes(service)).toContain(ValidationIssueCode.NEGATIVE_UNITS);
+  });
+
+  it("reports invalid COS quantities and subtotals", () => {
+    const service = plan();
+    const [tools] = service.metadata.cos;
+    tools.quantity = 0;
+
+    expect(codes(service)).toEqual(
+      expect.arrayContaining([
+        ValidationIssueCode.COS_INVALID_QUANTITY,
+        ValidationIssueCode.COS_SUBTOTAL_MISMATCH,
+      ])
+    );
+  });
+
+  it("warns about drift between top-level fields and metadata", () => {
+    const service = plan();
+    service.category = "Elsewhere";
+
+    const [issue] = service.validate();
+    expect(issue.code).toBe(ValidationIssueCode.CATEGORY_DRIFT);
+    expect(issue.severity).toBe(ValidationSeverity.WARNING);
+  });
+
+  it("warns about base and scheduled rates below the unit cost", () => {
+    const service = plan().setRateAmount(10, "2025-02");
+
+    expect(service.validate()).toEqual([
+      expect.objectContaining({
+        code: ValidationIssueCode.RATE_BELOW_COST,
+        path: "metadata.rateSchedule[0].rate.amount",
+      }),
+    ]);
+
+    service.addCOS("Subcontractor", php(90));
+    expect(
+      service.validate().filter((i) => i.path === "metadata.rate")
+    ).toHaveLength(1);
+  });
+});
@@ -0,0 +1,233 @@
+import { describe, expect, it } from "vitest";
+import {
+  MajikService,
+  RateUnit,
+  ServiceChangeEvent,
+  ServiceRate,
+  VariantKind,
+} from "../src";
+import { php, service as create } from "./helpers";
+
+function withRate(rate: ServiceRate, capacity: number): MajikService {
+  return create(rate, [{ month: "2025-01", capacity }]);
+}
+
+describe("variant revenue under PER_UNIT", () => {
+  const hourly = () =>
+    withRate({ amount: php(100), unit: RateUnit.PER_HOUR }, 10);
+
+  it("adds a variant's delta to its share of the units", () => {
+    const service = hourly().addVariant("Rush", VariantKind.VARIANT, {
+      share: 0.5,
+      rateDelta: php(20),
+    });
+
+    expect(service.getRevenue("2025-01").toMajor()).toBe(1100);
+  });
+
+  it("prices an override against the rate", () => {
+    const service = hourly().addVariant("Onsite", VariantKind.VARIANT, {
+      share: 0.3,
+      rateOverride: php(150),
+    });
+
+    expect(service.getRevenue("2025-01").toMajor()).toBe(1150);
+  });
+
+  it("prices an override against the tiered price of the units", () => {
+    const service = withRate(
+      {
+        amount: php(100),
+        unit: RateUnit.PER_HOUR,
+        tiers: [
+          { upTo: 10, amount: php(100) },
+          { upTo: null, amount: php(50) },
+        ],
+      },
+      20
+    ).addVariant("Onsite", VariantKind.VARIANT, {
+      share: 0.5,
+      rateOverride: php(90),
+    });
+
+    // 1,500 tiered (75 per unit on average); 10 units at 90 instead of 75
+    expect(service.getRevenue("2025-01").toMajor()).toBe(1650);
+  });
+
+  it("splits units and prices variants in their economics", () => {
+    const service = hourly()
+      .addCOS("Tools", php(20))
+      .addVariant("Rush", VariantKind.VARIANT, {
+        share: 0.2,
+        rateDelta: php(30),
+      })
+      .addVariant("Weekend", VariantKind.ADD_ON, {
+        share: 0.1,
+        rateDelta: php(50),
+      });
+
+    const [standard, rush, weekend] = service.getVariantEconomics();
+    expect(standard.share).toBe(0.8);
+    expect(standard.unitRate.toMajor()).toBe(100);
+    expect(rush.unitRate.toMajor()).toBe(130);
+    expect(weekend.unitRate.toMajor()).toBe(50);
+    expect(service.getRevenue("2025-01").toMajor()).toBe(1110);
+  });
+});
+
+describe("variant revenue under fixed-fee models", () => {
+  const retainer = () =>
+    withRate({ amount: php(1500), unit: RateUnit.FIXED }, 10);
+
+  it("applies an override to the fee, weighted by share", () => {
+    const service = retainer().addVariant("Premium", VariantKind.VARIANT, {
+      share: 0.3,
+      rateOverride: php(1800),
+    });
+
+    expect(service.getRevenue("2025-01").toMajor()).toBe(1590);
+  });
+
+  it("applies a delta to the fee, weighted by share", () => {
+    const service = retainer().addVariant("Weekend", VariantKind.ADD_ON, {
+      share: 0.1,
+      rateDelta: php(500),
+    });
+
+    expect(service.getRevenue("2025-01").toMajor()).toBe(1550);
+  });
+
+  it("spreads the fee change over the standard unit rate", () => {
+    const service = retainer().addVariant("Premium", VariantKind.VARIANT, {
+      share: 0.3,
+      rateOverride: php(1800),
+    });
+
+    const [standard, premium] = service.getVariantEconomics();
+    expect(standard.unitRate.toMajor()).toBe(150);
+    expect(premium.unitRate.toMajor()).toBe(180);
+  });
+});
+
+describe("variant units and costs", () => {
+  const hourly = () =>
+    withRate({ amount: php(100), unit: RateUnit.PER_HOUR }, 10);
+
+  it("splits a month's units, with add-ons on top", () => {
+    const service = hourly()
+      .addVariant("Rush", VariantKind.VARIANT, { share: 0.2 })
+      .addVariant("Weekend", VariantKind.ADD_ON, { share: 0.1 });
+
+    expect(service.getCapacitySplit("2025-01").map((s) => s.units)).toEqual([
+      8, 2, 1,
+    ]);
+    expect(service.getVariantUnits(service.variants[0].id, "2025-01")).toBe(2);
+  });
+
+  it("adds a variant's own costs to the standard unit cost", () => {
+    const service = hourly()
+      .addCOS("Tools", php(20))
+      .addVariant("Rush", VariantKind.VARIANT, {
+        share: 0.2,
+        rateDelta: php(30),
+      })
+      .addVariant("Weekend", VariantKind.ADD_ON, {
+        share: 0.1,
+        rateDelta: php(50),
+      });
+    const [rush, weekend] = service.variants;
+    service
+      .addVariantCOS(rush.id, "Courier", php(10))
+      .addVariantCOS(weekend.id, "Overtime", php(15));
+
+    const [standard, rushEconomics, weekendEconomics] =
+      service.getVariantEconomics();
+    expect(standard.unitCost.toMajor()).toBe(20);
+    expect(rushEconomics.unitCost.toMajor()).toBe(30);
+    expect(rushEconomics.unitProfit.toMajor()).toBe(100);
+    expect(weekendEconomics.unitCost.toMajor()).toBe(15);
+
+    service.removeVariantCOS(rush.id, rush.cos[0].id);
+    expect(service.getVariantEconomics()[1].unitCost.toMajor()).toBe(20);
+  });
+});
+
+describe("variant validation", () => {
+  const hourly = () =>
+    withRate({ amount: php(100), unit: RateUnit.PER_HOUR }, 10);
+
+  it("rejects shares out of range or adding up to more than 1", () => {
+    const service = hourly().addVariant("Rush", VariantKind.VARIANT, {
+      share: 0.7,
+    });
+
+    expect(() =>
+      service.addVariant("Onsite", VariantKind.VARIANT, { share: 1.5 })
+    ).toThrow(/between 0 and 1/);
+    expect(() =>
+      service.addVariant("Onsite", VariantKind.VARIANT, { share: 0.4 })
+    ).toThrow(/more than 1/);
+    expect(service.variants).toHaveLength(1);
+  });
+
+  it("accepts a rate delta or an override, and no override on add-ons", () => {
+    const service = hourly();
+
+    expect(() =>
+      service.addVariant("Onsite", VariantKind.VARIANT, {
+        rateDelta: php(10),
+        rateOverride: php(150),
+      })
+    ).toThrow(/either a rate delta or an override/);
+    expect(() =>
+      service.addVariant("Weekend", VariantKind.ADD_ON, {
+        rateOverride: php(150),
+      })
+    ).toThrow(/not an override/);
+  });
+
+  it("clears the other rate field on update", () => {
+    const service = hourly().addVariant("Rush", VariantKind.VARIANT, {
+      share: 0.5,
+      rateDelta: php(20),
+    });
+    const [rush] = service.variants;
+
+    service.updateVariant(rush.id, { rateOverride: php(150) });
+
+    expect(service.variants[0].rateDelta).toBeUndefined();
+    expect(service.variants[0].rateOverride?.toMajor()).toBe(150);
+    expect(service.getRevenue("2025-01").toMajor()).toBe(1250);
+  });
+});
+
+describe("variant events", () => {
+  it("emits added, updated and removed events", () => {
+    const service = withRate({ amount: php(100), unit: RateUnit.PER_HOUR }, 10);
+    const events: ServiceChangeEvent[] = [];
+    service.on("change", (e) => events.push(...e.events));
+
+    service.addVariant("Rush", VariantKind.VARIANT, { share: 0.2 });
+    const [rush] = service.variants;
+    service.setVariantShare(rush.id, 0.3).removeVariant(rush.id);
+
+    expect(events.map((e) => e.type)).toEqual([
+      "variant:added",
+      "variant:updated",
+      "variant:removed",
+    ]);
+  });
+
+  it("drops a variant added and removed in one batch", () => {
+    const service = withRate({ amount: php(100), unit: RateUnit.PER_HOUR }, 10);
+    const events: ServiceChangeEvent[] = [];
+    service.on("change", (e) => events.push(...e.events));
+
+    service.batch((s) => {
+      s.addVariant("Rush", VariantKind.VARIANT, { share: 0.2 });
+      s.removeVariant(s.variants[0].id);
+    });
+
+    expect(events).toEqual([]);
+  });
+});